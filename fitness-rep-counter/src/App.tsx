@@ -1,11 +1,17 @@
-import React, { useCallback, useState } from 'react';
-import { useWorkoutStore } from './store/workoutStore';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useWorkoutStore, DEFAULT_TARGET_HOLD_TIME, DEFAULT_UNILATERAL_MODE } from './store/workoutStore';
 import ExerciseSelector from './components/ExerciseSelector';
 import WorkoutDisplay from './components/WorkoutDisplay';
 import WorkoutSummary from './components/WorkoutSummary';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
 import VideoAnalyzer from './components/VideoAnalyzer';
-import { RepData, WorkoutPhase } from './types';
+import TodayWorkout from './components/TodayWorkout';
+import TemplateLibrary from './components/TemplateLibrary';
+import ProgramPlanner from './components/ProgramPlanner';
+import CalibrationWizard from './components/CalibrationWizard';
+import { ExerciseCalibration, HoldProgress, PlannedWorkout, RepData, WorkoutPhase } from './types';
+import { DEFAULT_WORKOUT_STRUCTURE, toWorkoutBlock } from './utils/workoutPlan';
+import { DEFAULT_AMRAP_TIME_CAP, getWorkoutFormat } from './utils/intervals';
 import {
   Activity,
   BarChart3,
@@ -17,42 +23,102 @@ import {
 } from 'lucide-react';
 import './App.css';
 
-type AppView = 'home' | 'workout' | 'summary' | 'analytics' | 'video';
+type AppView = 'home' | 'workout' | 'summary' | 'analytics' | 'video' | 'calibration';
 
 function App() {
   const [appView, setAppView] = useState<AppView>('home');
   const [isDarkMode, setIsDarkMode] = useState(true);
   const [isSpeechEnabled, setIsSpeechEnabled] = useState(true);
+  const [plannedWorkouts, setPlannedWorkouts] = useState<PlannedWorkout[]>([]);
 
   const {
     config,
     currentSession,
     currentSetIndex,
     currentReps,
+    currentHold,
     phase,
     countdownTime,
     restTime,
-    workoutHistory,
     isCameraReady,
     isPoseDetectionReady,
     cameraZoomLevel,
+    poseModel,
+    keypointFilter,
+    templates,
+    programs,
+    profile,
     setConfig,
     setPhase,
     setCameraReady,
     setPoseDetectionReady,
     setCameraZoomLevel,
+    setPoseModel,
+    setKeypointFilter,
     startWorkout,
+    switchExercise,
     addRep,
+    updateHold,
     completeSet,
     startNextSet,
     completeWorkout,
     resetWorkout,
     setCountdownTime,
     setRestTime,
+    importLegacyHistory,
+    getCurrentBlock,
+    saveTemplate,
+    loadTemplate,
+    deleteTemplate,
+    saveProgram,
+    deleteProgram,
+    getPlannedWorkouts,
+    startPlannedWorkout,
+    acceptProgression,
+    saveCalibration,
+    clearCalibration,
   } = useWorkoutStore();
 
   const isReady = isCameraReady && isPoseDetectionReady;
 
+  // Exercise and targets of the set in progress - multi-exercise
+  // workouts move through their blocks set by set
+  const current = getCurrentBlock();
+  const block = current?.block ?? toWorkoutBlock(config);
+  // Recognised exercises can only take over single-exercise workouts the
+  // user set up themselves - not multi-exercise or program workouts
+  const canSwitchExercise = !!currentSession && !currentSession.config.blocks?.length && !currentSession.program;
+
+  // Move history saved by older versions into IndexedDB
+  useEffect(() => {
+    importLegacyHistory().catch((err) => {
+      console.error('Failed to import workout history:', err);
+    });
+  }, [importLegacyHistory]);
+
+  // Program workouts due today, refreshed whenever the home screen shows
+  useEffect(() => {
+    if (appView !== 'home') return;
+    let cancelled = false;
+
+    getPlannedWorkouts()
+      .then((planned) => {
+        if (!cancelled) setPlannedWorkouts(planned);
+      })
+      .catch((err) => {
+        console.error('Failed to load planned workouts:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appView, programs, templates, getPlannedWorkouts]);
+
+  const handleStartPlannedWorkout = useCallback((planned: PlannedWorkout) => {
+    startPlannedWorkout(planned);
+    setAppView('workout');
+  }, [startPlannedWorkout]);
+
   const handleStartWorkout = useCallback(() => {
     startWorkout();
     setAppView('workout');
@@ -62,6 +128,10 @@ function App() {
     addRep(rep);
   }, [addRep]);
 
+  const handleHoldUpdate = useCallback((progress: HoldProgress) => {
+    updateHold(progress);
+  }, [updateHold]);
+
   const handleSetComplete = useCallback(() => {
     completeSet();
   }, [completeSet]);
@@ -76,12 +146,13 @@ function App() {
   }, [completeWorkout]);
 
   const handleStopWorkout = useCallback(() => {
-    if (currentReps.length > 0) {
+    // Keep the set in progress - reps counted so far, or any time held
+    if (currentReps.length > 0 || (currentHold?.holdTime ?? 0) > 0) {
       completeSet();
     }
     completeWorkout();
     setAppView('summary');
-  }, [currentReps.length, completeSet, completeWorkout]);
+  }, [currentReps.length, currentHold, completeSet, completeWorkout]);
 
   const handleNewWorkout = useCallback(() => {
     resetWorkout();
@@ -96,6 +167,11 @@ function App() {
     setAppView('video');
   }, []);
 
+  const handleSaveCalibration = useCallback((calibration: ExerciseCalibration) => {
+    saveCalibration(calibration);
+    setAppView('home');
+  }, [saveCalibration]);
+
   const handleBackFromAnalytics = useCallback(() => {
     if (currentSession && phase === 'summary') {
       setAppView('summary');
@@ -165,36 +241,95 @@ function App() {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
+        {appView === 'home' && (
+          <TodayWorkout
+            plannedWorkouts={plannedWorkouts}
+            onStart={handleStartPlannedWorkout}
+          />
+        )}
+
         {appView === 'home' && (
           <ExerciseSelector
             selectedExercise={config.exercise}
             sets={config.sets}
             reps={config.targetReps}
             restPeriod={config.restPeriod}
+            targetTempo={config.targetTempo}
+            velocityLossLimit={config.velocityLossLimit}
+            targetHoldTime={config.targetHoldTime ?? DEFAULT_TARGET_HOLD_TIME}
+            unilateralMode={config.unilateralMode ?? DEFAULT_UNILATERAL_MODE}
+            blocks={config.blocks ?? []}
+            structure={config.structure ?? DEFAULT_WORKOUT_STRUCTURE}
+            format={config.format ?? 'sets'}
+            timeCap={config.timeCap ?? DEFAULT_AMRAP_TIME_CAP}
             zoomLevel={cameraZoomLevel}
+            poseModel={poseModel}
+            keypointFilter={keypointFilter}
+            calibration={profile.calibrations[config.exercise]}
             onExerciseChange={(exercise) => setConfig({ exercise })}
             onSetsChange={(sets) => setConfig({ sets })}
             onRepsChange={(reps) => setConfig({ targetReps: reps })}
             onRestPeriodChange={(restPeriod) => setConfig({ restPeriod })}
+            onTargetTempoChange={(targetTempo) => setConfig({ targetTempo })}
+            onVelocityLossLimitChange={(velocityLossLimit) => setConfig({ velocityLossLimit })}
+            onTargetHoldTimeChange={(targetHoldTime) => setConfig({ targetHoldTime })}
+            onUnilateralModeChange={(unilateralMode) => setConfig({ unilateralMode })}
+            onBlocksChange={(blocks) => setConfig({ blocks })}
+            onStructureChange={(structure) => setConfig({ structure })}
+            onFormatChange={(format) => setConfig({ format })}
+            onTimeCapChange={(timeCap) => setConfig({ timeCap })}
             onZoomChange={setCameraZoomLevel}
+            onPoseModelChange={setPoseModel}
+            onKeypointFilterChange={setKeypointFilter}
+            onCalibrate={() => setAppView('calibration')}
+            onClearCalibration={() => clearCalibration(config.exercise)}
             onStartWorkout={handleStartWorkout}
             isReady={true} // Will show loading state in workout display
           />
         )}
 
+        {appView === 'home' && (
+          <div className="mt-6">
+            <TemplateLibrary
+              templates={templates}
+              onSave={saveTemplate}
+              onLoad={loadTemplate}
+              onDelete={deleteTemplate}
+            />
+            <ProgramPlanner
+              programs={programs}
+              templates={templates}
+              onSave={saveProgram}
+              onDelete={deleteProgram}
+            />
+          </div>
+        )}
+
         {appView === 'workout' && (
           <WorkoutDisplay
-            exercise={config.exercise}
-            targetReps={config.targetReps}
-            totalSets={config.sets}
-            restPeriod={config.restPeriod}
-            currentSet={currentSetIndex}
+            exercise={block.exercise}
+            targetReps={block.targetReps}
+            totalSets={block.sets}
+            restPeriod={current?.step.restAfter ?? block.restPeriod}
+            currentSet={current?.step.setIndex ?? currentSetIndex}
             phase={phase}
             countdownTime={countdownTime}
             restTime={restTime}
             reps={currentReps}
+            hold={currentHold}
+            targetHoldTime={block.targetHoldTime ?? DEFAULT_TARGET_HOLD_TIME}
             initialZoomLevel={cameraZoomLevel}
+            poseModel={poseModel}
+            keypointFilter={keypointFilter}
+            calibrations={profile.calibrations}
+            targetTempo={block.targetTempo}
+            unilateralMode={block.unilateralMode ?? DEFAULT_UNILATERAL_MODE}
+            nextExercise={current?.next && current.next.exercise !== block.exercise ? current.next.exercise : undefined}
+            format={getWorkoutFormat(currentSession?.config ?? config)}
+            workSeconds={current?.step.workSeconds}
+            velocityLossLimit={(currentSession?.config ?? config).velocityLossLimit}
             onRepComplete={handleRepComplete}
+            onHoldUpdate={handleHoldUpdate}
             onSetComplete={handleSetComplete}
             onStartNextSet={handleStartNextSet}
             onCompleteWorkout={handleCompleteWorkout}
@@ -205,6 +340,7 @@ function App() {
             onCameraReady={setCameraReady}
             onPoseReady={setPoseDetectionReady}
             onZoomChange={setCameraZoomLevel}
+            onSwitchExercise={canSwitchExercise ? switchExercise : undefined}
           />
         )}
 
@@ -213,21 +349,37 @@ function App() {
             session={currentSession}
             onStartNew={handleNewWorkout}
             onViewAnalytics={handleViewAnalytics}
+            onAcceptProgression={acceptProgression}
           />
         )}
 
         {appView === 'analytics' && (
           <AnalyticsDashboard
-            workoutHistory={workoutHistory}
             onBack={handleBackFromAnalytics}
           />
         )}
 
         {appView === 'video' && (
           <VideoAnalyzer
+            poseModel={poseModel}
+            keypointFilter={keypointFilter}
+            calibrations={profile.calibrations}
             onBack={() => setAppView('home')}
           />
         )}
+
+        {appView === 'calibration' && (
+          <CalibrationWizard
+            exercise={config.exercise}
+            calibration={profile.calibrations[config.exercise]}
+            initialZoomLevel={cameraZoomLevel}
+            poseModel={poseModel}
+            keypointFilter={keypointFilter}
+            onSave={handleSaveCalibration}
+            onCancel={() => setAppView('home')}
+            onZoomChange={setCameraZoomLevel}
+          />
+        )}
       </main>
 
       {/* Footer */}
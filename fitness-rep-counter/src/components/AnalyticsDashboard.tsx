@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import {
   LineChart,
   Line,
@@ -19,8 +19,14 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { WorkoutSession, ExerciseType } from '../types';
-import { exercises, getExerciseList } from '../data/exercises';
-import { format, subDays, isAfter } from 'date-fns';
+import { getExerciseList, getExerciseName } from '../data/exercises';
+import { getSideImbalance, IMBALANCE_WARNING_PERCENT } from '../utils/unilateral';
+import { getSessionExercises } from '../utils/workoutPlan';
+import { workoutRepository } from '../services/workoutRepository';
+import { CsvGranularity, CSV_GRANULARITY_LABELS, exportSessionsCsv } from '../services/csvExport';
+import BackupRestore from './BackupRestore';
+import PersonalRecordsPanel from './PersonalRecordsPanel';
+import { format, subDays } from 'date-fns';
 import {
   TrendingUp,
   Calendar,
@@ -30,42 +36,64 @@ import {
   PieChart,
   ArrowLeft,
   Filter,
+  Hourglass,
+  FileSpreadsheet,
 } from 'lucide-react';
 
 interface AnalyticsDashboardProps {
-  workoutHistory: WorkoutSession[];
   onBack: () => void;
 }
 
 type TimeRange = '7d' | '30d' | '90d' | 'all';
 
+// Rows added to the recent workouts table per "Show more"
+const RECENT_WORKOUTS_PAGE_SIZE = 10;
+
 const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
-  workoutHistory,
   onBack,
 }) => {
   const [timeRange, setTimeRange] = useState<TimeRange>('30d');
   const [selectedExercise, setSelectedExercise] = useState<ExerciseType | 'all'>('all');
+  // Sessions in the selected time range, oldest first - null until loaded
+  const [rangeHistory, setRangeHistory] = useState<WorkoutSession[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [visibleWorkouts, setVisibleWorkouts] = useState(RECENT_WORKOUTS_PAGE_SIZE);
+  // Bumped after a backup restore to reload the range
+  const [historyRevision, setHistoryRevision] = useState(0);
+  const [csvGranularity, setCsvGranularity] = useState<CsvGranularity>('sessions');
+  const [csvStatus, setCsvStatus] = useState<string | null>(null);
 
-  // Filter data based on time range and exercise
-  const filteredHistory = useMemo(() => {
-    let filtered = workoutHistory;
-
-    // Time filter
-    if (timeRange !== 'all') {
-      const days = parseInt(timeRange);
-      const cutoff = subDays(new Date(), days);
-      filtered = filtered.filter((session) =>
-        isAfter(new Date(session.date), cutoff)
-      );
-    }
+  // Load only the selected time range from the date index
+  useEffect(() => {
+    let cancelled = false;
+    const from = timeRange === 'all'
+      ? undefined
+      : subDays(new Date(), parseInt(timeRange)).getTime();
 
-    // Exercise filter
-    if (selectedExercise !== 'all') {
-      filtered = filtered.filter((session) => session.exercise === selectedExercise);
-    }
+    workoutRepository
+      .getSessions({ from })
+      .then((sessions) => {
+        if (cancelled) return;
+        setRangeHistory(sessions);
+        setLoadError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setLoadError(err instanceof Error ? err.message : 'Failed to load workout history');
+      });
 
-    return filtered.sort((a, b) => a.date - b.date);
-  }, [workoutHistory, timeRange, selectedExercise]);
+    return () => {
+      cancelled = true;
+    };
+  }, [timeRange, historyRevision]);
+
+  // Filter the loaded range by exercise
+  const filteredHistory = useMemo(() => {
+    const sessions = rangeHistory ?? [];
+    return selectedExercise === 'all'
+      ? sessions
+      : sessions.filter((session) => getSessionExercises(session).includes(selectedExercise));
+  }, [rangeHistory, selectedExercise]);
 
   // Calculate trends data
   const trendsData = useMemo(() => {
@@ -76,15 +104,19 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
           date,
           totalReps: 0,
           validReps: 0,
+          partialReps: 0,
           formScore: 0,
           rom: 0,
+          timeUnderTension: 0,
           count: 0,
         };
       }
       acc[date].totalReps += session.totalReps;
       acc[date].validReps += session.totalValidReps;
+      acc[date].partialReps += session.totalPartialReps ?? 0;
       acc[date].formScore += session.averageFormScore;
       acc[date].rom += session.averageROM;
+      acc[date].timeUnderTension += session.totalTimeUnderTension ?? 0;
       acc[date].count += 1;
       return acc;
     }, {} as Record<string, any>);
@@ -93,14 +125,16 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       date: day.date,
       totalReps: day.totalReps,
       validReps: day.validReps,
+      partialReps: day.partialReps,
       formScore: Math.round(day.formScore / day.count),
       rom: Math.round(day.rom / day.count),
+      timeUnderTension: Math.round(day.timeUnderTension / 1000),
     }));
   }, [filteredHistory]);
 
   // Exercise distribution data
   const exerciseDistribution = useMemo(() => {
-    const distribution = workoutHistory.reduce((acc, session) => {
+    const distribution = (rangeHistory ?? []).reduce((acc, session) => {
       if (!acc[session.exercise]) {
         acc[session.exercise] = { exercise: session.exercise, count: 0, reps: 0 };
       }
@@ -110,11 +144,11 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     }, {} as Record<string, any>);
 
     return Object.values(distribution).map((item: any) => ({
-      name: exercises[item.exercise as ExerciseType].name,
+      name: getExerciseName(item.exercise),
       workouts: item.count,
       reps: item.reps,
     }));
-  }, [workoutHistory]);
+  }, [rangeHistory]);
 
   // Joint angle data for radar chart
   const jointAngleData = useMemo(() => {
@@ -158,6 +192,25 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     }));
   }, [filteredHistory]);
 
+  // Left / right valid reps of unilateral sessions
+  const sideBalanceData = useMemo(() => {
+    return filteredHistory
+      .filter((session) => session.totalLeftReps !== undefined)
+      .map((session) => ({
+        date: format(new Date(session.date), 'MMM d'),
+        exercise: getExerciseName(session.exercise),
+        left: session.totalLeftReps ?? 0,
+        right: session.totalRightReps ?? 0,
+        imbalance: Math.round(
+          getSideImbalance(session.totalLeftReps ?? 0, session.totalRightReps ?? 0)
+        ),
+      }));
+  }, [filteredHistory]);
+
+  const avgSideImbalance = sideBalanceData.length > 0
+    ? Math.round(sideBalanceData.reduce((sum, s) => sum + s.imbalance, 0) / sideBalanceData.length)
+    : 0;
+
   // Summary stats
   const summaryStats = useMemo(() => {
     if (filteredHistory.length === 0) {
@@ -167,6 +220,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         avgFormScore: 0,
         avgROM: 0,
         improvementRate: 0,
+        timeUnderTension: 0,
       };
     }
 
@@ -177,6 +231,10 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     const avgROM =
       filteredHistory.reduce((sum, s) => sum + s.averageROM, 0) /
       filteredHistory.length;
+    const timeUnderTension = filteredHistory.reduce(
+      (sum, s) => sum + (s.totalTimeUnderTension ?? 0),
+      0
+    );
 
     // Calculate improvement (compare first half to second half)
     const midpoint = Math.floor(filteredHistory.length / 2);
@@ -199,9 +257,21 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       avgFormScore: Math.round(avgFormScore),
       avgROM: Math.round(avgROM),
       improvementRate: Math.round(improvementRate),
+      timeUnderTension: Math.round(timeUnderTension / 1000),
     };
   }, [filteredHistory]);
 
+  // Export exactly what the filters show
+  const handleExportCsv = useCallback(async () => {
+    try {
+      const location = await exportSessionsCsv(filteredHistory, csvGranularity);
+      setCsvStatus(`Exported ${filteredHistory.length} workouts to ${location}`);
+    } catch (err) {
+      setCsvStatus(err instanceof Error ? err.message : 'Failed to export CSV');
+      console.error(err);
+    }
+  }, [filteredHistory, csvGranularity]);
+
   const exerciseList = getExerciseList();
 
   return (
@@ -252,10 +322,33 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
             ))}
           </select>
         </div>
+        <div className="flex items-center gap-2 ml-auto">
+          <select
+            value={csvGranularity}
+            onChange={(e) => setCsvGranularity(e.target.value as CsvGranularity)}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            title="One row per session, set or rep"
+          >
+            {(Object.keys(CSV_GRANULARITY_LABELS) as CsvGranularity[]).map((granularity) => (
+              <option key={granularity} value={granularity}>
+                {CSV_GRANULARITY_LABELS[granularity]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExportCsv}
+            disabled={filteredHistory.length === 0}
+            className="flex items-center px-3 py-2 bg-gray-700 rounded-lg text-sm hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Export CSV
+          </button>
+        </div>
       </div>
+      {csvStatus && <p className="text-sm text-gray-400 -mt-3 mb-6 break-all">{csvStatus}</p>}
 
       {/* Summary Stats */}
-      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
         <div className="bg-gray-800/50 rounded-xl p-4 text-center">
           <Activity className="w-6 h-6 mx-auto mb-2 text-blue-400" />
           <div className="text-2xl font-bold">{summaryStats.totalWorkouts}</div>
@@ -283,9 +376,26 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
           </div>
           <div className="text-xs text-gray-400">Improvement</div>
         </div>
+        <div className="bg-gray-800/50 rounded-xl p-4 text-center">
+          <Hourglass className="w-6 h-6 mx-auto mb-2 text-pink-400" />
+          <div className="text-2xl font-bold">
+            {Math.floor(summaryStats.timeUnderTension / 60)}:
+            {(summaryStats.timeUnderTension % 60).toString().padStart(2, '0')}
+          </div>
+          <div className="text-xs text-gray-400">Under Tension</div>
+        </div>
       </div>
 
-      {filteredHistory.length === 0 ? (
+      {loadError ? (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-8 text-center">
+          <p className="text-red-300">{loadError}</p>
+        </div>
+      ) : rangeHistory === null ? (
+        <div className="bg-gray-800/50 rounded-xl p-8 text-center">
+          <Activity className="w-12 h-12 mx-auto mb-4 text-gray-600 animate-pulse" />
+          <p className="text-gray-400">Loading workout history...</p>
+        </div>
+      ) : filteredHistory.length === 0 ? (
         <div className="bg-gray-800/50 rounded-xl p-8 text-center">
           <Activity className="w-12 h-12 mx-auto mb-4 text-gray-600" />
           <p className="text-gray-400">No workout data for the selected filters</p>
@@ -324,10 +434,84 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                   fillOpacity={0.3}
                   name="Valid Reps"
                 />
+                {trendsData.some((day) => day.partialReps > 0) && (
+                  <Area
+                    type="monotone"
+                    dataKey="partialReps"
+                    stroke="#F59E0B"
+                    fill="#F59E0B"
+                    fillOpacity={0.3}
+                    name="Partial Reps"
+                  />
+                )}
               </AreaChart>
             </ResponsiveContainer>
           </div>
 
+          {/* Time Under Tension */}
+          {trendsData.some((day) => day.timeUnderTension > 0) && (
+            <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+              <h3 className="font-semibold mb-4">Time Under Tension</h3>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={trendsData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="date" stroke="#9CA3AF" fontSize={12} />
+                  <YAxis stroke="#9CA3AF" fontSize={12} unit="s" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1F2937',
+                      border: 'none',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <Bar
+                    dataKey="timeUnderTension"
+                    fill="#EC4899"
+                    name="Seconds Under Tension"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Left / Right Balance */}
+          {sideBalanceData.length > 0 && (
+            <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold">Left / Right Balance</h3>
+                <span
+                  className={`text-sm ${
+                    avgSideImbalance >= IMBALANCE_WARNING_PERCENT ? 'text-yellow-400' : 'text-green-400'
+                  }`}
+                >
+                  Avg imbalance {avgSideImbalance}%
+                </span>
+              </div>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={sideBalanceData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="date" stroke="#9CA3AF" fontSize={12} />
+                  <YAxis stroke="#9CA3AF" fontSize={12} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1F2937',
+                      border: 'none',
+                      borderRadius: '8px',
+                    }}
+                    labelFormatter={(label, payload) => {
+                      const entry = payload?.[0]?.payload;
+                      return entry ? `${label} - ${entry.exercise} (${entry.imbalance}% imbalance)` : label;
+                    }}
+                  />
+                  <Legend />
+                  <Bar dataKey="left" fill="#8B5CF6" name="Left Valid Reps" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="right" fill="#06B6D4" name="Right Valid Reps" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
           {/* Form Score & ROM Progress */}
           <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
             <h3 className="font-semibold mb-4">Form Score & Range of Motion Progress</h3>
@@ -443,19 +627,30 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                   {filteredHistory
                     .slice()
                     .reverse()
-                    .slice(0, 10)
+                    .slice(0, visibleWorkouts)
                     .map((session) => (
                       <tr key={session.id} className="border-b border-gray-700/50">
                         <td className="py-2 px-2">
                           {format(new Date(session.date), 'MMM d, yyyy')}
                         </td>
                         <td className="py-2 px-2">
-                          {exercises[session.exercise].name}
+                          {getExerciseName(session.exercise)}
                         </td>
                         <td className="py-2 px-2 text-center">{session.sets.length}</td>
                         <td className="py-2 px-2 text-center">
-                          <span className="text-green-400">{session.totalValidReps}</span>
-                          <span className="text-gray-500">/{session.totalReps}</span>
+                          {session.totalHoldTime !== undefined ? (
+                            <span className="text-green-400">
+                              {Math.round(session.totalHoldTime / 1000)}s held
+                            </span>
+                          ) : (
+                            <>
+                              <span className="text-green-400">{session.totalValidReps}</span>
+                              <span className="text-gray-500">/{session.totalReps}</span>
+                              {!!session.totalPartialReps && (
+                                <span className="text-yellow-400" title="Partial reps"> +{session.totalPartialReps}</span>
+                              )}
+                            </>
+                          )}
                         </td>
                         <td className="py-2 px-2 text-center">
                           <span
@@ -471,16 +666,28 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                           </span>
                         </td>
                         <td className="py-2 px-2 text-center">
-                          {Math.round(session.averageROM)}%
+                          {session.totalHoldTime !== undefined ? '-' : `${Math.round(session.averageROM)}%`}
                         </td>
                       </tr>
                     ))}
                 </tbody>
               </table>
             </div>
+            {filteredHistory.length > visibleWorkouts && (
+              <button
+                onClick={() => setVisibleWorkouts((count) => count + RECENT_WORKOUTS_PAGE_SIZE)}
+                className="w-full mt-3 py-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                Show more ({filteredHistory.length - visibleWorkouts} older)
+              </button>
+            )}
           </div>
         </>
       )}
+
+      <PersonalRecordsPanel exercise={selectedExercise} historyRevision={historyRevision} />
+
+      <BackupRestore onRestored={() => setHistoryRevision((revision) => revision + 1)} />
     </div>
   );
 };
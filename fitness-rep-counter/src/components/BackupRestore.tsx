@@ -0,0 +1,187 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Upload, DatabaseBackup, GitMerge, Replace } from 'lucide-react';
+import {
+  BackupBundle,
+  RestoreMode,
+  RestoreReport,
+  exportBackup,
+  parseBackup,
+  restoreBackup,
+} from '../services/backup';
+
+interface BackupRestoreProps {
+  onRestored: () => void;
+}
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ onRestored }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Backup read from a file, waiting for the user to pick merge or replace
+  const [pendingBackup, setPendingBackup] = useState<BackupBundle | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const handleExport = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    setReport(null);
+    try {
+      const { location, sessionCount } = await exportBackup();
+      setMessage(`Backed up ${sessionCount} workouts to ${location}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+      console.error(err);
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setReport(null);
+    try {
+      setPendingBackup(await parseBackup(await file.text()));
+      setError(null);
+    } catch (err) {
+      setPendingBackup(null);
+      setError(err instanceof Error ? err.message : 'Failed to read backup');
+      console.error(err);
+    }
+  }, []);
+
+  const handleRestore = useCallback(async (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+
+    setIsBusy(true);
+    try {
+      setReport(await restoreBackup(pendingBackup, mode));
+      setPendingBackup(null);
+      setError(null);
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+      console.error(err);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [pendingBackup, onRestored]);
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+      <h3 className="font-semibold mb-4 flex items-center">
+        <DatabaseBackup className="w-5 h-5 mr-2 text-blue-400" />
+        Backup & Restore
+      </h3>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="py-3 bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="inline-block w-5 h-5 mr-2" />
+          Export Backup
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="py-3 bg-gray-700 rounded-xl hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload className="inline-block w-5 h-5 mr-2" />
+          Restore Backup
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+      </div>
+
+      {pendingBackup && (
+        <div className="mt-4 p-4 rounded-lg bg-gray-900/50 border border-gray-700">
+          <p className="text-sm text-gray-300 mb-1">
+            Backup from {format(new Date(pendingBackup.exportedAt), 'MMM d, yyyy HH:mm')} with{' '}
+            {pendingBackup.data.sessions.length} workouts.
+          </p>
+          <p className="text-xs text-gray-500 mb-3">
+            Merge adds new workouts and keeps this device's copy when they differ. Replace uses
+            the backup's copy and restores its settings. Neither removes workouts.
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => handleRestore('merge')}
+              disabled={isBusy}
+              className="py-2 bg-green-600 rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+            >
+              <GitMerge className="inline-block w-4 h-4 mr-1" />
+              Merge
+            </button>
+            <button
+              onClick={() => handleRestore('replace')}
+              disabled={isBusy}
+              className="py-2 bg-orange-600 rounded-lg hover:bg-orange-700 transition-colors text-sm disabled:opacity-50"
+            >
+              <Replace className="inline-block w-4 h-4 mr-1" />
+              Replace
+            </button>
+            <button
+              onClick={() => setPendingBackup(null)}
+              disabled={isBusy}
+              className="py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors text-sm disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4 p-4 rounded-lg bg-green-500/10 border border-green-500/50 text-sm">
+          <p className="font-semibold text-green-400 mb-2">
+            Restore complete ({report.mode === 'merge' ? 'merged' : 'replaced'})
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center">
+            <div>
+              <div className="text-lg font-bold">{report.added.length}</div>
+              <div className="text-xs text-gray-400">Added</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold">{report.replaced.length}</div>
+              <div className="text-xs text-gray-400">Replaced</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold">{report.conflicts.length}</div>
+              <div className="text-xs text-gray-400">Kept Local</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold">{report.unchanged.length}</div>
+              <div className="text-xs text-gray-400">Unchanged</div>
+            </div>
+          </div>
+          {report.conflicts.length > 0 && (
+            <p className="text-xs text-yellow-400 mt-3">
+              {report.conflicts.length} workouts differ from the backup and were left as they are
+              on this device. Restore again with Replace to use the backup's copies.
+            </p>
+          )}
+          {report.settingsRestored && (
+            <p className="text-xs text-gray-400 mt-2">Settings were restored from the backup.</p>
+          )}
+        </div>
+      )}
+
+      {message && <p className="text-sm text-green-400 mt-3 break-all">{message}</p>}
+      {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -0,0 +1,320 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  CalibrationRep,
+  ExerciseCalibration,
+  ExerciseType,
+  KeypointFilterType,
+  PoseModelType,
+} from '../types';
+import { getExerciseDefinition } from '../data/exercises';
+import { useCamera, ZoomLevel } from '../hooks/useCamera';
+import { usePoseDetection } from '../hooks/usePoseDetection';
+import { exerciseDetectionService } from '../services/exerciseDetection';
+import { speechService } from '../services/speechService';
+import {
+  CALIBRATION_REPS,
+  deriveCalibration,
+  getCalibrationReps,
+  MIN_CALIBRATION_REPS,
+} from '../utils/calibration';
+import CameraView from './CameraView';
+import { ArrowLeft, Check, Play, Ruler, RotateCcw } from 'lucide-react';
+
+type CalibrationStep = 'position' | 'recording' | 'review';
+
+// The last rep is only over once its return has stopped moving
+const REP_SETTLE_MS = 1000;
+
+interface CalibrationWizardProps {
+  exercise: ExerciseType;
+  calibration?: ExerciseCalibration; // Replaced when the new one is saved
+  initialZoomLevel?: ZoomLevel;
+  poseModel?: PoseModelType;
+  keypointFilter?: KeypointFilterType;
+  onSave: (calibration: ExerciseCalibration) => void;
+  onCancel: () => void;
+  onZoomChange?: (level: ZoomLevel) => void;
+}
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  exercise,
+  calibration,
+  initialZoomLevel = 1,
+  poseModel,
+  keypointFilter,
+  onSave,
+  onCancel,
+  onZoomChange,
+}) => {
+  const [step, setStep] = useState<CalibrationStep>('position');
+  const [reps, setReps] = useState<CalibrationRep[]>([]);
+  const [currentAngle, setCurrentAngle] = useState<number | null>(null);
+  // Primary angle of every frame recorded so far, the reps split from
+  // them and when those last changed
+  const anglesRef = useRef<number[]>([]);
+  const repsRef = useRef<CalibrationRep[]>([]);
+  const repsChangedAtRef = useRef(0);
+
+  const exerciseData = getExerciseDefinition(exercise);
+  const { thresholds } = exerciseData;
+  const result = useMemo(() => deriveCalibration(exercise, reps), [exercise, reps]);
+
+  const {
+    videoRef,
+    canvasRef,
+    isReady: isCameraReady,
+    error: cameraError,
+    startCamera,
+    switchCamera,
+    facingMode,
+    zoomLevel,
+    zoomCapabilities,
+    setZoomLevel,
+  } = useCamera({ facingMode: 'user' });
+
+  useEffect(() => {
+    if (isCameraReady && initialZoomLevel !== 1) {
+      setZoomLevel(initialZoomLevel);
+    }
+  }, [isCameraReady, initialZoomLevel, setZoomLevel]);
+
+  const handleZoomChange = useCallback((level: ZoomLevel) => {
+    setZoomLevel(level);
+    onZoomChange?.(level);
+  }, [setZoomLevel, onZoomChange]);
+
+  // Split the trajectory into reps as it grows, and finish once the
+  // target reps are in and the last one has settled
+  const handleAngleUpdate = useCallback((angle: number | null, timestamp: number) => {
+    setCurrentAngle(angle !== null ? Math.round(angle) : null);
+    if (angle === null) return;
+
+    anglesRef.current.push(angle);
+    const measured = getCalibrationReps(exercise, anglesRef.current);
+    const last = measured[measured.length - 1];
+    const previous = repsRef.current[repsRef.current.length - 1];
+
+    if (
+      measured.length !== repsRef.current.length ||
+      (last && (last.upAngle !== previous.upAngle || last.downAngle !== previous.downAngle))
+    ) {
+      if (measured.length > repsRef.current.length) {
+        speechService.announceRep(measured.length);
+      }
+      repsRef.current = measured;
+      repsChangedAtRef.current = timestamp;
+      setReps(measured);
+    } else if (measured.length >= CALIBRATION_REPS && timestamp - repsChangedAtRef.current >= REP_SETTLE_MS) {
+      setStep('review');
+    }
+  }, [exercise]);
+
+  // Frames only reach the detector while recording - its reps are
+  // ignored, the wizard reads the primary angle it measured
+  const {
+    isInitialized: isPoseReady,
+    error: poseError,
+    initialize: initializePose,
+    startDetection,
+    stopDetection,
+    resetCounter,
+  } = usePoseDetection({
+    videoRef,
+    canvasRef,
+    exercise,
+    model: poseModel,
+    keypointFilter,
+    isActive: step === 'recording',
+    onAngleUpdate: handleAngleUpdate,
+  });
+
+  useEffect(() => {
+    if (isCameraReady && !isPoseReady) {
+      initializePose();
+    }
+  }, [isCameraReady, isPoseReady, initializePose]);
+
+  useEffect(() => {
+    if (isCameraReady && isPoseReady) {
+      startDetection();
+    }
+    return () => stopDetection();
+  }, [isCameraReady, isPoseReady, startDetection, stopDetection]);
+
+  useEffect(() => {
+    speechService.initialize();
+  }, []);
+
+  const startRecording = useCallback(() => {
+    anglesRef.current = [];
+    repsRef.current = [];
+    repsChangedAtRef.current = exerciseDetectionService.now();
+    resetCounter();
+    setReps([]);
+    setCurrentAngle(null);
+    setStep('recording');
+  }, [resetCounter]);
+
+  const handleSave = useCallback(() => {
+    if (result) onSave(result);
+  }, [result, onSave]);
+
+  const formatAngle = (angle: number) => `${Math.round(angle)}°`;
+
+  return (
+    <div className="calibration-wizard">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Back
+        </button>
+        <h2 className="text-xl font-bold">Calibrate {exerciseData.name}</h2>
+        <div className="w-20" /> {/* Spacer for centering */}
+      </div>
+
+      <CameraView
+        videoRef={videoRef}
+        canvasRef={canvasRef}
+        isReady={isCameraReady}
+        error={cameraError || poseError}
+        onStart={startCamera}
+        onSwitch={switchCamera}
+        facingMode={facingMode}
+        zoomLevel={zoomLevel}
+        onZoomChange={handleZoomChange}
+        supportsHardwareZoom={zoomCapabilities.supportsHardwareZoom}
+      />
+
+      {step === 'position' && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mt-4">
+          <h3 className="font-semibold mb-2 flex items-center">
+            <Ruler className="w-5 h-5 mr-2 text-blue-400" />
+            Measure your range of motion
+          </h3>
+          <p className="text-sm text-gray-400 mb-2">
+            Set the camera up as you would for a workout, then do {CALIBRATION_REPS} slow, full reps
+            to your own comfortable depth. Your rep counting thresholds are set from the angles you reach.
+          </p>
+          {exerciseData.setupCheck && (
+            <p className="text-sm text-yellow-400 mb-2">{exerciseData.setupCheck.message}</p>
+          )}
+          {calibration && (
+            <p className="text-xs text-gray-500 mb-2">
+              Current calibration: up {formatAngle(calibration.thresholds.upAngle)}, down{' '}
+              {formatAngle(calibration.thresholds.downAngle)} - saving replaces it.
+            </p>
+          )}
+          <button
+            onClick={startRecording}
+            disabled={!isCameraReady || !isPoseReady}
+            className="w-full py-3 mt-2 rounded-lg font-bold bg-blue-600 hover:bg-blue-700 transition-colors disabled:bg-gray-700 disabled:cursor-not-allowed"
+          >
+            <Play className="w-5 h-5 inline mr-2" />
+            {isCameraReady && isPoseReady ? 'Start Calibration' : 'Loading Camera & AI...'}
+          </button>
+        </div>
+      )}
+
+      {step === 'recording' && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mt-4">
+          <div className="grid grid-cols-2 gap-4 text-center mb-4">
+            <div>
+              <div className="text-3xl font-bold text-white">
+                {reps.length} / {CALIBRATION_REPS}
+              </div>
+              <div className="text-xs text-gray-400">Slow Reps</div>
+            </div>
+            <div>
+              <div className="text-3xl font-bold text-yellow-400">
+                {currentAngle !== null ? `${currentAngle}°` : '--'}
+              </div>
+              <div className="text-xs text-gray-400">Current Angle</div>
+            </div>
+          </div>
+          <p className="text-sm text-gray-400 text-center mb-4">
+            Move slowly and pause briefly at the top and bottom of each rep.
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setStep('position')}
+              className="flex-1 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => setStep('review')}
+              disabled={reps.length < MIN_CALIBRATION_REPS}
+              className="flex-1 py-3 rounded-lg font-bold bg-blue-600 hover:bg-blue-700 transition-colors disabled:bg-gray-700 disabled:cursor-not-allowed"
+            >
+              Finish
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mt-4">
+          <h3 className="font-semibold mb-3">Measured Reps</h3>
+          <div className="space-y-1 text-sm mb-4">
+            {reps.map((rep, index) => (
+              <div key={index} className="flex justify-between border-b border-gray-700/50 py-1">
+                <span className="text-gray-400">Rep {index + 1}</span>
+                <span>
+                  Up {formatAngle(rep.upAngle)} • Down {formatAngle(rep.downAngle)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {result ? (
+            <>
+              <h3 className="font-semibold mb-3">Your Thresholds</h3>
+              <div className="grid grid-cols-3 gap-4 text-center mb-4">
+                <div>
+                  <div className="text-2xl font-bold text-green-400">{formatAngle(result.thresholds.upAngle)}</div>
+                  <div className="text-xs text-gray-400">Up (default {formatAngle(thresholds.upAngle)})</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-blue-400">{formatAngle(result.thresholds.downAngle)}</div>
+                  <div className="text-xs text-gray-400">Down (default {formatAngle(thresholds.downAngle)})</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-yellow-400">{result.thresholds.minROM}%</div>
+                  <div className="text-xs text-gray-400">Min ROM (default {thresholds.minROM}%)</div>
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-red-400 mb-4">
+              At least {MIN_CALIBRATION_REPS} full reps are needed - check that your whole body is in view and try again.
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={startRecording}
+              className="flex-1 py-3 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              <RotateCcw className="w-5 h-5 inline mr-2" />
+              Redo
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!result}
+              className="flex-1 py-3 rounded-lg font-bold bg-green-600 hover:bg-green-700 transition-colors disabled:bg-gray-700 disabled:cursor-not-allowed"
+            >
+              <Check className="w-5 h-5 inline mr-2" />
+              Save Calibration
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { Camera, CameraOff, RotateCcw, Volume2, VolumeX, ZoomIn, ZoomOut } from 'lucide-react';
 import type { ZoomLevel } from '../hooks/useCamera';
+import { formatClock } from '../utils/intervals';
 
 const ZOOM_LEVELS: ZoomLevel[] = [1, 1.5, 2, 2.5, 3];
 
@@ -15,8 +16,11 @@ interface CameraViewProps {
   showOverlay?: boolean;
   repCount?: number;
   targetReps?: number;
+  counterUnit?: string; // Suffix for the counter, e.g. 's' for timed holds
   setNumber?: number;
   totalSets?: number;
+  setLabel?: string; // What a set is called, e.g. 'Round' for Tabata
+  timeRemaining?: number; // Seconds left in a timed set
   formScore?: number;
   currentPhase?: string;
   isSpeechEnabled?: boolean;
@@ -37,8 +41,11 @@ const CameraView: React.FC<CameraViewProps> = ({
   showOverlay = false,
   repCount = 0,
   targetReps = 0,
+  counterUnit = '',
   setNumber = 1,
   totalSets = 1,
+  setLabel = 'Set',
+  timeRemaining,
   formScore = 0,
   currentPhase = '',
   isSpeechEnabled = true,
@@ -128,11 +135,18 @@ const CameraView: React.FC<CameraViewProps> = ({
           <div className="absolute top-4 left-1/2 transform -translate-x-1/2 text-center">
             <div className="bg-black/70 backdrop-blur-sm rounded-2xl px-8 py-4">
               <div className="text-6xl font-bold tracking-wider">
-                <span className="text-white">{repCount}</span>
-                <span className="text-gray-500 text-4xl"> / {targetReps}</span>
+                <span className="text-white">{repCount}{counterUnit}</span>
+                {targetReps > 0 && (
+                  <span className="text-gray-500 text-4xl"> / {targetReps}{counterUnit}</span>
+                )}
               </div>
+              {timeRemaining !== undefined && (
+                <div className={`text-3xl font-bold mt-1 ${timeRemaining <= 3 ? 'text-red-400' : 'text-yellow-300'}`}>
+                  {formatClock(timeRemaining)}
+                </div>
+              )}
               <div className="text-sm text-gray-400 mt-1">
-                Set {setNumber} of {totalSets}
+                {setLabel} {setNumber} of {totalSets}
               </div>
             </div>
           </div>
@@ -1,6 +1,22 @@
 import React, { useState } from 'react';
-import { ExerciseType } from '../types';
-import { exercises, getExerciseList } from '../data/exercises';
+import {
+  ExerciseCalibration,
+  ExerciseType,
+  KeypointFilterType,
+  PoseModelType,
+  UnilateralMode,
+  WorkoutBlock,
+  WorkoutFormat,
+  WorkoutStructure,
+} from '../types';
+import {
+  getExercise,
+  getExerciseDefinition,
+  getExerciseList,
+  getExerciseName,
+  isHoldExercise,
+  isUnilateralExercise,
+} from '../data/exercises';
 import { 
   Dumbbell, 
   Target, 
@@ -9,44 +25,232 @@ import {
   Zap,
   Camera,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Cpu,
+  Gauge,
+  ArrowLeftRight,
+  ListOrdered,
+  Plus,
+  AlarmClock,
+  ArrowUp,
+  ArrowDown,
+  TrendingDown,
+  Waves,
+  Ruler,
+  X
 } from 'lucide-react';
 import CameraPreview from './CameraPreview';
 import type { ZoomLevel } from '../hooks/useCamera';
+import { POSE_MODELS } from '../services/poseModel';
+import { KEYPOINT_FILTERS } from '../services/keypointFilter';
+import { parseTempo } from '../utils/tempo';
+import { VELOCITY_LOSS_LIMITS } from '../utils/fatigue';
+import { isCalibratable } from '../utils/calibration';
+import { buildWorkoutPlan, WORKOUT_STRUCTURE_LABELS } from '../utils/workoutPlan';
+import {
+  EMOM_INTERVAL_SECONDS,
+  getWorkoutFormat,
+  isIntervalFormat,
+  TABATA_REST_SECONDS,
+  TABATA_ROUNDS,
+  TABATA_WORK_SECONDS,
+  WORKOUT_FORMAT_LABELS,
+} from '../utils/intervals';
 
 interface ExerciseSelectorProps {
   selectedExercise: ExerciseType;
   sets: number;
   reps: number;
   restPeriod: number;
+  targetTempo?: string;
+  velocityLossLimit?: number; // %, unset for no cue
+  targetHoldTime: number;
+  unilateralMode: UnilateralMode;
+  blocks: WorkoutBlock[];
+  structure: WorkoutStructure;
+  format: WorkoutFormat;
+  timeCap: number; // seconds, AMRAP only
   zoomLevel: ZoomLevel;
+  poseModel: PoseModelType;
+  keypointFilter: KeypointFilterType;
+  calibration?: ExerciseCalibration; // Personal thresholds of the selected exercise
   onExerciseChange: (exercise: ExerciseType) => void;
   onSetsChange: (sets: number) => void;
   onRepsChange: (reps: number) => void;
   onRestPeriodChange: (seconds: number) => void;
+  onTargetTempoChange: (tempo: string | undefined) => void;
+  onVelocityLossLimitChange: (percent: number | undefined) => void;
+  onTargetHoldTimeChange: (seconds: number) => void;
+  onUnilateralModeChange: (mode: UnilateralMode) => void;
+  onBlocksChange: (blocks: WorkoutBlock[]) => void;
+  onStructureChange: (structure: WorkoutStructure) => void;
+  onFormatChange: (format: WorkoutFormat) => void;
+  onTimeCapChange: (seconds: number) => void;
   onZoomChange: (level: ZoomLevel) => void;
+  onPoseModelChange: (model: PoseModelType) => void;
+  onKeypointFilterChange: (filter: KeypointFilterType) => void;
+  onCalibrate: () => void;
+  onClearCalibration: () => void;
   onStartWorkout: () => void;
   isReady: boolean;
 }
 
+const STRUCTURE_HINTS: Record<WorkoutStructure, string> = {
+  straight: 'Every set of an exercise, then the next',
+  circuit: 'One set of each exercise per round',
+  superset: 'Alternate exercises in pairs',
+};
+
+// Rough working seconds per set - reps take about 3 seconds each, and
+// alternating unilateral sets work both sides
+const getSetSeconds = (block: WorkoutBlock, targetHoldTime: number): number => {
+  if (isHoldExercise(block.exercise)) return block.targetHoldTime ?? targetHoldTime;
+  const sides = isUnilateralExercise(block.exercise) && block.unilateralMode !== 'sameSide' ? 2 : 1;
+  return block.targetReps * sides * 3;
+};
+
+const describeBlock = (block: WorkoutBlock, targetHoldTime: number): string => {
+  const target = isHoldExercise(block.exercise)
+    ? `${block.targetHoldTime ?? targetHoldTime}s`
+    : `${block.targetReps}${isUnilateralExercise(block.exercise) ? '/side' : ''}`;
+  return `${block.sets} × ${target} • ${block.restPeriod}s rest`;
+};
+
+const FORMAT_HINTS: Record<WorkoutFormat, string> = {
+  sets: 'Fixed sets with rest',
+  emom: 'Reps at the top of every minute',
+  amrap: 'Most reps within a time cap',
+  tabata: `${TABATA_WORK_SECONDS}s on, ${TABATA_REST_SECONDS}s off × ${TABATA_ROUNDS}`,
+};
+
+const GRID_COLUMNS = ['grid-cols-1', 'grid-cols-1', 'grid-cols-2', 'grid-cols-3'];
+
 const ExerciseSelector: React.FC<ExerciseSelectorProps> = ({
   selectedExercise,
   sets,
   reps,
   restPeriod,
+  targetTempo,
+  velocityLossLimit,
+  targetHoldTime,
+  unilateralMode,
+  blocks,
+  structure,
+  format: selectedFormat,
+  timeCap,
   zoomLevel,
+  poseModel,
+  keypointFilter,
+  calibration,
   onExerciseChange,
   onSetsChange,
   onRepsChange,
   onRestPeriodChange,
+  onTargetTempoChange,
+  onVelocityLossLimitChange,
+  onTargetHoldTimeChange,
+  onUnilateralModeChange,
+  onBlocksChange,
+  onStructureChange,
+  onFormatChange,
+  onTimeCapChange,
   onZoomChange,
+  onPoseModelChange,
+  onKeypointFilterChange,
+  onCalibrate,
+  onClearCalibration,
   onStartWorkout,
   isReady,
 }) => {
   const [showCameraPreview, setShowCameraPreview] = useState(false);
   const [isCameraReady, setIsCameraReady] = useState(false);
   const exerciseList = getExerciseList();
-  const selected = exercises[selectedExercise];
+  const selected = getExercise(selectedExercise);
+  const { thresholds } = getExerciseDefinition(selectedExercise);
+  const isTempoValid = !targetTempo || parseTempo(targetTempo) !== null;
+  const isHold = isHoldExercise(selectedExercise);
+  const isUnilateral = isUnilateralExercise(selectedExercise);
+  // Alternating sets work both sides, so they hold twice the reps
+  const repsPerSet = isUnilateral && unilateralMode === 'alternating' ? reps * 2 : reps;
+  // Rough working seconds per set - reps take about 3 seconds each
+  const setSeconds = isHold ? targetHoldTime : repsPerSet * 3;
+  // Holds and multi-exercise workouts only run as sets
+  const format = getWorkoutFormat({
+    exercise: selectedExercise,
+    sets,
+    targetReps: reps,
+    restPeriod,
+    blocks,
+    format: selectedFormat,
+  });
+  const showSets = format === 'sets' || format === 'emom';
+  const showTarget = format === 'sets' || format === 'emom';
+  const configColumns = [showSets, format === 'amrap', showTarget, format === 'sets'].filter(Boolean).length;
+
+  // Single-exercise totals - interval formats fix their own clock
+  const singleSummary = ((): { total: string | number; totalLabel: string; workSeconds: number; minutes: number } => {
+    switch (format) {
+      case 'sets':
+        return {
+          total: isHold ? `${sets * targetHoldTime}s` : sets * repsPerSet,
+          totalLabel: isHold ? 'Total Hold' : 'Total Reps',
+          workSeconds: sets * setSeconds,
+          minutes: (sets * setSeconds + (sets - 1) * restPeriod) / 60,
+        };
+      case 'emom':
+        return {
+          total: sets * repsPerSet,
+          totalLabel: 'Total Reps',
+          workSeconds: sets * Math.min(setSeconds, EMOM_INTERVAL_SECONDS),
+          minutes: sets,
+        };
+      case 'amrap':
+        return { total: `${Math.round(timeCap / 60)}m`, totalLabel: 'Time Cap', workSeconds: timeCap, minutes: timeCap / 60 };
+      case 'tabata':
+        return {
+          total: TABATA_ROUNDS,
+          totalLabel: 'Rounds',
+          workSeconds: TABATA_ROUNDS * TABATA_WORK_SECONDS,
+          minutes: (TABATA_ROUNDS * (TABATA_WORK_SECONDS + TABATA_REST_SECONDS)) / 60,
+        };
+    }
+  })();
+
+  // Multi-exercise totals - rest comes from the plan since circuit and
+  // superset rounds move between exercises without resting
+  const plan = blocks.length > 0
+    ? buildWorkoutPlan({ exercise: selectedExercise, sets, targetReps: reps, restPeriod, blocks, structure })
+    : [];
+  const planSeconds = plan.reduce(
+    (sum, step, index) =>
+      sum +
+      getSetSeconds(blocks[step.blockIndex], targetHoldTime) +
+      (index < plan.length - 1 ? step.restAfter : 0),
+    0
+  );
+  const planWorkSeconds = plan.reduce((sum, step) => sum + getSetSeconds(blocks[step.blockIndex], targetHoldTime), 0);
+
+  // Add the exercise as configured above to the end of the workout
+  const handleAddBlock = () => {
+    onBlocksChange([
+      ...blocks,
+      {
+        exercise: selectedExercise,
+        sets,
+        targetReps: reps,
+        restPeriod,
+        targetHoldTime: isHold ? targetHoldTime : undefined,
+        targetTempo: isHold ? undefined : targetTempo,
+        unilateralMode: isUnilateral ? unilateralMode : undefined,
+      },
+    ]);
+  };
+
+  const handleMoveBlock = (index: number, offset: -1 | 1) => {
+    const reordered = [...blocks];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onBlocksChange(reordered);
+  };
 
   const difficultyColors = {
     beginner: 'bg-green-500',
@@ -118,74 +322,348 @@ const ExerciseSelector: React.FC<ExerciseSelectorProps> = ({
             ))}
           </ul>
         </div>
+
+        {isCalibratable(selectedExercise) && (
+          <div className="border-t border-gray-700 pt-3 mt-3">
+            <h4 className="font-medium mb-2 flex items-center">
+              <Ruler className="w-4 h-4 mr-2" />
+              Calibration
+            </h4>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-gray-400">
+                {calibration
+                  ? `Your thresholds: up ${calibration.thresholds.upAngle}°, down ${calibration.thresholds.downAngle}°, min ROM ${calibration.thresholds.minROM}%`
+                  : `Default thresholds: up ${thresholds.upAngle}°, down ${thresholds.downAngle}°. Calibrate to fit them to your range of motion.`}
+              </p>
+              <div className="flex gap-2 flex-shrink-0">
+                {calibration && (
+                  <button
+                    onClick={onClearCalibration}
+                    className="px-3 py-1 text-sm rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+                  >
+                    Reset
+                  </button>
+                )}
+                <button
+                  onClick={onCalibrate}
+                  className="px-3 py-1 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 transition-colors"
+                >
+                  {calibration ? 'Recalibrate' : 'Calibrate'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Workout Format - interval formats time every set */}
+      {!isHold && blocks.length === 0 && (
+        <div className="mb-6">
+          <label className="block text-sm font-medium mb-2">
+            <AlarmClock className="w-4 h-4 inline mr-1" />
+            Format
+          </label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {(Object.keys(WORKOUT_FORMAT_LABELS) as WorkoutFormat[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => onFormatChange(option)}
+                className={`p-3 rounded-lg border-2 text-left transition-all ${
+                  format === option
+                    ? 'border-blue-500 bg-blue-500/20'
+                    : 'border-gray-600 hover:border-gray-400 bg-gray-800/50'
+                }`}
+              >
+                <div className="font-medium">{WORKOUT_FORMAT_LABELS[option]}</div>
+                <div className="text-xs text-gray-400">{FORMAT_HINTS[option]}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Workout Configuration */}
-      <div className="grid grid-cols-3 gap-4 mb-6">
-        <div>
+      {configColumns > 0 && (
+        <div className={`grid ${GRID_COLUMNS[configColumns]} gap-4 mb-6`}>
+          {showSets && (
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                <Target className="w-4 h-4 inline mr-1" />
+                {format === 'emom' ? 'Minutes' : 'Sets'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={format === 'emom' ? 60 : 10}
+                value={sets}
+                onChange={(e) => onSetsChange(parseInt(e.target.value) || 1)}
+                className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+          )}
+
+          {format === 'amrap' && (
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                <AlarmClock className="w-4 h-4 inline mr-1" />
+                Time Cap (min)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={Math.round(timeCap / 60)}
+                onChange={(e) => onTimeCapChange((parseInt(e.target.value) || 1) * 60)}
+                className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+          )}
+
+          {showTarget && (isHold ? (
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                <Zap className="w-4 h-4 inline mr-1" />
+                Seconds
+              </label>
+              <input
+                type="number"
+                min={5}
+                max={600}
+                step={5}
+                value={targetHoldTime}
+                onChange={(e) => onTargetHoldTimeChange(parseInt(e.target.value) || 5)}
+                className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                <Zap className="w-4 h-4 inline mr-1" />
+                {isUnilateral ? 'Reps / Side' : format === 'emom' ? 'Reps / Min' : 'Reps'}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={reps}
+                onChange={(e) => onRepsChange(parseInt(e.target.value) || 1)}
+                className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+          ))}
+
+          {format === 'sets' && (
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                <Timer className="w-4 h-4 inline mr-1" />
+                Rest (sec)
+              </label>
+              <input
+                type="number"
+                min={10}
+                max={300}
+                step={5}
+                value={restPeriod}
+                onChange={(e) => onRestPeriodChange(parseInt(e.target.value) || 30)}
+                className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Unilateral Set Mode */}
+      {isUnilateral && (
+        <div className="mb-6">
           <label className="block text-sm font-medium mb-2">
-            <Target className="w-4 h-4 inline mr-1" />
-            Sets
+            <ArrowLeftRight className="w-4 h-4 inline mr-1" />
+            Sides
           </label>
-          <input
-            type="number"
-            min={1}
-            max={10}
-            value={sets}
-            onChange={(e) => onSetsChange(parseInt(e.target.value) || 1)}
-            className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
-          />
+          <div className="grid grid-cols-2 gap-3">
+            {([
+              ['alternating', 'Alternating', 'Both sides every set'],
+              ['sameSide', 'Same Side', 'One side per set, left first'],
+            ] as const).map(([mode, label, hint]) => (
+              <button
+                key={mode}
+                onClick={() => onUnilateralModeChange(mode)}
+                className={`p-3 rounded-lg border-2 text-left transition-all ${
+                  unilateralMode === mode
+                    ? 'border-blue-500 bg-blue-500/20'
+                    : 'border-gray-600 hover:border-gray-400 bg-gray-800/50'
+                }`}
+              >
+                <div className="font-medium">{label}</div>
+                <div className="text-xs text-gray-400">{hint}</div>
+              </button>
+            ))}
+          </div>
         </div>
-        
-        <div>
+      )}
+
+      {/* Target Tempo - holds have no reps to time */}
+      {!isHold && (
+        <div className="mb-6">
           <label className="block text-sm font-medium mb-2">
-            <Zap className="w-4 h-4 inline mr-1" />
-            Reps
+            <Gauge className="w-4 h-4 inline mr-1" />
+            Target Tempo (optional)
           </label>
           <input
-            type="number"
-            min={1}
-            max={100}
-            value={reps}
-            onChange={(e) => onRepsChange(parseInt(e.target.value) || 1)}
-            className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
+            type="text"
+            placeholder="e.g. 3-1-1-0"
+            value={targetTempo ?? ''}
+            onChange={(e) => onTargetTempoChange(e.target.value.trim() || undefined)}
+            className={`w-full p-3 bg-gray-800 border rounded-lg text-center font-bold focus:outline-none ${
+              isTempoValid ? 'border-gray-600 focus:border-blue-500' : 'border-red-500'
+            }`}
           />
+          <p className={`text-xs mt-1 ${isTempoValid ? 'text-gray-400' : 'text-red-400'}`}>
+            Seconds lowering, paused at the bottom, lifting, and paused at the top. Reps outside it are flagged.
+          </p>
         </div>
-        
-        <div>
+      )}
+
+      {/* Velocity Loss Cue - holds have no rep speed */}
+      {!isHold && (
+        <div className="mb-6">
           <label className="block text-sm font-medium mb-2">
-            <Timer className="w-4 h-4 inline mr-1" />
-            Rest (sec)
+            <TrendingDown className="w-4 h-4 inline mr-1" />
+            Velocity Loss Cue
           </label>
-          <input
-            type="number"
-            min={10}
-            max={300}
-            step={5}
-            value={restPeriod}
-            onChange={(e) => onRestPeriodChange(parseInt(e.target.value) || 30)}
-            className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-center text-xl font-bold focus:border-blue-500 focus:outline-none"
-          />
+          <div className="grid grid-cols-5 gap-2">
+            {[undefined, ...VELOCITY_LOSS_LIMITS].map((limit) => (
+              <button
+                key={limit ?? 'off'}
+                onClick={() => onVelocityLossLimitChange(limit)}
+                className={`p-2 rounded-lg border-2 font-medium transition-all ${
+                  velocityLossLimit === limit
+                    ? 'border-blue-500 bg-blue-500/20'
+                    : 'border-gray-600 hover:border-gray-400 bg-gray-800/50'
+                }`}
+              >
+                {limit === undefined ? 'Off' : `${limit}%`}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            Announces when your reps have slowed this much from the fastest at the start of the set - a cue to stop before form breaks down.
+          </p>
         </div>
-      </div>
+      )}
+
+      {/* Multi-Exercise Workout - interval formats time a single exercise */}
+      {!isIntervalFormat(format) && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-medium flex items-center">
+              <ListOrdered className="w-4 h-4 mr-2" />
+              Multi-Exercise Workout
+            </h4>
+            <button
+              onClick={handleAddBlock}
+              disabled={!isTempoValid}
+              className="px-3 py-1 bg-blue-600/30 rounded-full text-sm flex items-center hover:bg-blue-600/50 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add {selected.name}
+            </button>
+          </div>
+          {blocks.length === 0 ? (
+            <p className="text-xs text-gray-400">
+              Add exercises with their own sets, reps and rest to build a circuit or superset.
+              Without any, the workout is the exercise above.
+            </p>
+          ) : (
+            <>
+              <ol className="space-y-2 mb-3">
+                {blocks.map((block, index) => (
+                  <li key={index} className="flex items-center gap-2 bg-gray-900/50 rounded-lg p-2 text-sm">
+                    <span className="w-5 text-center text-gray-500">{index + 1}</span>
+                    <span className="flex-1 font-medium">{getExerciseName(block.exercise)}</span>
+                    <span className="text-xs text-gray-400">{describeBlock(block, targetHoldTime)}</span>
+                    <button
+                      onClick={() => handleMoveBlock(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMoveBlock(index, 1)}
+                      disabled={index === blocks.length - 1}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onBlocksChange(blocks.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      title="Remove"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              {blocks.length > 1 && (
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(WORKOUT_STRUCTURE_LABELS) as WorkoutStructure[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => onStructureChange(option)}
+                      className={`p-2 rounded-lg border-2 text-left transition-all ${
+                        structure === option
+                          ? 'border-blue-500 bg-blue-500/20'
+                          : 'border-gray-600 hover:border-gray-400 bg-gray-800/50'
+                      }`}
+                    >
+                      <div className="font-medium text-sm">{WORKOUT_STRUCTURE_LABELS[option]}</div>
+                      <div className="text-xs text-gray-400">{STRUCTURE_HINTS[option]}</div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
 
       {/* Workout Summary */}
       <div className="bg-gradient-to-r from-blue-600/20 to-purple-600/20 rounded-xl p-4 mb-6">
         <h4 className="font-medium mb-2">Workout Summary</h4>
-        <div className="grid grid-cols-3 gap-4 text-center">
-          <div>
-            <div className="text-2xl font-bold">{sets * reps}</div>
-            <div className="text-xs text-gray-400">Total Reps</div>
-          </div>
-          <div>
-            <div className="text-2xl font-bold">~{Math.round((sets * reps * 3 + (sets - 1) * restPeriod) / 60)}</div>
-            <div className="text-xs text-gray-400">Est. Minutes</div>
+        {blocks.length > 0 ? (
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold">{plan.length}</div>
+              <div className="text-xs text-gray-400">Total Sets</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">~{Math.round(planSeconds / 60)}</div>
+              <div className="text-xs text-gray-400">Est. Minutes</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">~{Math.round(planWorkSeconds * 0.1)}</div>
+              <div className="text-xs text-gray-400">Est. Calories</div>
+            </div>
           </div>
-          <div>
-            <div className="text-2xl font-bold">~{Math.round(sets * reps * 0.3)}</div>
-            <div className="text-xs text-gray-400">Est. Calories</div>
+        ) : (
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold">{singleSummary.total}</div>
+              <div className="text-xs text-gray-400">{singleSummary.totalLabel}</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">~{Math.round(singleSummary.minutes)}</div>
+              <div className="text-xs text-gray-400">Est. Minutes</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">~{Math.round(singleSummary.workSeconds * 0.1)}</div>
+              <div className="text-xs text-gray-400">Est. Calories</div>
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Camera Setup Section */}
@@ -221,6 +699,50 @@ const ExerciseSelector: React.FC<ExerciseSelectorProps> = ({
         )}
       </div>
 
+      {/* Pose Model Selection */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium mb-2">
+          <Cpu className="w-4 h-4 inline mr-1" />
+          Pose Model
+        </label>
+        <select
+          value={poseModel}
+          onChange={(e) => onPoseModelChange(e.target.value as PoseModelType)}
+          className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+        >
+          {Object.values(POSE_MODELS).map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">{POSE_MODELS[poseModel].description}</p>
+      </div>
+
+      {/* Keypoint Smoothing */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium mb-2">
+          <Waves className="w-4 h-4 inline mr-1" />
+          Keypoint Smoothing
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {Object.values(KEYPOINT_FILTERS).map((filter) => (
+            <button
+              key={filter.id}
+              onClick={() => onKeypointFilterChange(filter.id)}
+              className={`p-2 rounded-lg border-2 font-medium transition-all ${
+                keypointFilter === filter.id
+                  ? 'border-blue-500 bg-blue-500/20'
+                  : 'border-gray-600 hover:border-gray-400 bg-gray-800/50'
+              }`}
+            >
+              {filter.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-1">{KEYPOINT_FILTERS[keypointFilter].description}</p>
+      </div>
+
       {/* Start Button */}
       <button
         onClick={onStartWorkout}
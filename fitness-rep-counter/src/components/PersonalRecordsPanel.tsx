@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Medal } from 'lucide-react';
+import { ExerciseType, PersonalRecordType, WorkoutSession } from '../types';
+import { getExerciseName } from '../data/exercises';
+import { workoutRepository } from '../services/workoutRepository';
+import {
+  formatRecordValue,
+  getPersonalBests,
+  PERSONAL_RECORD_LABELS,
+  PR_MIN_REPS,
+} from '../utils/personalRecords';
+
+interface PersonalRecordsPanelProps {
+  exercise: ExerciseType | 'all';
+  historyRevision: number; // Bumped when history changes, to reload it
+}
+
+// Rows added to the record history per "Show more"
+const RECORD_HISTORY_PAGE_SIZE = 10;
+
+// Records are all-time, so this loads the whole history rather than the
+// dashboard's time range
+const PersonalRecordsPanel: React.FC<PersonalRecordsPanelProps> = ({ exercise, historyRevision }) => {
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [visibleRecords, setVisibleRecords] = useState(RECORD_HISTORY_PAGE_SIZE);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    workoutRepository
+      .getSessions()
+      .then((history) => {
+        if (!cancelled) setSessions(history);
+      })
+      .catch((err) => {
+        console.error('Failed to load personal records:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [historyRevision]);
+
+  const bests = useMemo(() => {
+    return Array.from(getPersonalBests(sessions))
+      .filter(([bestExercise]) => exercise === 'all' || bestExercise === exercise)
+      .sort(([a], [b]) => getExerciseName(a).localeCompare(getExerciseName(b)));
+  }, [sessions, exercise]);
+
+  // Records broken, newest first
+  const recordHistory = useMemo(() => {
+    return sessions
+      .flatMap((session) => session.personalRecords ?? [])
+      .filter((record) => exercise === 'all' || record.exercise === exercise)
+      .sort((a, b) => b.date - a.date);
+  }, [sessions, exercise]);
+
+  if (bests.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+      <h3 className="font-semibold mb-4 flex items-center">
+        <Medal className="w-5 h-5 mr-2 text-yellow-400" />
+        Personal Records
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+        {bests.map(([bestExercise, records]) => (
+          <div key={bestExercise} className="bg-gray-700/30 rounded-lg p-3">
+            <div className="font-medium mb-2">{getExerciseName(bestExercise)}</div>
+            <div className="space-y-1 text-sm">
+              {(Object.keys(PERSONAL_RECORD_LABELS) as PersonalRecordType[])
+                .flatMap((type) => records[type] ?? [])
+                .map((record) => (
+                  <div key={record.type} className="flex justify-between">
+                    <span className="text-gray-400">{PERSONAL_RECORD_LABELS[record.type]}</span>
+                    <span>
+                      <span className="font-medium">{formatRecordValue(record.type, record.value)}</span>
+                      <span className="text-xs text-gray-500 ml-2">
+                        {format(new Date(record.date), 'MMM d')}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Form score and range of motion records need at least {PR_MIN_REPS} reps in the workout.
+      </p>
+
+      <h4 className="text-sm font-medium text-gray-400 mb-2">Record History</h4>
+      {recordHistory.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          No records broken yet - your first workout of each exercise sets the bar.
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-1 text-sm">
+            {recordHistory.slice(0, visibleRecords).map((record) => (
+              <li
+                key={`${record.sessionId}-${record.exercise}-${record.type}`}
+                className="flex justify-between border-b border-gray-700/50 py-1"
+              >
+                <span>
+                  <span className="text-gray-500 mr-2">{format(new Date(record.date), 'MMM d, yyyy')}</span>
+                  {getExerciseName(record.exercise)} • {PERSONAL_RECORD_LABELS[record.type]}
+                </span>
+                <span className="font-medium text-yellow-400">
+                  {formatRecordValue(record.type, record.value)}
+                  {record.previous !== undefined && (
+                    <span className="text-gray-500 font-normal">
+                      {' '}← {formatRecordValue(record.type, record.previous)}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {recordHistory.length > visibleRecords && (
+            <button
+              onClick={() => setVisibleRecords((count) => count + RECORD_HISTORY_PAGE_SIZE)}
+              className="w-full mt-3 py-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Show more ({recordHistory.length - visibleRecords} older)
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PersonalRecordsPanel;
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { CalendarRange, Plus, Trash2, X } from 'lucide-react';
+import {
+  ProgramScheduleEntry,
+  ProgressionCondition,
+  ProgressionRule,
+  ProgressionRuleType,
+  TrainingProgram,
+  WorkoutTemplate,
+} from '../types';
+import {
+  DAY_LABELS,
+  DEFAULT_PROGRAM_WEEKS,
+  PROGRESSION_CONDITION_LABELS,
+  PROGRESSION_RULE_LABELS,
+} from '../utils/programs';
+
+interface ProgramPlannerProps {
+  programs: TrainingProgram[];
+  templates: WorkoutTemplate[];
+  onSave: (program: TrainingProgram) => void;
+  onDelete: (id: string) => void;
+}
+
+// Add a rep to every set each week, as long as the last week was clean
+const DEFAULT_RULE: ProgressionRule = { type: 'addReps', amount: 1, condition: 'allRepsValid' };
+
+const describeRule = (rule: ProgressionRule): string => {
+  return `+${rule.amount} ${PROGRESSION_RULE_LABELS[rule.type].toLowerCase()} • ${PROGRESSION_CONDITION_LABELS[rule.condition].toLowerCase()}`;
+};
+
+const ProgramPlanner: React.FC<ProgramPlannerProps> = ({ programs, templates, onSave, onDelete }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [weeks, setWeeks] = useState(DEFAULT_PROGRAM_WEEKS);
+  // Template per day of the week - empty for rest days
+  const [days, setDays] = useState<string[]>(() => DAY_LABELS.map(() => ''));
+  const [progression, setProgression] = useState<ProgressionRule[]>([DEFAULT_RULE]);
+
+  const getTemplateName = (id: string) => templates.find((t) => t.id === id)?.name ?? 'Deleted template';
+
+  const schedule: ProgramScheduleEntry[] = days.flatMap((templateId, dayOfWeek) =>
+    templateId ? [{ dayOfWeek, templateId }] : []
+  );
+
+  const updateRule = (index: number, changes: Partial<ProgressionRule>) => {
+    setProgression(progression.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setStartDate(format(new Date(), 'yyyy-MM-dd'));
+    setWeeks(DEFAULT_PROGRAM_WEEKS);
+    setDays(DAY_LABELS.map(() => ''));
+    setProgression([DEFAULT_RULE]);
+  };
+
+  const handleSave = () => {
+    onSave({
+      id: Date.now().toString(),
+      name: name.trim(),
+      startDate: startOfDay(parseISO(startDate)).getTime(),
+      weeks,
+      schedule,
+      progression,
+    });
+    resetForm();
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <CalendarRange className="w-5 h-5 mr-2 text-purple-400" />
+          Training Programs
+        </h3>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            disabled={templates.length === 0}
+            className="px-3 py-1 bg-purple-600/30 rounded-full text-sm flex items-center hover:bg-purple-600/50 transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New Program
+          </button>
+        )}
+      </div>
+
+      {programs.length === 0 && !isCreating && (
+        <p className="text-xs text-gray-400">
+          {templates.length === 0
+            ? 'Save a workout template first, then schedule it on days of the week.'
+            : 'Schedule templates on days of the week for a number of weeks, with targets that grow as you go.'}
+        </p>
+      )}
+
+      {programs.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {programs.map((program) => (
+            <li key={program.id} className="flex items-start gap-2 bg-gray-900/50 rounded-lg p-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">{program.name}</div>
+                <div className="text-xs text-gray-400">
+                  {program.weeks} weeks from {format(new Date(program.startDate), 'MMM d, yyyy')}
+                </div>
+                <div className="text-xs text-gray-300">
+                  {program.schedule
+                    .map((entry) => `${DAY_LABELS[entry.dayOfWeek]}: ${getTemplateName(entry.templateId)}`)
+                    .join(' • ')}
+                </div>
+                {program.progression.length > 0 && (
+                  <div className="text-xs text-gray-500">{program.progression.map(describeRule).join(' • ')}</div>
+                )}
+              </div>
+              <button
+                onClick={() => onDelete(program.id)}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isCreating && (
+        <div className="p-3 rounded-lg bg-gray-900/50 border border-gray-700 space-y-4">
+          <input
+            type="text"
+            placeholder="Program name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full p-2 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+          />
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm">
+              <span className="block text-gray-400 mb-1">Starts</span>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => e.target.value && setStartDate(e.target.value)}
+                className="w-full p-2 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+            </label>
+            <label className="text-sm">
+              <span className="block text-gray-400 mb-1">Weeks</span>
+              <input
+                type="number"
+                min={1}
+                max={52}
+                value={weeks}
+                onChange={(e) => setWeeks(parseInt(e.target.value) || 1)}
+                className="w-full p-2 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+            </label>
+          </div>
+
+          <div>
+            <div className="text-sm text-gray-400 mb-1">Schedule</div>
+            <div className="space-y-1">
+              {DAY_LABELS.map((day, dayOfWeek) => (
+                <div key={day} className="flex items-center gap-2 text-sm">
+                  <span className="w-10 text-gray-400">{day}</span>
+                  <select
+                    value={days[dayOfWeek]}
+                    onChange={(e) => setDays(days.map((id, i) => (i === dayOfWeek ? e.target.value : id)))}
+                    className="flex-1 p-1 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="">Rest</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm text-gray-400">Weekly Progression</span>
+              <button
+                onClick={() => setProgression([...progression, DEFAULT_RULE])}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                <Plus className="inline-block w-3 h-3" /> Add rule
+              </button>
+            </div>
+            <div className="space-y-1">
+              {progression.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-400">+</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={rule.type === 'addHoldTime' ? 60 : 10}
+                    value={rule.amount}
+                    onChange={(e) => updateRule(index, { amount: parseInt(e.target.value) || 1 })}
+                    className="w-14 p-1 bg-gray-800 border border-gray-600 rounded-lg text-center focus:border-blue-500 focus:outline-none"
+                  />
+                  <select
+                    value={rule.type}
+                    onChange={(e) => updateRule(index, { type: e.target.value as ProgressionRuleType })}
+                    className="flex-1 p-1 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+                  >
+                    {(Object.keys(PROGRESSION_RULE_LABELS) as ProgressionRuleType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {PROGRESSION_RULE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.condition}
+                    onChange={(e) => updateRule(index, { condition: e.target.value as ProgressionCondition })}
+                    className="flex-1 p-1 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+                  >
+                    {(Object.keys(PROGRESSION_CONDITION_LABELS) as ProgressionCondition[]).map((condition) => (
+                      <option key={condition} value={condition}>
+                        {PROGRESSION_CONDITION_LABELS[condition]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setProgression(progression.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Remove"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              A clean week is one where every rep of the workout was valid (or every hold unbroken).
+              Missed or broken weeks repeat the same targets.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || schedule.length === 0}
+              className="py-2 bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
+            >
+              Save Program
+            </button>
+            <button
+              onClick={resetForm}
+              className="py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgramPlanner;
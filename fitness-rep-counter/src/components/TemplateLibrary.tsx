@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, FolderOpen, Trash2 } from 'lucide-react';
+import { WorkoutTemplate } from '../types';
+import { describeWorkout } from '../utils/programs';
+
+interface TemplateLibraryProps {
+  templates: WorkoutTemplate[];
+  onSave: (name: string) => void;
+  onLoad: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ templates, onSave, onLoad, onDelete }) => {
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+      <h3 className="font-semibold mb-3 flex items-center">
+        <FolderOpen className="w-5 h-5 mr-2 text-blue-400" />
+        Workout Templates
+      </h3>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          placeholder="e.g. Upper Push Day"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className="flex-1 p-2 bg-gray-800 border border-gray-600 rounded-lg focus:border-blue-500 focus:outline-none"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+        >
+          <BookmarkPlus className="inline-block w-4 h-4 mr-1" />
+          Save Current
+        </button>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          Save the workout set up above under a name to load it later or schedule it in a program.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {templates.map((template) => (
+            <li key={template.id} className="flex items-center gap-2 bg-gray-900/50 rounded-lg p-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">{template.name}</div>
+                <div className="text-xs text-gray-400 truncate">{describeWorkout(template.config)}</div>
+              </div>
+              <button
+                onClick={() => onLoad(template.id)}
+                className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 transition-colors"
+              >
+                Load
+              </button>
+              <button
+                onClick={() => onDelete(template.id)}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TemplateLibrary;
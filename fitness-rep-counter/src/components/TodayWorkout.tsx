@@ -0,0 +1,51 @@
+import React from 'react';
+import { CalendarCheck, CheckCircle, Play } from 'lucide-react';
+import { PlannedWorkout } from '../types';
+import { describeWorkout } from '../utils/programs';
+
+interface TodayWorkoutProps {
+  plannedWorkouts: PlannedWorkout[];
+  onStart: (planned: PlannedWorkout) => void;
+}
+
+const TodayWorkout: React.FC<TodayWorkoutProps> = ({ plannedWorkouts, onStart }) => {
+  if (plannedWorkouts.length === 0) return null;
+
+  return (
+    <div className="bg-gradient-to-r from-green-600/20 to-blue-600/20 rounded-xl p-4 mb-6">
+      <h3 className="font-semibold mb-3 flex items-center">
+        <CalendarCheck className="w-5 h-5 mr-2 text-green-400" />
+        Today's Workout
+      </h3>
+
+      <div className="space-y-3">
+        {plannedWorkouts.map((planned) => (
+          <div
+            key={`${planned.program.id}-${planned.template.id}`}
+            className="flex items-center justify-between gap-3 bg-gray-900/50 rounded-lg p-3"
+          >
+            <div className="min-w-0">
+              <div className="font-medium flex items-center">
+                {planned.template.name}
+                {planned.completed && <CheckCircle className="w-4 h-4 ml-2 text-green-400" />}
+              </div>
+              <div className="text-xs text-gray-400">
+                {planned.program.name} • Week {planned.week + 1}/{planned.program.weeks}
+              </div>
+              <div className="text-sm text-gray-300 truncate">{describeWorkout(planned.config)}</div>
+            </div>
+            <button
+              onClick={() => onStart(planned)}
+              className="shrink-0 px-4 py-2 bg-gradient-to-r from-green-500 to-blue-500 rounded-lg font-bold hover:from-green-600 hover:to-blue-600 transition-all"
+            >
+              <Play className="inline-block w-4 h-4 mr-1" />
+              {planned.completed ? 'Again' : 'Start'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TodayWorkout;
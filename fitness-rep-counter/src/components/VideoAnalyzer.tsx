@@ -1,10 +1,28 @@
 import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { ExerciseType, RepData } from '../types';
-import { exercises } from '../data/exercises';
+import {
+  ExerciseCalibrations,
+  ExerciseType,
+  KeypointFilterType,
+  PoseModelType,
+  RepData,
+  RepDiagnostic,
+} from '../types';
+import { getExerciseDefinition, getExerciseList, getExerciseName } from '../data/exercises';
 import { poseDetectionService } from '../services/poseDetection';
-import { exerciseDetectionService } from '../services/exerciseDetection';
+import {
+  ExerciseDetectionService,
+  REP_QUALITY_REASON_LABELS,
+  REP_REJECTION_LABELS,
+} from '../services/exerciseDetection';
+import { DEFAULT_KEYPOINT_FILTER } from '../services/keypointFilter';
 import { speechService } from '../services/speechService';
-import { detectCameraView, getCameraViewLabel, CameraView, calculateAngle } from '../utils/angleCalculations';
+import { poseRecorder, parseRecording, finishRecording } from '../services/poseRecorder';
+import { replayRecording, ReplayResult } from '../services/poseReplay';
+import { analyzeSegments, analyzeVideoOffline, SegmentAnalysis } from '../services/videoAnalysis';
+import { ClassifierFrame } from '../services/exerciseClassifier';
+import { detectCameraView, getCameraViewLabel, CameraView } from '../utils/angleCalculations';
+import { formatClock } from '../utils/intervals';
+import { countPartialReps } from '../utils/repQuality';
 import {
   Upload,
   Play,
@@ -14,16 +32,29 @@ import {
   AlertTriangle,
   ArrowLeft,
   FileVideo,
+  FileJson,
+  ScanLine,
+  ScanEye,
+  X,
 } from 'lucide-react';
 
 interface VideoAnalyzerProps {
+  poseModel?: PoseModelType;
+  keypointFilter?: KeypointFilterType;
+  calibrations?: ExerciseCalibrations;
   onBack: () => void;
 }
 
-const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
+const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({
+  poseModel,
+  keypointFilter = DEFAULT_KEYPOINT_FILTER,
+  calibrations,
+  onBack,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
 
   const [videoSrc, setVideoSrc] = useState<string | null>(null);
   const [videoName, setVideoName] = useState<string>('');
@@ -37,15 +68,36 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
   const [progress, setProgress] = useState(0);
   const [currentAngle, setCurrentAngle] = useState<number | null>(null);
   const [currentPhase, setCurrentPhase] = useState<string>('neutral');
+  const [diagnostics, setDiagnostics] = useState<RepDiagnostic[]>([]);
+  const [isRecordingPoses, setIsRecordingPoses] = useState(false);
+  const [replayResult, setReplayResult] = useState<ReplayResult | null>(null);
+  const [isOfflineAnalyzing, setIsOfflineAnalyzing] = useState(false);
+  const [segments, setSegments] = useState<SegmentAnalysis[]>([]);
 
   const animationFrameRef = useRef<number | null>(null);
   const repCountRef = useRef(0); // Track rep count for speech
+  const offlineAbortRef = useRef<AbortController | null>(null);
+  const offlineFramesRef = useRef<ClassifierFrame[]>([]); // Every frame of the offline analysis, for segmenting
+
+  // Detector timed by the playback position rather than the wall clock, so
+  // rep durations hold at any playback speed. Rep timestamps are ms into the video.
+  const [detector] = useState(
+    () => new ExerciseDetectionService({ clock: () => (videoRef.current?.currentTime ?? 0) * 1000 })
+  );
+
+  useEffect(() => {
+    detector.setKeypointFilter(keypointFilter);
+  }, [detector, keypointFilter]);
+
+  useEffect(() => {
+    detector.setCalibrations(calibrations ?? {});
+  }, [detector, calibrations]);
 
   // Initialize pose detection and speech
   useEffect(() => {
     const initPose = async () => {
       try {
-        await poseDetectionService.initialize();
+        await poseDetectionService.initialize(poseModel);
         speechService.initialize();
         setIsPoseReady(true);
       } catch (err) {
@@ -54,7 +106,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
       }
     };
     initPose();
-  }, []);
+  }, [poseModel]);
 
   // Handle file selection
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -70,6 +122,9 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
     setError(null);
     setVideoName(file.name);
     setReps([]);
+    setDiagnostics([]);
+    setSegments([]);
+    setReplayResult(null);
     setProgress(0);
     setCurrentCameraView('unknown');
 
@@ -78,15 +133,39 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
     setVideoSrc(url);
 
     // Reset exercise detection
-    exerciseDetectionService.setExercise(selectedExercise);
-  }, [selectedExercise]);
+    detector.setExercise(selectedExercise);
+  }, [selectedExercise, detector]);
+
+  // Replay a saved pose recording through rep detection
+  const handleRecordingSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const recording = parseRecording(await file.text());
+      const result = replayRecording(recording);
+
+      setError(null);
+      setSelectedExercise(recording.exercise);
+      detector.setExercise(recording.exercise);
+      setReps(result.reps);
+      setReplayResult(result);
+      repCountRef.current = result.reps.length;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay pose recording');
+      console.error(err);
+    }
+  }, [detector]);
 
   // Handle exercise change
   const handleExerciseChange = useCallback((exercise: ExerciseType) => {
     setSelectedExercise(exercise);
-    exerciseDetectionService.setExercise(exercise);
+    detector.setExercise(exercise);
     setReps([]);
-  }, []);
+    setDiagnostics([]);
+    setReplayResult(null);
+  }, [detector]);
 
   // Draw pose on canvas
   const drawPose = useCallback((keypoints: Array<{ x: number; y: number; score?: number }>) => {
@@ -105,12 +184,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
     // Draw skeleton connections
-    const connections = [
-      [0, 1], [0, 2], [1, 3], [2, 4], // Face
-      [5, 7], [7, 9], [6, 8], [8, 10], // Arms
-      [5, 6], [5, 11], [6, 12], [11, 12], // Torso
-      [11, 13], [13, 15], [12, 14], [14, 16], // Legs
-    ];
+    const connections = poseDetectionService.getSkeletonConnections();
 
     ctx.strokeStyle = '#00FF00';
     ctx.lineWidth = 2;
@@ -149,7 +223,10 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
     }
 
     try {
-      const pose = await poseDetectionService.detectPose(video);
+      // Playback position of the analyzed frame - the video keeps
+      // playing while inference runs
+      const frameTime = detector.now();
+      const pose = await poseDetectionService.detectPose(video, frameTime);
       if (pose) {
         drawPose(pose.keypoints);
 
@@ -159,26 +236,18 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
           setCurrentCameraView(view);
         }
 
-        // Calculate and display current angle for debugging
-        // For push-ups, this is the elbow angle (shoulder-elbow-wrist)
-        const keypoints = pose.keypoints;
-        const shoulder = keypoints[5] || keypoints[6]; // left or right shoulder
-        const elbow = keypoints[7] || keypoints[8]; // left or right elbow
-        const wrist = keypoints[9] || keypoints[10]; // left or right wrist
-        if (shoulder && elbow && wrist &&
-            (shoulder.score || 0) > 0.3 &&
-            (elbow.score || 0) > 0.3 &&
-            (wrist.score || 0) > 0.3) {
-          const angle = calculateAngle(shoulder, elbow, wrist);
-          setCurrentAngle(Math.round(angle));
-        }
+        // Detect rep
+        poseRecorder.addFrame(pose, frameTime);
+        const rep = detector.detectRep(pose.keypoints, frameTime);
 
-        // Update phase from exercise detection state
-        const state = exerciseDetectionService.getCurrentState();
-        setCurrentPhase(state.phase);
+        // Display the primary angle and phase for debugging
+        const state = detector.getCurrentState();
+        if (state.primaryAngle !== null) {
+          setCurrentAngle(Math.round(state.primaryAngle));
+        }
+        setCurrentPhase(state.stage ?? state.phase);
+        setDiagnostics(detector.getDiagnostics());
 
-        // Detect rep
-        const rep = exerciseDetectionService.detectRep(pose.keypoints);
         if (rep) {
           setReps(prev => [...prev, rep]);
           repCountRef.current += 1;
@@ -186,6 +255,8 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
           // Audio feedback like live camera
           if (rep.isValid) {
             speechService.announceRep(repCountRef.current);
+          } else if (rep.quality === 'partial') {
+            speechService.announcePartialRep(rep.qualityReason === 'shortOfTop' ? 'top' : 'bottom', rep.partialDepth);
           } else {
             const issue = rep.issues[0] || 'No rép. Form needs improvement.';
             speechService.announceInvalidRep(issue);
@@ -205,7 +276,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
     if (!video.paused && !video.ended) {
       animationFrameRef.current = requestAnimationFrame(processFrame);
     }
-  }, [drawPose]);
+  }, [drawPose, detector]);
 
   // Start/stop analysis
   const toggleAnalysis = useCallback(() => {
@@ -220,12 +291,22 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
         cancelAnimationFrame(animationFrameRef.current);
       }
     } else {
+      // Recordings start with the video so they replay from a fresh detector
+      if (isRecordingPoses && video.currentTime === 0) {
+        poseRecorder.start({
+          exercise: selectedExercise,
+          model: poseDetectionService.getModel(),
+          source: 'video',
+          keypointFilter,
+          calibration: calibrations?.[selectedExercise],
+        }, 0);
+      }
       video.play();
       setIsPlaying(true);
       setIsAnalyzing(true);
       processFrame();
     }
-  }, [isPlaying, videoSrc, processFrame]);
+  }, [isPlaying, videoSrc, processFrame, isRecordingPoses, selectedExercise, keypointFilter, calibrations]);
 
   // Reset analysis
   const resetAnalysis = useCallback(() => {
@@ -240,12 +321,93 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
     setProgress(0);
     setCurrentAngle(null);
     setCurrentPhase('neutral');
+    setDiagnostics([]);
+    setSegments([]);
+    offlineFramesRef.current = [];
     repCountRef.current = 0;
-    exerciseDetectionService.reset();
+    offlineAbortRef.current?.abort();
+    detector.reset();
     speechService.stop();
+    poseRecorder.stop(); // Discard - the recording no longer matches the detector
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
+  }, [detector]);
+
+  // Offline analysis - seek through every frame at a fixed rate, as fast as
+  // inference allows. Unlike playback, results don't depend on device speed.
+  const runOfflineAnalysis = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !videoSrc) return;
+
+    resetAnalysis();
+    const controller = new AbortController();
+    offlineAbortRef.current = controller;
+    setIsAnalyzing(true);
+    setIsOfflineAnalyzing(true);
+    setError(null);
+
+    if (isRecordingPoses) {
+      poseRecorder.start({
+        exercise: selectedExercise,
+        model: poseDetectionService.getModel(),
+        source: 'video',
+        keypointFilter,
+        calibration: calibrations?.[selectedExercise],
+      }, 0);
+    }
+
+    try {
+      const result = await analyzeVideoOffline(video, {
+        detector,
+        signal: controller.signal,
+        onFrame: (pose, frameTime, rep) => {
+          drawPose(pose.keypoints);
+          poseRecorder.addFrame(pose, frameTime);
+          offlineFramesRef.current.push({ keypoints: pose.keypoints, timestamp: frameTime });
+
+          const view = detectCameraView(pose.keypoints);
+          if (view !== 'unknown') {
+            setCurrentCameraView(view);
+          }
+
+          const state = detector.getCurrentState();
+          if (state.primaryAngle !== null) {
+            setCurrentAngle(Math.round(state.primaryAngle));
+          }
+          setCurrentPhase(state.stage ?? state.phase);
+          setDiagnostics(detector.getDiagnostics());
+
+          // No speech - analysis runs faster than real time
+          if (rep) {
+            setReps(prev => [...prev, rep]);
+          }
+        },
+        onProgress: setProgress,
+      });
+
+      if (result.cancelled) {
+        poseRecorder.stop();
+      } else {
+        finishRecording();
+        // Clips can hold several exercises - find and count each one
+        setSegments(analyzeSegments(offlineFramesRef.current, { keypointFilter, calibrations }));
+      }
+    } catch (err) {
+      poseRecorder.stop();
+      setError(err instanceof Error ? err.message : 'Offline analysis failed');
+      console.error(err);
+    } finally {
+      if (offlineAbortRef.current === controller) {
+        offlineAbortRef.current = null;
+        setIsAnalyzing(false);
+        setIsOfflineAnalyzing(false);
+      }
+    }
+  }, [videoSrc, resetAnalysis, isRecordingPoses, selectedExercise, keypointFilter, calibrations, detector, drawPose]);
+
+  const cancelOfflineAnalysis = useCallback(() => {
+    offlineAbortRef.current?.abort();
   }, []);
 
   // Handle video end
@@ -257,6 +419,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
       setIsPlaying(false);
       setIsAnalyzing(false);
       setProgress(100);
+      finishRecording();
     };
 
     video.addEventListener('ended', handleEnded);
@@ -266,6 +429,8 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      poseRecorder.stop();
+      offlineAbortRef.current?.abort();
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
@@ -275,8 +440,13 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
     };
   }, [videoSrc]);
 
+  // Label the debug angle after the primary joint's vertex (e.g. "Elbow Angle")
+  const primaryJoint = getExerciseDefinition(selectedExercise).primaryJoint[1];
+  const primaryAngleLabel = `${primaryJoint.charAt(0).toUpperCase()}${primaryJoint.slice(1)} Angle`;
+
   // Calculate stats
   const validReps = reps.filter(r => r.isValid).length;
+  const partialReps = countPartialReps(reps);
   const avgFormScore = reps.length > 0
     ? reps.reduce((sum, r) => sum + r.formScore, 0) / reps.length
     : 0;
@@ -308,8 +478,8 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
           className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 focus:outline-none focus:border-blue-500"
           disabled={isAnalyzing}
         >
-          {Object.entries(exercises).map(([id, exercise]) => (
-            <option key={id} value={id}>
+          {getExerciseList().map((exercise) => (
+            <option key={exercise.id} value={exercise.id}>
               {exercise.name}
             </option>
           ))}
@@ -335,6 +505,41 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
         </div>
       )}
 
+      {/* Replay a recorded pose stream */}
+      {!videoSrc && (
+        <>
+          <button
+            onClick={() => recordingInputRef.current?.click()}
+            disabled={!isPoseReady}
+            className="w-full mt-3 py-3 bg-gray-700 rounded-xl hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileJson className="inline-block w-5 h-5 mr-2" />
+            Replay Pose Recording
+          </button>
+          <input
+            ref={recordingInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleRecordingSelect}
+            className="hidden"
+          />
+        </>
+      )}
+
+      {replayResult && (
+        <div className={`rounded-lg p-4 mt-4 border ${
+          replayResult.matchesExpected === false
+            ? 'bg-red-500/20 border-red-500'
+            : 'bg-gray-800/50 border-gray-700'
+        }`}>
+          <p className="text-sm text-gray-300">
+            Replayed {replayResult.frameCount} frames: {replayResult.reps.length} reps
+            {replayResult.expectedReps !== null && ` (expected ${replayResult.expectedReps})`}
+            {replayResult.diagnostics.length > 0 && `, ${replayResult.diagnostics.length} transitions rejected`}
+          </p>
+        </div>
+      )}
+
       {/* Video display */}
       {videoSrc && (
         <>
@@ -363,7 +568,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
 
             {/* Debug info - angle and phase */}
             <div className="absolute top-14 left-4 bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2">
-              <div className="text-xs text-gray-400">Elbow Angle</div>
+              <div className="text-xs text-gray-400">{primaryAngleLabel}</div>
               <div className="text-lg font-bold text-yellow-400">
                 {currentAngle !== null ? `${currentAngle}°` : '--'}
               </div>
@@ -374,6 +579,14 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
               }`}>
                 {currentPhase.toUpperCase()}
               </div>
+              {diagnostics.length > 0 && (
+                <>
+                  <div className="text-xs text-gray-400 mt-1">Rejected</div>
+                  <div className="text-sm font-medium text-orange-400">
+                    {diagnostics.length} • {REP_REJECTION_LABELS[diagnostics[diagnostics.length - 1].reason]}
+                  </div>
+                </>
+              )}
             </div>
 
             {/* Rep counter overlay */}
@@ -400,7 +613,7 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
           <div className="flex gap-3 mb-6">
             <button
               onClick={toggleAnalysis}
-              disabled={!isPoseReady}
+              disabled={!isPoseReady || isOfflineAnalyzing}
               className={`flex-1 py-3 rounded-xl font-medium transition-colors ${
                 isPlaying
                   ? 'bg-yellow-600 hover:bg-yellow-700'
@@ -419,6 +632,24 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
                 </>
               )}
             </button>
+            <button
+              onClick={isOfflineAnalyzing ? cancelOfflineAnalysis : runOfflineAnalysis}
+              disabled={!isPoseReady || isPlaying}
+              className="flex-1 py-3 bg-gray-700 rounded-xl font-medium hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Analyze every frame at 30 fps, independent of playback speed"
+            >
+              {isOfflineAnalyzing ? (
+                <>
+                  <X className="inline-block w-5 h-5 mr-2" />
+                  Cancel
+                </>
+              ) : (
+                <>
+                  <ScanLine className="inline-block w-5 h-5 mr-2" />
+                  All Frames
+                </>
+              )}
+            </button>
             <button
               onClick={resetAnalysis}
               className="px-6 py-3 bg-gray-700 rounded-xl hover:bg-gray-600 transition-colors"
@@ -437,70 +668,116 @@ const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ onBack }) => {
             </button>
           </div>
 
-          {/* Stats */}
-          {reps.length > 0 && (
-            <div className="bg-gray-800/50 rounded-xl p-4">
-              <h3 className="text-lg font-semibold mb-4">Analysis Results</h3>
-              <div className="grid grid-cols-4 gap-3 mb-4">
-                <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-                  <div className="text-2xl font-bold text-white">{reps.length}</div>
-                  <div className="text-xs text-gray-400">Total Reps</div>
-                </div>
-                <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-                  <div className="text-2xl font-bold text-green-400">{validReps}</div>
-                  <div className="text-xs text-gray-400">Valid</div>
-                </div>
-                <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-                  <div className={`text-2xl font-bold ${avgFormScore >= 70 ? 'text-green-400' : 'text-yellow-400'}`}>
-                    {Math.round(avgFormScore)}%
-                  </div>
-                  <div className="text-xs text-gray-400">Avg Form</div>
-                </div>
-                <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-                  <div className="text-2xl font-bold text-blue-400">
-                    {Math.round(avgROM)}%
-                  </div>
-                  <div className="text-xs text-gray-400">Avg ROM</div>
-                </div>
+          {/* Pose recording */}
+          <label className="flex items-center gap-2 text-sm text-gray-400 mb-6">
+            <input
+              type="checkbox"
+              checked={isRecordingPoses}
+              onChange={(e) => setIsRecordingPoses(e.target.checked)}
+              disabled={isAnalyzing || progress > 0}
+            />
+            Save pose recording when the video ends
+          </label>
+
+        </>
+      )}
+
+      {/* Exercises found in the clip */}
+      {segments.length > 0 && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mb-4">
+          <h3 className="text-lg font-semibold mb-3 flex items-center">
+            <ScanEye className="w-5 h-5 mr-2 text-blue-400" />
+            Exercises Detected
+          </h3>
+          <div className="space-y-1 text-sm">
+            {segments.map((segment, index) => (
+              <div key={index} className="flex justify-between border-b border-gray-700/50 py-1">
+                <span>
+                  <span className="text-gray-400">
+                    {formatClock(segment.start / 1000)}-{formatClock(segment.end / 1000)}
+                  </span>{' '}
+                  {getExerciseName(segment.exercise)}
+                </span>
+                <span className="text-gray-300">
+                  {segment.holdTime !== null
+                    ? `${Math.round(segment.holdTime / 1000)}s held`
+                    : `${segment.reps.filter((rep) => rep.isValid).length}/${segment.reps.length} valid reps`}
+                </span>
               </div>
+            ))}
+          </div>
+        </div>
+      )}
 
-              {/* Rep history */}
-              <div className="text-sm text-gray-400 mb-2">Rep History</div>
-              <div className="flex gap-2 flex-wrap">
-                {reps.map((rep, index) => (
-                  <div
-                    key={index}
-                    className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                      rep.isValid ? 'bg-green-600/30' : 'bg-red-600/30'
-                    }`}
-                    title={`Rep ${rep.repNumber}: ${Math.round(rep.formScore)}% form, ${rep.issues.join(', ') || 'Good form'}`}
-                  >
-                    {rep.isValid ? (
-                      <CheckCircle className="w-4 h-4 text-green-400" />
-                    ) : (
-                      <AlertTriangle className="w-4 h-4 text-red-400" />
-                    )}
-                  </div>
-                ))}
+      {/* Stats */}
+      {reps.length > 0 && (
+        <div className="bg-gray-800/50 rounded-xl p-4">
+          <h3 className="text-lg font-semibold mb-4">Analysis Results</h3>
+          <div className="grid grid-cols-4 gap-3 mb-4">
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-white">{reps.length}</div>
+              <div className="text-xs text-gray-400">Total Reps</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-green-400">
+                {validReps}
+                {partialReps > 0 && <span className="text-base text-yellow-400"> +{partialReps}</span>}
+              </div>
+              <div className="text-xs text-gray-400">{partialReps > 0 ? 'Full + Partial' : 'Valid'}</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className={`text-2xl font-bold ${avgFormScore >= 70 ? 'text-green-400' : 'text-yellow-400'}`}>
+                {Math.round(avgFormScore)}%
+              </div>
+              <div className="text-xs text-gray-400">Avg Form</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-blue-400">
+                {Math.round(avgROM)}%
+              </div>
+              <div className="text-xs text-gray-400">Avg ROM</div>
+            </div>
+          </div>
+
+          {/* Rep history */}
+          <div className="text-sm text-gray-400 mb-2">Rep History</div>
+          <div className="flex gap-2 flex-wrap">
+            {reps.map((rep, index) => (
+              <div
+                key={index}
+                className={`w-10 h-10 rounded-lg flex items-center justify-center ${
+                  rep.isValid ? 'bg-green-600/30' : rep.quality === 'partial' ? 'bg-yellow-600/30' : 'bg-red-600/30'
+                }`}
+                title={`Rep ${rep.repNumber}: ${Math.round(rep.formScore)}% form, ${
+                  rep.qualityReason ? `${REP_QUALITY_REASON_LABELS[rep.qualityReason].toLowerCase()}, ` : ''
+                }${rep.issues.join(', ') || 'Good form'}`}
+              >
+                {rep.isValid ? (
+                  <CheckCircle className="w-4 h-4 text-green-400" />
+                ) : rep.quality === 'partial' ? (
+                  <span className="text-[10px] font-bold text-yellow-400">{rep.partialDepth}%</span>
+                ) : (
+                  <AlertTriangle className="w-4 h-4 text-red-400" />
+                )}
               </div>
+            ))}
+          </div>
 
-              {/* Common issues */}
-              {reps.some(r => r.issues.length > 0) && (
-                <div className="mt-4">
-                  <div className="text-sm text-gray-400 mb-2">Common Issues</div>
-                  <div className="space-y-1">
-                    {Array.from(new Set(reps.flatMap(r => r.issues))).slice(0, 5).map((issue, i) => (
-                      <div key={i} className="text-sm text-yellow-400 flex items-center gap-2">
-                        <AlertTriangle className="w-3 h-3" />
-                        {issue}
-                      </div>
-                    ))}
+          {/* Common issues */}
+          {reps.some(r => r.issues.length > 0) && (
+            <div className="mt-4">
+              <div className="text-sm text-gray-400 mb-2">Common Issues</div>
+              <div className="space-y-1">
+                {Array.from(new Set(reps.flatMap(r => r.issues))).slice(0, 5).map((issue, i) => (
+                  <div key={i} className="text-sm text-yellow-400 flex items-center gap-2">
+                    <AlertTriangle className="w-3 h-3" />
+                    {issue}
                   </div>
-                </div>
-              )}
+                ))}
+              </div>
             </div>
           )}
-        </>
+        </div>
       )}
 
       {/* Error display */}
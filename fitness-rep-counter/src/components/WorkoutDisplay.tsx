@@ -1,11 +1,37 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { ExerciseType, RepData, WorkoutPhase } from '../types';
-import { exercises } from '../data/exercises';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import {
+  BodySide,
+  ExerciseCalibrations,
+  ExerciseType,
+  HoldProgress,
+  Keypoint,
+  PoseModelType,
+  KeypointFilterType,
+  RepData,
+  UnilateralMode,
+  WorkoutFormat,
+  WorkoutPhase,
+} from '../types';
+import { getExerciseDefinition, getExerciseList, getExerciseName, isHoldExercise } from '../data/exercises';
 import { useCamera, ZoomLevel } from '../hooks/useCamera';
 import { usePoseDetection } from '../hooks/usePoseDetection';
 import { useTimer } from '../hooks/useTimer';
 import { speechService } from '../services/speechService';
-import { checkBodyAlignment } from '../utils/angleCalculations';
+import { poseDetectionService } from '../services/poseDetection';
+import { poseRecorder, finishRecording } from '../services/poseRecorder';
+import { ExerciseClassifier } from '../services/exerciseClassifier';
+import { REP_QUALITY_REASON_LABELS } from '../services/exerciseDetection';
+import { formatTempo, parseTempo, TEMPO_PHASE_LABELS } from '../utils/tempo';
+import { getSetSide, SIDE_LABELS } from '../utils/unilateral';
+import { countPartialReps } from '../utils/repQuality';
+import {
+  endsAtTarget,
+  formatClock,
+  FORMAT_SET_LABELS,
+  isIntervalFormat,
+  WORKOUT_FORMAT_LABELS,
+} from '../utils/intervals';
+import { getVelocityLoss } from '../utils/fatigue';
 import CameraView from './CameraView';
 import { 
   Play, 
@@ -14,7 +40,9 @@ import {
   SkipForward,
   Clock,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  Circle,
+  ScanEye
 } from 'lucide-react';
 
 interface WorkoutDisplayProps {
@@ -27,8 +55,20 @@ interface WorkoutDisplayProps {
   countdownTime: number;
   restTime: number;
   reps: RepData[];
+  hold: HoldProgress | null;
+  targetHoldTime: number; // seconds, hold exercises only
   initialZoomLevel?: ZoomLevel;
+  poseModel?: PoseModelType;
+  keypointFilter?: KeypointFilterType;
+  calibrations?: ExerciseCalibrations;
+  targetTempo?: string;
+  unilateralMode?: UnilateralMode;
+  nextExercise?: ExerciseType; // Exercise of the next set when it changes, multi-exercise workouts
+  format?: WorkoutFormat;
+  workSeconds?: number; // Time cap of the set, interval formats only
+  velocityLossLimit?: number; // %, cue to end the set once reps slow this much
   onRepComplete: (rep: RepData) => void;
+  onHoldUpdate: (progress: HoldProgress) => void;
   onSetComplete: () => void;
   onStartNextSet: () => void;
   onCompleteWorkout: () => void;
@@ -39,6 +79,8 @@ interface WorkoutDisplayProps {
   onCameraReady: (ready: boolean) => void;
   onPoseReady: (ready: boolean) => void;
   onZoomChange?: (level: ZoomLevel) => void;
+  // Offered during the first set when the movement looks like another exercise
+  onSwitchExercise?: (exercise: ExerciseType) => void;
 }
 
 const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
@@ -51,8 +93,20 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
   countdownTime,
   restTime,
   reps,
+  hold,
+  targetHoldTime,
   initialZoomLevel = 1,
+  poseModel,
+  keypointFilter,
+  calibrations,
+  targetTempo,
+  unilateralMode = 'alternating',
+  nextExercise,
+  format = 'sets',
+  workSeconds,
+  velocityLossLimit,
   onRepComplete,
+  onHoldUpdate,
   onSetComplete,
   onStartNextSet,
   onCompleteWorkout,
@@ -63,13 +117,37 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
   onCameraReady,
   onPoseReady,
   onZoomChange,
+  onSwitchExercise,
 }) => {
   const [isSpeechEnabled, setIsSpeechEnabled] = useState(true);
   const [lastFormIssue, setLastFormIssue] = useState<string | null>(null);
   const [isPaused, setIsPaused] = useState(false);
   const [hasAnnouncedSetupIssue, setHasAnnouncedSetupIssue] = useState(false);
-
-  const exerciseData = exercises[exercise];
+  const [isRecordingPoses, setIsRecordingPoses] = useState(false);
+  // Breaks already announced and whether the target was reached this set
+  const announcedBreaksRef = useRef(0);
+  const isHoldCompleteRef = useRef(false);
+  // Whether the set in progress has been started, and whether its end is on the way
+  const hasBegunSetRef = useRef(false);
+  const isSetEndingRef = useRef(false);
+  // Whether this set's velocity loss cue has been given
+  const hasCuedVelocityLossRef = useRef(false);
+  // Watches the first set until it recognises an exercise, and what it recognised
+  const classifierRef = useRef<ExerciseClassifier | null>(null);
+  const [suggestedExercise, setSuggestedExercise] = useState<ExerciseType | null>(null);
+
+  const exerciseData = getExerciseDefinition(exercise);
+  const isHold = exerciseData.hold !== undefined;
+  // Unilateral sets need the target reps on every side they work
+  const isUnilateral = exerciseData.unilateral !== undefined;
+  const setSide = isUnilateral ? getSetSide(unilateralMode, currentSet) : null;
+  const setSides = useMemo<BodySide[]>(() => (setSide ? [setSide] : ['left', 'right']), [setSide]);
+  const setTargetReps = isUnilateral ? targetReps * setSides.length : targetReps;
+  const setLabel = FORMAT_SET_LABELS[format];
+  const parsedTargetTempo = useMemo(
+    () => (targetTempo ? parseTempo(targetTempo) : null),
+    [targetTempo]
+  );
 
   // Camera hook
   const {
@@ -106,6 +184,10 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
 
     if (rep.isValid) {
       speechService.announceRep(reps.length + 1);
+    } else if (rep.quality === 'partial' && rep.qualityReason) {
+      speechService.announcePartialRep(rep.qualityReason === 'shortOfTop' ? 'top' : 'bottom', rep.partialDepth);
+      setLastFormIssue(`Partial rep: ${REP_QUALITY_REASON_LABELS[rep.qualityReason]} (${rep.partialDepth}%)`);
+      setTimeout(() => setLastFormIssue(null), 3000);
     } else {
       const defaultIssue =
         'No rep. Keep your body in a straight line from shoulders through hips to ankles.';
@@ -115,15 +197,70 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
       setTimeout(() => setLastFormIssue(null), 3000);
     }
 
-    // Check if set is complete
-    if (reps.length + 1 >= targetReps) {
+    // Cue the end of the set once reps have slowed past the limit
+    const setReps = [...reps, rep];
+    if (velocityLossLimit && !hasCuedVelocityLossRef.current) {
+      const velocityLoss = getVelocityLoss(setReps);
+      if (velocityLoss !== null && velocityLoss >= velocityLossLimit) {
+        hasCuedVelocityLossRef.current = true;
+        speechService.announceVelocityLoss(velocityLoss);
+        setLastFormIssue(`Speed down ${Math.round(velocityLoss)}% - time to end the set`);
+        setTimeout(() => setLastFormIssue(null), 3000);
+      }
+    }
+
+    // Check if set is complete - AMRAP and Tabata sets run until time is up
+    const isSetComplete = isUnilateral
+      ? setSides.every((side) => setReps.filter((r) => r.side === side).length >= targetReps)
+      : setReps.length >= targetReps;
+    if (isSetComplete && endsAtTarget(format) && !isSetEndingRef.current) {
+      isSetEndingRef.current = true;
       setTimeout(() => {
         onSetComplete();
-        const validReps = [...reps, rep].filter(r => r.isValid).length;
-        speechService.announceSetComplete(currentSet + 1, validReps, targetReps);
+        const validReps = setReps.filter(r => r.isValid).length;
+        speechService.announceSetComplete(currentSet + 1, validReps, setTargetReps);
       }, 500);
     }
-  }, [isPaused, onRepComplete, reps, targetReps, onSetComplete, currentSet]);
+  }, [isPaused, onRepComplete, reps, targetReps, onSetComplete, currentSet, isUnilateral, setSides, setTargetReps, format, velocityLossLimit]);
+
+  // Handle hold progress - the set completes once the target time is held
+  const handleHoldUpdate = useCallback((progress: HoldProgress) => {
+    if (isPaused || isHoldCompleteRef.current) return;
+
+    onHoldUpdate(progress);
+
+    if (progress.breaks.length > announcedBreaksRef.current) {
+      announcedBreaksRef.current = progress.breaks.length;
+      const issue = progress.breaks[progress.breaks.length - 1].issue;
+      speechService.announceFormIssue(issue);
+      setLastFormIssue(issue);
+      setTimeout(() => setLastFormIssue(null), 3000);
+    }
+
+    if (progress.holdTime >= targetHoldTime * 1000) {
+      isHoldCompleteRef.current = true;
+      onSetComplete();
+      speechService.announceHoldComplete(currentSet + 1, targetHoldTime);
+    }
+  }, [isPaused, onHoldUpdate, targetHoldTime, onSetComplete, currentSet]);
+
+  // Offer the recognised exercise when it isn't the one being counted
+  const handleFrame = useCallback((keypoints: Keypoint[], timestamp: number) => {
+    const classifier = classifierRef.current;
+    if (!classifier) return;
+
+    classifier.addFrame(keypoints, timestamp);
+    if (!classifier.isReady()) return;
+
+    const { exercise: recognised } = classifier.classify();
+    if (!recognised) return;
+
+    classifierRef.current = null;
+    if (recognised !== exercise) {
+      setSuggestedExercise(recognised);
+      speechService.speak(`This looks like ${getExerciseName(recognised)}`);
+    }
+  }, [exercise]);
 
   // Pose detection hook
   const {
@@ -138,8 +275,15 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
     videoRef,
     canvasRef,
     exercise,
+    model: poseModel,
+    keypointFilter,
+    calibrations,
+    targetTempo: parsedTargetTempo,
+    side: setSide,
     isActive: phase === 'exercising' && !isPaused,
     onRepComplete: handleRepComplete,
+    onHoldUpdate: handleHoldUpdate,
+    onFrame: handleFrame,
   });
 
   // Countdown timer
@@ -155,7 +299,25 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
     onComplete: () => {
       onPhaseChange('exercising');
       speechService.speak('Go!', 'high');
-      resetCounter();
+    },
+  });
+
+  // Work timer of interval formats - the set ends when it runs out
+  const intervalTimer = useTimer({
+    initialTime: workSeconds ?? 0,
+    countdown: true,
+    onTick: (time) => {
+      if (time <= 3 && time > 0) {
+        speechService.announceCountdown(time);
+      } else if (workSeconds !== undefined && workSeconds > 60 && (time === 60 || time * 2 === workSeconds)) {
+        speechService.announceTimeRemaining(time);
+      }
+    },
+    onComplete: () => {
+      if (isSetEndingRef.current) return;
+      isSetEndingRef.current = true;
+      speechService.announceTimeUp();
+      onSetComplete();
     },
   });
 
@@ -190,23 +352,20 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
     onPoseReady(isPoseReady);
   }, [isPoseReady, onPoseReady]);
 
-  // Pre-workout posture check for push-ups:
-  // before any reps are registered, ensure the body is in a straight line
-  // so that the system has a good side/oblique view for angle measurements.
+  // Pre-workout posture check (e.g. plank line for push-ups):
+  // before any reps are registered, make sure the user is set up
+  // so that the system has a good view for angle measurements.
   useEffect(() => {
-    if (exercise !== 'pushups') return;
+    const setupCheck = exerciseData.setupCheck;
+    if (!setupCheck) return;
     if (!currentPose) return;
     if (reps.length > 0) return;
     if (phase !== 'countdown' && phase !== 'exercising') return;
 
-    const alignmentScore = checkBodyAlignment(currentPose.keypoints);
-
-    // If alignment is poor or keypoints are missing, remind the user once.
-    if (alignmentScore < 85) {
+    // If setup is poor or keypoints are missing, remind the user once.
+    if (!setupCheck.isReady(currentPose.keypoints)) {
       if (!hasAnnouncedSetupIssue) {
-        speechService.announceFormIssue(
-          'Set up in a straight line from shoulders through hips to ankles before starting push-ups.',
-        );
+        speechService.announceFormIssue(setupCheck.message);
         setHasAnnouncedSetupIssue(true);
       }
     } else if (hasAnnouncedSetupIssue) {
@@ -214,7 +373,7 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
       // we can warn again.
       setHasAnnouncedSetupIssue(false);
     }
-  }, [exercise, currentPose, reps.length, phase, hasAnnouncedSetupIssue]);
+  }, [exerciseData, currentPose, reps.length, phase, hasAnnouncedSetupIssue]);
 
   // Initialize pose detection when camera is ready
   useEffect(() => {
@@ -233,6 +392,10 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
 
   // Handle phase changes
   useEffect(() => {
+    if (phase !== 'exercising') {
+      hasBegunSetRef.current = false;
+    }
+
     if (phase === 'countdown') {
       // Do not start the countdown until camera & pose detection
       // are both initialized, so that "Go" aligns with readiness.
@@ -241,17 +404,93 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
       }
       countdownTimer.reset(countdownTime);
       countdownTimer.start();
-      speechService.announceExerciseStart(exerciseData.name);
+      speechService.announceExerciseStart(
+        setSide ? `${exerciseData.name}, ${SIDE_LABELS[setSide].toLowerCase()} side` : exerciseData.name
+      );
+    } else if (phase === 'exercising') {
+      // Sets start here whether they follow a countdown or, in interval
+      // formats, come straight out of the previous rest
+      if (hasBegunSetRef.current) return;
+      hasBegunSetRef.current = true;
+      isSetEndingRef.current = false;
+      hasCuedVelocityLossRef.current = false;
+      resetCounter();
+      announcedBreaksRef.current = 0;
+      isHoldCompleteRef.current = false;
+      // Only exercises of the same kind can take over a set - a rep target
+      // can't become a hold time
+      classifierRef.current = currentSet === 0 && onSwitchExercise
+        ? new ExerciseClassifier(
+            getExerciseList().map((candidate) => candidate.id).filter((candidate) => isHoldExercise(candidate) === isHold)
+          )
+        : null;
+      // Each set is recorded from a fresh detector so it replays on its own
+      if (isRecordingPoses) {
+        poseRecorder.start({
+          exercise,
+          model: poseDetectionService.getModel(),
+          source: 'live',
+          side: setSide,
+          keypointFilter,
+          calibration: calibrations?.[exercise],
+          targetTempo: parsedTargetTempo,
+        });
+      }
+      if (workSeconds !== undefined) {
+        intervalTimer.reset(workSeconds);
+        intervalTimer.start();
+        if (currentSet > 0) {
+          speechService.announceRoundStart(setLabel, currentSet + 1, totalSets);
+        }
+      }
     } else if (phase === 'resting') {
-      restTimer.reset(restPeriod);
+      intervalTimer.stop();
+      // EMOM rests for whatever is left of the minute
+      const rest = format === 'emom' ? intervalTimer.time : restPeriod;
+      if (rest <= 0) {
+        onStartNextSet();
+        return;
+      }
+      restTimer.reset(rest);
       restTimer.start();
-      speechService.announceRestPeriod(restPeriod);
+      speechService.announceRestPeriod(rest);
     } else if (phase === 'workoutComplete') {
+      intervalTimer.stop();
       speechService.announceWorkoutComplete();
       onCompleteWorkout();
     }
   }, [phase, isCameraReady, isPoseReady]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Save the set's pose recording once the set is over
+  useEffect(() => {
+    if (phase !== 'exercising') {
+      finishRecording();
+    }
+  }, [phase]);
+
+  // Keep whatever was recorded if the workout is stopped mid-set
+  useEffect(() => {
+    return () => finishRecording();
+  }, []);
+
+  // Toggle pose recording - turning it off mid-set saves what was captured
+  const togglePoseRecording = useCallback(() => {
+    if (isRecordingPoses) {
+      finishRecording();
+    }
+    setIsRecordingPoses(!isRecordingPoses);
+  }, [isRecordingPoses]);
+
+  // Restart the set as the recognised exercise
+  const switchExercise = useCallback(() => {
+    if (!suggestedExercise) return;
+    poseRecorder.stop(); // Discard - it was recorded as the other exercise
+    resetCounter();
+    onSwitchExercise?.(suggestedExercise);
+    speechService.announceExerciseStart(getExerciseName(suggestedExercise));
+    setSuggestedExercise(null);
+  }, [suggestedExercise, resetCounter, onSwitchExercise]);
+
   // Toggle speech
   const toggleSpeech = useCallback(() => {
     setIsSpeechEnabled(prev => {
@@ -260,10 +499,17 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
     });
   }, []);
 
-  // Toggle pause
+  // Toggle pause - the clock of a timed set stops with it
   const togglePause = useCallback(() => {
+    if (workSeconds !== undefined && phase === 'exercising') {
+      if (isPaused) {
+        intervalTimer.start();
+      } else {
+        intervalTimer.stop();
+      }
+    }
     setIsPaused(prev => !prev);
-  }, []);
+  }, [workSeconds, phase, isPaused, intervalTimer]);
 
   // Skip rest
   const skipRest = useCallback(() => {
@@ -276,8 +522,20 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
     ? reps.reduce((sum, r) => sum + r.formScore, 0) / reps.length
     : 100;
 
-  // Valid reps count
+  // Full and partial rep counts
   const validReps = reps.filter(r => r.isValid).length;
+  const partialReps = countPartialReps(reps);
+  const lastRep = reps.length > 0 ? reps[reps.length - 1] : null;
+  const sideReps = (side: BodySide) => reps.filter(r => r.side === side).length;
+
+  // Hold stats - the form score is the share of the set spent in position
+  const heldSeconds = Math.floor((hold?.holdTime ?? 0) / 1000);
+  const holdBreakCount = hold?.breaks.length ?? 0;
+  const holdBreakTime = hold?.breaks.reduce((sum, b) => sum + b.duration, 0) ?? 0;
+  const holdQuality = hold && hold.holdTime > 0
+    ? (hold.holdTime / (hold.holdTime + holdBreakTime)) * 100
+    : 100;
+  const setFormScore = isHold ? holdQuality : avgFormScore;
 
   return (
     <div className="workout-display">
@@ -291,11 +549,14 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
         onSwitch={switchCamera}
         facingMode={facingMode}
         showOverlay={phase === 'exercising' || phase === 'countdown'}
-        repCount={reps.length}
-        targetReps={targetReps}
+        repCount={isHold ? heldSeconds : reps.length}
+        targetReps={isHold ? targetHoldTime : endsAtTarget(format) ? setTargetReps : 0}
+        counterUnit={isHold ? 's' : ''}
         setNumber={currentSet + 1}
         totalSets={totalSets}
-        formScore={avgFormScore}
+        setLabel={setLabel}
+        timeRemaining={workSeconds !== undefined && phase === 'exercising' ? intervalTimer.time : undefined}
+        formScore={setFormScore}
         isSpeechEnabled={isSpeechEnabled}
         onToggleSpeech={toggleSpeech}
         zoomLevel={zoomLevel}
@@ -311,7 +572,10 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
               {countdownTimer.time}
             </div>
             <div className="text-2xl text-gray-400">Get Ready!</div>
-            <div className="text-lg text-blue-400 mt-2">{exerciseData.name}</div>
+            <div className="text-lg text-blue-400 mt-2">
+              {exerciseData.name}
+              {setSide && ` - ${SIDE_LABELS[setSide]} side`}
+            </div>
           </div>
         </div>
       )}
@@ -326,23 +590,50 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
             <div className="text-xl text-gray-400 mb-6">Rest Period</div>
             
             <div className="bg-gray-800 rounded-xl p-4 mb-6">
-              <div className="text-sm text-gray-400 mb-2">Set {currentSet + 1} Summary</div>
-              <div className="grid grid-cols-3 gap-4">
-                <div>
-                  <div className="text-2xl font-bold text-green-400">{validReps}</div>
-                  <div className="text-xs text-gray-500">Valid Reps</div>
-                </div>
-                <div>
-                  <div className="text-2xl font-bold text-yellow-400">{reps.length - validReps}</div>
-                  <div className="text-xs text-gray-500">Invalid</div>
+              <div className="text-sm text-gray-400 mb-2">{setLabel} {currentSet + 1} Summary</div>
+              {isHold ? (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <div className="text-2xl font-bold text-green-400">{heldSeconds}s</div>
+                    <div className="text-xs text-gray-500">Held</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-yellow-400">{holdBreakCount}</div>
+                    <div className="text-xs text-gray-500">Breaks</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-blue-400">{Math.round(holdQuality)}%</div>
+                    <div className="text-xs text-gray-500">Form</div>
+                  </div>
                 </div>
-                <div>
-                  <div className="text-2xl font-bold text-blue-400">{Math.round(avgFormScore)}%</div>
-                  <div className="text-xs text-gray-500">Form</div>
+              ) : (
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <div className="text-2xl font-bold text-green-400">{validReps}</div>
+                    <div className="text-xs text-gray-500">Full Reps</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-yellow-400">{partialReps}</div>
+                    <div className="text-xs text-gray-500">Partial</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-red-400">{reps.length - validReps - partialReps}</div>
+                    <div className="text-xs text-gray-500">No Reps</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-blue-400">{Math.round(avgFormScore)}%</div>
+                    <div className="text-xs text-gray-500">Form</div>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
+            {nextExercise && (
+              <div className="text-lg text-blue-400 mb-6">
+                Up next: {getExerciseName(nextExercise)}
+              </div>
+            )}
+
             <button
               onClick={skipRest}
               className="px-6 py-3 bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors"
@@ -354,6 +645,32 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
         </div>
       )}
 
+      {/* Recognised exercise */}
+      {suggestedExercise && phase === 'exercising' && currentSet === 0 && (
+        <div className="mt-4 bg-blue-500/20 border border-blue-500 rounded-xl p-4">
+          <div className="flex items-center mb-3">
+            <ScanEye className="w-5 h-5 mr-2 text-blue-400" />
+            <span>
+              This looks like <strong>{getExerciseName(suggestedExercise)}</strong>, not {exerciseData.name}.
+            </span>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setSuggestedExercise(null)}
+              className="flex-1 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              Keep {exerciseData.name}
+            </button>
+            <button
+              onClick={switchExercise}
+              className="flex-1 py-2 rounded-lg font-bold bg-blue-600 hover:bg-blue-700 transition-colors"
+            >
+              Switch
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Form Issue Alert */}
       {lastFormIssue && (
         <div className="fixed top-24 left-1/2 transform -translate-x-1/2 z-40">
@@ -369,35 +686,99 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold">{exerciseData.name}</h3>
           <div className="flex items-center gap-2">
+            <button
+              onClick={togglePoseRecording}
+              className={`px-3 py-1 rounded-full text-sm flex items-center gap-1 transition-colors ${
+                isRecordingPoses ? 'bg-red-600/30 text-red-300' : 'bg-gray-700/50 text-gray-400'
+              }`}
+              title="Save each set's pose stream for replay"
+            >
+              <Circle className={`w-3 h-3 ${isRecordingPoses ? 'fill-red-500 text-red-500' : ''}`} />
+              Rec
+            </button>
+            {setSide && (
+              <span className="px-3 py-1 bg-purple-600/30 rounded-full text-sm">
+                {SIDE_LABELS[setSide]}
+              </span>
+            )}
+            {isIntervalFormat(format) && (
+              <span className="px-3 py-1 bg-orange-600/30 rounded-full text-sm">
+                {WORKOUT_FORMAT_LABELS[format]}
+                {workSeconds !== undefined && phase === 'exercising' && ` ${formatClock(intervalTimer.time)}`}
+              </span>
+            )}
             <span className="px-3 py-1 bg-blue-600/30 rounded-full text-sm">
-              Set {currentSet + 1}/{totalSets}
+              {setLabel} {currentSet + 1}/{totalSets}
             </span>
           </div>
         </div>
 
         {/* Current Set Stats */}
-        <div className="grid grid-cols-4 gap-3 mb-4">
-          <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-            <div className="text-2xl font-bold text-white">{reps.length}</div>
-            <div className="text-xs text-gray-400">Reps</div>
-          </div>
-          <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-            <div className="text-2xl font-bold text-green-400">{validReps}</div>
-            <div className="text-xs text-gray-400">Valid</div>
-          </div>
-          <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-            <div className={`text-2xl font-bold ${avgFormScore >= 70 ? 'text-green-400' : 'text-yellow-400'}`}>
-              {Math.round(avgFormScore)}%
+        {isHold ? (
+          <div className="grid grid-cols-4 gap-3 mb-4">
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className={`text-2xl font-bold ${hold?.isHolding ? 'text-green-400' : 'text-white'}`}>
+                {heldSeconds}s
+              </div>
+              <div className="text-xs text-gray-400">Held</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-white">{targetHoldTime}s</div>
+              <div className="text-xs text-gray-400">Target</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className={`text-2xl font-bold ${holdBreakCount === 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+                {holdBreakCount}
+              </div>
+              <div className="text-xs text-gray-400">Breaks</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className={`text-2xl font-bold ${holdQuality >= 70 ? 'text-green-400' : 'text-yellow-400'}`}>
+                {Math.round(holdQuality)}%
+              </div>
+              <div className="text-xs text-gray-400">Form</div>
             </div>
-            <div className="text-xs text-gray-400">Form</div>
           </div>
-          <div className="bg-gray-700/50 rounded-lg p-3 text-center">
-            <div className="text-2xl font-bold text-blue-400">
-              {reps.length > 0 ? Math.round(reps.reduce((s, r) => s + r.rangeOfMotion, 0) / reps.length) : 0}%
+        ) : (
+          <div className="grid grid-cols-4 gap-3 mb-4">
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-white">{reps.length}</div>
+              <div className="text-xs text-gray-400">Reps</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-green-400">
+                {validReps}
+                {partialReps > 0 && <span className="text-base text-yellow-400"> +{partialReps}</span>}
+              </div>
+              <div className="text-xs text-gray-400">{partialReps > 0 ? 'Full + Partial' : 'Valid'}</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className={`text-2xl font-bold ${avgFormScore >= 70 ? 'text-green-400' : 'text-yellow-400'}`}>
+                {Math.round(avgFormScore)}%
+              </div>
+              <div className="text-xs text-gray-400">Form</div>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-blue-400">
+                {reps.length > 0 ? Math.round(reps.reduce((s, r) => s + r.rangeOfMotion, 0) / reps.length) : 0}%
+              </div>
+              <div className="text-xs text-gray-400">ROM</div>
             </div>
-            <div className="text-xs text-gray-400">ROM</div>
           </div>
-        </div>
+        )}
+
+        {/* Per-Side Counts */}
+        {isUnilateral && (
+          <div className="flex gap-3 mb-4">
+            {setSides.map((side) => (
+              <div key={side} className="flex-1 bg-gray-700/50 rounded-lg p-2 text-center text-sm">
+                <span className="text-gray-400">{SIDE_LABELS[side]} </span>
+                <span className="font-bold">{sideReps(side)}</span>
+                <span className="text-gray-500">/{targetReps}</span>
+              </div>
+            ))}
+          </div>
+        )}
 
         {/* Rep History */}
         {reps.length > 0 && (
@@ -408,18 +789,38 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
                 <div
                   key={index}
                   className={`flex-shrink-0 w-12 h-12 rounded-lg flex items-center justify-center ${
-                    rep.isValid ? 'bg-green-600/30' : 'bg-red-600/30'
-                  }`}
-                  title={`Rep ${rep.repNumber}: ${Math.round(rep.formScore)}% form`}
+                    rep.isValid ? 'bg-green-600/30' : rep.quality === 'partial' ? 'bg-yellow-600/30' : 'bg-red-600/30'
+                  } ${rep.offTempoPhases?.length ? 'ring-2 ring-yellow-400' : ''}`}
+                  title={`Rep ${rep.repNumber}${rep.side ? ` (${rep.side})` : ''}: ${Math.round(rep.formScore)}% form${
+                    rep.qualityReason ? `, ${REP_QUALITY_REASON_LABELS[rep.qualityReason].toLowerCase()}` : ''
+                  }${rep.tempo ? `, tempo ${formatTempo(rep.tempo)}` : ''}`}
                 >
                   {rep.isValid ? (
                     <CheckCircle className="w-5 h-5 text-green-400" />
+                  ) : rep.quality === 'partial' ? (
+                    <span className="text-xs font-bold text-yellow-400">{rep.partialDepth}%</span>
                   ) : (
                     <AlertTriangle className="w-5 h-5 text-red-400" />
                   )}
+                  {rep.side && (
+                    <span className="text-[10px] font-bold text-gray-300 ml-0.5">
+                      {SIDE_LABELS[rep.side][0]}
+                    </span>
+                  )}
                 </div>
               ))}
             </div>
+            {lastRep?.tempo && (
+              <div className="text-xs text-gray-400 mt-1">
+                Last rep tempo {formatTempo(lastRep.tempo)}s
+                {targetTempo && ` (target ${targetTempo})`}
+                {lastRep.offTempoPhases && lastRep.offTempoPhases.length > 0 && (
+                  <span className="text-yellow-400">
+                    {' '}• Off tempo: {lastRep.offTempoPhases.map(p => TEMPO_PHASE_LABELS[p]).join(', ')}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -449,7 +850,15 @@ const WorkoutDisplay: React.FC<WorkoutDisplayProps> = ({
               </button>
               <button
                 onClick={() => {
+                  if (isSetEndingRef.current) return;
+                  isSetEndingRef.current = true;
+                  intervalTimer.stop();
                   onSetComplete();
+                  if (isHold) {
+                    isHoldCompleteRef.current = true;
+                    speechService.announceHoldComplete(currentSet + 1, heldSeconds);
+                    return;
+                  }
                   const vr = reps.filter(r => r.isValid).length;
                   speechService.announceSetComplete(currentSet + 1, vr, reps.length);
                 }}
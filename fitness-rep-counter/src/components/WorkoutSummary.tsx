@@ -1,7 +1,36 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { WorkoutSession } from '../types';
-import { exercises } from '../data/exercises';
+import { getExerciseName } from '../data/exercises';
+import { getSessionExercises } from '../utils/workoutPlan';
+import {
+  DEFAULT_AMRAP_TIME_CAP,
+  formatClock,
+  getIntervalStats,
+  WORKOUT_FORMAT_LABELS,
+} from '../utils/intervals';
+import { formatRecordValue, PERSONAL_RECORD_LABELS } from '../utils/personalRecords';
+import { PROGRESSION_DECISION_LABELS } from '../utils/progression';
+import { getSetFatigue } from '../utils/fatigue';
+import { speechService } from '../services/speechService';
+import {
+  getSideImbalance,
+  getSideStats,
+  getWeakerSide,
+  IMBALANCE_WARNING_PERCENT,
+  SIDE_LABELS,
+} from '../utils/unilateral';
 import { format } from 'date-fns';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
 import {
   Trophy,
   Target,
@@ -14,20 +43,85 @@ import {
   Lightbulb,
   RefreshCw,
   Share2,
+  Hourglass,
+  AlertTriangle,
+  ArrowLeftRight,
+  AlarmClock,
+  Medal,
+  Rocket,
+  TrendingDown,
 } from 'lucide-react';
 
 interface WorkoutSummaryProps {
   session: WorkoutSession;
   onStartNew: () => void;
   onViewAnalytics: () => void;
+  onAcceptProgression: () => void;
 }
 
+// Line colors of the sets in the fatigue chart
+const SET_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444', '#06B6D4'];
+
+type FatigueMetric = 'velocityLoss' | 'formScore';
+
+const DECISION_COLORS = {
+  progress: 'bg-green-600/30 text-green-400',
+  maintain: 'bg-blue-600/30 text-blue-400',
+  deload: 'bg-orange-600/30 text-orange-400',
+};
+
 const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
   session,
   onStartNew,
   onViewAnalytics,
+  onAcceptProgression,
 }) => {
-  const exerciseData = exercises[session.exercise];
+  const exerciseName = getSessionExercises(session).map(getExerciseName).join(', ');
+  const isMultiExercise = session.exercises !== undefined;
+  const personalRecords = useMemo(() => session.personalRecords ?? [], [session.personalRecords]);
+  // Session whose records were already announced - they arrive after the
+  // summary opens, once the history has been checked
+  const announcedRecordsRef = useRef<string | null>(null);
+  const [acceptedSessionId, setAcceptedSessionId] = useState<string | null>(null);
+  const progression = session.suggestedProgression;
+  const [fatigueMetric, setFatigueMetric] = useState<FatigueMetric>('velocityLoss');
+
+  // Rep-by-rep fatigue of every set long enough to measure, as one chart
+  // row per rep with a column per set
+  const setFatigue = useMemo(
+    () =>
+      session.sets.flatMap((set, index) => {
+        const fatigue = getSetFatigue(set.reps);
+        if (!fatigue) return [];
+        const exercise = set.exercise ? `${getExerciseName(set.exercise)} ` : '';
+        return [{ key: `set${index}`, label: `${exercise}Set ${set.setNumber}`, fatigue }];
+      }),
+    [session.sets]
+  );
+  const fatigueChartData = useMemo(() => {
+    const maxReps = Math.max(0, ...setFatigue.map(({ fatigue }) => fatigue.curve.length));
+    return Array.from({ length: maxReps }, (_, index) => ({
+      rep: index + 1,
+      ...Object.fromEntries(
+        setFatigue.map(({ key, fatigue }) => [
+          key,
+          fatigue.curve[index] ? Math.round(fatigue.curve[index][fatigueMetric]) : undefined,
+        ])
+      ),
+    }));
+  }, [setFatigue, fatigueMetric]);
+
+  useEffect(() => {
+    if (personalRecords.length === 0 || announcedRecordsRef.current === session.id) return;
+    announcedRecordsRef.current = session.id;
+    speechService.announcePersonalRecords(
+      personalRecords.map((record) =>
+        isMultiExercise
+          ? `${getExerciseName(record.exercise)}, ${PERSONAL_RECORD_LABELS[record.type].toLowerCase()}`
+          : PERSONAL_RECORD_LABELS[record.type]
+      )
+    );
+  }, [session.id, personalRecords, isMultiExercise]);
   
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
@@ -47,9 +141,34 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
 
   const performance = getPerformanceGrade();
 
+  // Hold sessions are timed - they have no reps, ROM or tempo
+  const isHold = session.totalHoldTime !== undefined;
+  const totalHoldBreaks = session.sets.reduce((sum, s) => sum + (s.holdBreaks?.length ?? 0), 0);
+
+  // Unilateral sessions compare the two sides
+  const isUnilateral = session.totalLeftReps !== undefined;
+  const allReps = session.sets.flatMap((s) => s.reps);
+  const sideStats = {
+    left: getSideStats(allReps, 'left'),
+    right: getSideStats(allReps, 'right'),
+  };
+  const sideImbalance = getSideImbalance(session.totalLeftReps ?? 0, session.totalRightReps ?? 0);
+  const weakerSide = getWeakerSide(session.totalLeftReps ?? 0, session.totalRightReps ?? 0);
+
+  // EMOM, AMRAP and Tabata sessions are scored by their rounds
+  const intervalStats = getIntervalStats(session);
+
+  const offTempoReps = session.config.targetTempo
+    ? session.sets.flatMap((s) => s.reps).filter((r) => r.offTempoPhases?.length).length
+    : 0;
+
   const shareWorkout = async () => {
-    const shareText = `🏋️ Just completed a ${exerciseData.name} workout!\n` +
-      `✅ ${session.totalValidReps}/${session.totalReps} valid reps\n` +
+    const shareText = `🏋️ Just completed a ${exerciseName} workout!\n` +
+      (isHold
+        ? `✅ ${formatDuration(session.totalHoldTime ?? 0)} held\n`
+        : `✅ ${session.totalValidReps}/${session.totalReps} valid reps${
+            session.totalPartialReps ? ` (${session.totalPartialReps} partial)` : ''
+          }\n`) +
       `📊 ${Math.round(session.averageFormScore)}% form score\n` +
       `⏱️ ${formatDuration(session.totalDuration)}\n` +
       `#FitnessRepCounter #Workout`;
@@ -89,21 +208,66 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
           {performance.grade}
         </div>
         <div className="text-xl text-gray-300">{performance.message}</div>
-        <div className="text-sm text-gray-500 mt-1">{exerciseData.name}</div>
+        <div className="text-sm text-gray-500 mt-1">{exerciseName}</div>
       </div>
 
+      {/* Personal Records */}
+      {personalRecords.length > 0 && (
+        <div className="bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border border-yellow-500/50 rounded-xl p-4 mb-6">
+          <h3 className="font-semibold mb-3 flex items-center text-yellow-400">
+            <Medal className="w-5 h-5 mr-2" />
+            {personalRecords.length === 1 ? 'New Personal Record!' : `${personalRecords.length} New Personal Records!`}
+          </h3>
+          <div className="space-y-2">
+            {personalRecords.map((record) => (
+              <div key={`${record.exercise}-${record.type}`} className="flex justify-between text-sm">
+                <span className="text-gray-300">
+                  {isMultiExercise && `${getExerciseName(record.exercise)} • `}
+                  {PERSONAL_RECORD_LABELS[record.type]}
+                </span>
+                <span className="font-medium">
+                  {formatRecordValue(record.type, record.value)}
+                  {record.previous !== undefined && (
+                    <span className="text-gray-500 font-normal">
+                      {' '}(was {formatRecordValue(record.type, record.previous)})
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Key Stats */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-        <div className="bg-gray-800/50 rounded-xl p-4 text-center">
-          <Target className="w-6 h-6 mx-auto mb-2 text-blue-400" />
-          <div className="text-2xl font-bold">{session.totalReps}</div>
-          <div className="text-xs text-gray-400">Total Reps</div>
-        </div>
-        <div className="bg-gray-800/50 rounded-xl p-4 text-center">
-          <CheckCircle className="w-6 h-6 mx-auto mb-2 text-green-400" />
-          <div className="text-2xl font-bold text-green-400">{session.totalValidReps}</div>
-          <div className="text-xs text-gray-400">Valid Reps</div>
-        </div>
+        {isHold ? (
+          <>
+            <div className="bg-gray-800/50 rounded-xl p-4 text-center">
+              <Hourglass className="w-6 h-6 mx-auto mb-2 text-blue-400" />
+              <div className="text-2xl font-bold">{formatDuration(session.totalHoldTime ?? 0)}</div>
+              <div className="text-xs text-gray-400">Hold Time</div>
+            </div>
+            <div className="bg-gray-800/50 rounded-xl p-4 text-center">
+              <AlertTriangle className="w-6 h-6 mx-auto mb-2 text-yellow-400" />
+              <div className="text-2xl font-bold text-yellow-400">{totalHoldBreaks}</div>
+              <div className="text-xs text-gray-400">Breaks</div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="bg-gray-800/50 rounded-xl p-4 text-center">
+              <Target className="w-6 h-6 mx-auto mb-2 text-blue-400" />
+              <div className="text-2xl font-bold">{session.totalReps}</div>
+              <div className="text-xs text-gray-400">Total Reps</div>
+            </div>
+            <div className="bg-gray-800/50 rounded-xl p-4 text-center">
+              <CheckCircle className="w-6 h-6 mx-auto mb-2 text-green-400" />
+              <div className="text-2xl font-bold text-green-400">{session.totalValidReps}</div>
+              <div className="text-xs text-gray-400">Valid Reps</div>
+            </div>
+          </>
+        )}
         <div className="bg-gray-800/50 rounded-xl p-4 text-center">
           <Clock className="w-6 h-6 mx-auto mb-2 text-purple-400" />
           <div className="text-2xl font-bold">{formatDuration(session.totalDuration)}</div>
@@ -139,44 +303,243 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
           </div>
 
           {/* Range of Motion */}
-          <div>
-            <div className="flex justify-between text-sm mb-1">
-              <span className="text-gray-400">Range of Motion</span>
-              <span className="font-medium">{Math.round(session.averageROM)}%</span>
-            </div>
-            <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full transition-all"
-                style={{ width: `${session.averageROM}%` }}
-              />
+          {!isHold && (
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-gray-400">Range of Motion</span>
+                <span className="font-medium">{Math.round(session.averageROM)}%</span>
+              </div>
+              <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full transition-all"
+                  style={{ width: `${session.averageROM}%` }}
+                />
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Valid Rep Ratio */}
-          <div>
-            <div className="flex justify-between text-sm mb-1">
-              <span className="text-gray-400">Valid Rep Rate</span>
-              <span className="font-medium">
-                {session.totalReps > 0
-                  ? Math.round((session.totalValidReps / session.totalReps) * 100)
-                  : 0}%
+          {!isHold && (
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-gray-400">Valid Rep Rate</span>
+                <span className="font-medium">
+                  {session.totalReps > 0
+                    ? Math.round((session.totalValidReps / session.totalReps) * 100)
+                    : 0}%
+                </span>
+              </div>
+              <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-green-500 to-emerald-500 rounded-full transition-all"
+                  style={{
+                    width: `${
+                      session.totalReps > 0
+                        ? (session.totalValidReps / session.totalReps) * 100
+                        : 0
+                    }%`,
+                  }}
+                />
+              </div>
+              {!!session.totalPartialReps && (
+                <div className="text-xs text-yellow-400 mt-1">
+                  {session.totalPartialReps} partial rep{session.totalPartialReps === 1 ? '' : 's'} not counted as valid
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Time Under Tension */}
+          {!isHold && session.totalTimeUnderTension !== undefined && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-400">Time Under Tension</span>
+              <span className="font-medium">{formatDuration(session.totalTimeUnderTension)}</span>
+            </div>
+          )}
+
+          {/* Target Tempo */}
+          {session.config.targetTempo && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-400">Target Tempo ({session.config.targetTempo})</span>
+              <span className={`font-medium ${offTempoReps > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                {offTempoReps > 0 ? `${offTempoReps} reps off tempo` : 'All reps on tempo'}
               </span>
             </div>
-            <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-gradient-to-r from-green-500 to-emerald-500 rounded-full transition-all"
-                style={{
-                  width: `${
-                    session.totalReps > 0
-                      ? (session.totalValidReps / session.totalReps) * 100
-                      : 0
-                  }%`,
+          )}
+        </div>
+      </div>
+
+      {/* Interval Results */}
+      {intervalStats && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+          <h3 className="font-semibold mb-4 flex items-center">
+            <AlarmClock className="w-5 h-5 mr-2 text-orange-400" />
+            {WORKOUT_FORMAT_LABELS[intervalStats.format]} Results
+          </h3>
+
+          <div className="grid grid-cols-3 gap-4 text-center">
+            {intervalStats.format === 'emom' && (
+              <div>
+                <div className="text-2xl font-bold">
+                  {intervalStats.completedRounds}
+                  <span className="text-gray-500 text-base">/{intervalStats.rounds}</span>
+                </div>
+                <div className="text-xs text-gray-400">Minutes on Target</div>
+              </div>
+            )}
+            {intervalStats.format === 'amrap' && (
+              <div>
+                <div className="text-2xl font-bold">{formatClock(session.config.timeCap ?? DEFAULT_AMRAP_TIME_CAP)}</div>
+                <div className="text-xs text-gray-400">Time Cap</div>
+              </div>
+            )}
+            {intervalStats.format === 'tabata' && (
+              <div>
+                <div className="text-2xl font-bold text-orange-400">{intervalStats.lowestRoundReps}</div>
+                <div className="text-xs text-gray-400">Score (Lowest Round)</div>
+              </div>
+            )}
+            <div>
+              <div className="text-2xl font-bold">{intervalStats.repsPerMinute.toFixed(1)}</div>
+              <div className="text-xs text-gray-400">Valid Reps / Min</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">
+                {intervalStats.format === 'amrap' ? intervalStats.totalValidReps : intervalStats.bestRoundReps}
+              </div>
+              <div className="text-xs text-gray-400">
+                {intervalStats.format === 'amrap'
+                  ? 'Valid Reps'
+                  : intervalStats.format === 'emom' ? 'Best Minute' : 'Best Round'}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Fatigue */}
+      {setFatigue.length > 0 && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold flex items-center">
+              <TrendingDown className="w-5 h-5 mr-2 text-red-400" />
+              Fatigue by Set
+            </h3>
+            <div className="flex gap-1 text-xs">
+              {([
+                ['velocityLoss', 'Velocity Loss'],
+                ['formScore', 'Form Score'],
+              ] as const).map(([metric, label]) => (
+                <button
+                  key={metric}
+                  onClick={() => setFatigueMetric(metric)}
+                  className={`px-3 py-1 rounded-full transition-colors ${
+                    fatigueMetric === metric ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={fatigueChartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="rep" stroke="#9CA3AF" fontSize={12} />
+              <YAxis stroke="#9CA3AF" fontSize={12} unit="%" domain={fatigueMetric === 'formScore' ? [0, 100] : [0, 'auto']} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1F2937',
+                  border: 'none',
+                  borderRadius: '8px',
                 }}
+                labelFormatter={(rep) => `Rep ${rep}`}
               />
-            </div>
+              <Legend />
+              {fatigueMetric === 'velocityLoss' && session.config.velocityLossLimit && (
+                <ReferenceLine y={session.config.velocityLossLimit} stroke="#EF4444" strokeDasharray="4 4" />
+              )}
+              {setFatigue.map(({ key, label }, index) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={label}
+                  stroke={SET_COLORS[index % SET_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="space-y-1 mt-3 text-sm">
+            {setFatigue.map(({ key, label, fatigue }) => (
+              <div key={key} className="flex justify-between">
+                <span className="text-gray-400">{label}</span>
+                <span>
+                  <span
+                    className={
+                      session.config.velocityLossLimit && fatigue.velocityLoss >= session.config.velocityLossLimit
+                        ? 'text-red-400'
+                        : ''
+                    }
+                  >
+                    {Math.round(fatigue.velocityLoss)}% slower
+                  </span>
+                  <span className="text-gray-500">
+                    {' • '}form {fatigue.formDecay > 0 ? '-' : '+'}{Math.abs(Math.round(fatigue.formDecay))}
+                  </span>
+                </span>
+              </div>
+            ))}
           </div>
         </div>
-      </div>
+      )}
+
+      {/* Left / Right Balance */}
+      {isUnilateral && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+          <h3 className="font-semibold mb-4 flex items-center">
+            <ArrowLeftRight className="w-5 h-5 mr-2 text-purple-400" />
+            Left / Right Balance
+          </h3>
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            {(['left', 'right'] as const).map((side) => (
+              <div
+                key={side}
+                className={`bg-gray-700/30 rounded-lg p-3 text-center ${
+                  weakerSide === side ? 'ring-2 ring-yellow-400' : ''
+                }`}
+              >
+                <div className="text-sm text-gray-400 mb-1">{SIDE_LABELS[side]}</div>
+                <div className="text-2xl font-bold">
+                  {sideStats[side].validReps}
+                  <span className="text-gray-500 text-base">/{sideStats[side].reps}</span>
+                </div>
+                <div className="text-xs text-gray-400">
+                  valid reps • {Math.round(sideStats[side].formScore)}% form
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Imbalance</span>
+            <span
+              className={`font-medium ${
+                sideImbalance >= IMBALANCE_WARNING_PERCENT ? 'text-yellow-400' : 'text-green-400'
+              }`}
+            >
+              {Math.round(sideImbalance)}%
+              {weakerSide && ` - ${SIDE_LABELS[weakerSide].toLowerCase()} side weaker`}
+            </span>
+          </div>
+        </div>
+      )}
 
       {/* Set Breakdown */}
       <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
@@ -197,15 +560,33 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
                 </span>
                 <div>
                   <div className="font-medium">
-                    {set.validReps}/{set.totalReps} reps
+                    {set.exercise && `${getExerciseName(set.exercise)} • `}
+                    {set.holdTime !== undefined
+                      ? `${formatDuration(set.holdTime)} held`
+                      : `${set.validReps}/${set.totalReps} reps${set.partialReps ? ` (${set.partialReps} partial)` : ''}`}
+                    {set.side && ` • ${SIDE_LABELS[set.side]}`}
                   </div>
                   <div className="text-xs text-gray-400">
                     {formatDuration(set.duration)} • {Math.round(set.averageFormScore)}% form
+                    {set.holdBreaks && ` • ${set.holdBreaks.length} breaks`}
+                    {!set.side && set.leftReps !== undefined &&
+                      ` • L ${set.leftReps} / R ${set.rightReps ?? 0}`}
+                    {set.holdTime === undefined && set.timeUnderTension !== undefined &&
+                      ` • ${formatDuration(set.timeUnderTension)} under tension`}
                   </div>
                 </div>
               </div>
               <div className="flex items-center gap-1">
-                {set.validReps === set.totalReps ? (
+                {set.holdBreaks ? (
+                  set.holdBreaks.length === 0 ? (
+                    <CheckCircle className="w-5 h-5 text-green-400" />
+                  ) : (
+                    <span className="text-sm text-gray-400">
+                      <XCircle className="w-4 h-4 inline text-red-400" />
+                      {set.holdBreaks.length}
+                    </span>
+                  )
+                ) : set.validReps === set.totalReps ? (
                   <CheckCircle className="w-5 h-5 text-green-400" />
                 ) : (
                   <span className="text-sm text-gray-400">
@@ -219,6 +600,65 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
         </div>
       </div>
 
+      {/* Next Session */}
+      {progression && (
+        <div className="bg-gray-800/50 rounded-xl p-4 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold flex items-center">
+              <Rocket className="w-5 h-5 mr-2 text-green-400" />
+              Next Session
+            </h3>
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${DECISION_COLORS[progression.decision]}`}>
+              {PROGRESSION_DECISION_LABELS[progression.decision]}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 text-center mb-4">
+            {([
+              ['Sets', session.config.sets, progression.config.sets, ''],
+              ['Reps', session.config.targetReps, progression.config.targetReps, ''],
+              ['Rest', session.config.restPeriod, progression.config.restPeriod, 's'],
+            ] as const).map(([label, current, next, unit]) => (
+              <div key={label}>
+                <div className="text-2xl font-bold">
+                  {next}{unit}
+                  {next !== current && (
+                    <span className={`text-sm ml-1 ${next > current ? 'text-green-400' : 'text-orange-400'}`}>
+                      {next > current ? '+' : ''}{next - current}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-400">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          <ul className="space-y-1 mb-4 text-sm text-gray-300">
+            {progression.reasons.map((reason) => (
+              <li key={reason}>• {reason}</li>
+            ))}
+          </ul>
+
+          <button
+            onClick={() => {
+              onAcceptProgression();
+              setAcceptedSessionId(session.id);
+            }}
+            disabled={acceptedSessionId === session.id}
+            className="w-full py-3 bg-green-600 rounded-xl font-medium hover:bg-green-700 transition-colors disabled:opacity-60 disabled:cursor-default"
+          >
+            {acceptedSessionId === session.id ? (
+              <>
+                <CheckCircle className="inline-block w-5 h-5 mr-2" />
+                Set for Next Workout
+              </>
+            ) : (
+              'Use for Next Workout'
+            )}
+          </button>
+        </div>
+      )}
+
       {/* Recommendations */}
       <div className="bg-gradient-to-r from-blue-900/50 to-purple-900/50 rounded-xl p-4 mb-6">
         <h3 className="font-semibold mb-4 flex items-center">
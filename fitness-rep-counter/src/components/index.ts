@@ -5,3 +5,9 @@ export { default as WorkoutDisplay } from './WorkoutDisplay';
 export { default as WorkoutSummary } from './WorkoutSummary';
 export { default as AnalyticsDashboard } from './AnalyticsDashboard';
 export { default as VideoAnalyzer } from './VideoAnalyzer';
+export { default as BackupRestore } from './BackupRestore';
+export { default as TodayWorkout } from './TodayWorkout';
+export { default as TemplateLibrary } from './TemplateLibrary';
+export { default as ProgramPlanner } from './ProgramPlanner';
+export { default as PersonalRecordsPanel } from './PersonalRecordsPanel';
+export { default as CalibrationWizard } from './CalibrationWizard';
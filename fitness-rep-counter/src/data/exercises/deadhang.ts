@@ -0,0 +1,46 @@
+import { ExerciseDefinition } from '../../types';
+
+// Least elbow extension still counted as hanging on straight arms
+const MIN_ELBOW_ANGLE = 150;
+
+export const deadhang: ExerciseDefinition = {
+  id: 'deadhang',
+  name: 'Dead Hang',
+  description: 'Isometric grip and shoulder hold hanging from a bar on straight arms.',
+  targetMuscles: ['Forearms', 'Lats', 'Shoulders'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Grip the bar slightly wider than shoulder width',
+    'Hang with arms fully straight',
+    'Keep the feet off the ground',
+    'Relax the lower body and avoid swinging',
+    'Breathe steadily throughout the hold'
+  ],
+  // Elbow angle
+  primaryJoint: ['shoulder', 'elbow', 'wrist'],
+  startPhase: 'down',
+  thresholds: {
+    upAngle: 180,
+    downAngle: MIN_ELBOW_ANGLE,
+    minROM: 0,
+  },
+  hold: {
+    isHeld: ({ angle, getKeypoint }) => {
+      const shoulder = getKeypoint('rightShoulder') || getKeypoint('leftShoulder');
+      const wrist = getKeypoint('rightWrist') || getKeypoint('leftWrist');
+      if (!shoulder || !wrist) return false;
+
+      // Hands overhead on the bar, arms straight
+      return wrist.y < shoulder.y && angle >= MIN_ELBOW_ANGLE;
+    },
+    breakIssue: {
+      type: 'deadHangBreak',
+      severity: 'moderate',
+      message: 'Hold broken - hang on straight arms.',
+      recommendation: 'Build grip endurance with shorter hangs spread through the day.',
+    },
+  },
+  recognition: {
+    postures: ['hanging'],
+  },
+};
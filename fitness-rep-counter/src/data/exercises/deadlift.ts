@@ -0,0 +1,59 @@
+import { ExerciseDefinition } from '../../types';
+
+export const deadlift: ExerciseDefinition = {
+  id: 'deadlift',
+  name: 'Deadlift',
+  description: 'Compound exercise for posterior chain development.',
+  targetMuscles: ['Lower Back', 'Glutes', 'Hamstrings', 'Traps', 'Forearms'],
+  difficulty: 'intermediate',
+  keyPoints: [
+    'Bar over mid-foot, feet hip-width apart',
+    'Hinge at hips, keep back flat',
+    'Grip bar just outside knees',
+    'Drive through heels, keep bar close to body',
+    'Lock out hips and knees at top'
+  ],
+  // Hip angle
+  primaryJoint: ['shoulder', 'hip', 'knee'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: 170, // Standing (hip angle)
+    downAngle: 90, // Bent over
+    minROM: 75,
+    idealSpineAngle: 10, // Near vertical spine at top
+  },
+  // A loaded hinge is never this quick - faster cycles are bending noise
+  debounce: { minRepMs: 800 },
+  formRules: [
+    // Check for rounded back
+    ({ getKeypoint }) => {
+      const nose = getKeypoint('nose');
+      const shoulder = getKeypoint('leftShoulder') || getKeypoint('rightShoulder');
+      const hip = getKeypoint('leftHip') || getKeypoint('rightHip');
+      if (!nose || !shoulder || !hip) return null;
+
+      const spineAngle = Math.abs(
+        Math.atan2(hip.y - shoulder.y, hip.x - shoulder.x) * (180 / Math.PI)
+      );
+      if (spineAngle >= 60 && spineAngle <= 120) return null;
+      return {
+        type: 'roundedBack',
+        severity: 'major',
+        message: 'Keep spine neutral',
+        recommendation: 'Maintain flat back throughout the lift',
+      };
+    },
+  ],
+  formScorePenalty: (_keypoints, angles) => {
+    // Check spine angle
+    return angles.spine && angles.spine > 20 ? (angles.spine - 20) * 0.5 : 0;
+  },
+  recommendations: () => [
+    'Always prioritize a neutral spine. Consider using lighter weight if form breaks down.',
+  ],
+  recognition: {
+    postures: ['upright', 'bent'],
+    stances: ['level'],
+    stillJoints: ['knee'],
+  },
+};
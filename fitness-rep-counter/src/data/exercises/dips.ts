@@ -0,0 +1,28 @@
+import { ExerciseDefinition } from '../../types';
+
+export const dips: ExerciseDefinition = {
+  id: 'dips',
+  name: 'Dips',
+  description: 'Upper body pushing exercise for chest and triceps.',
+  targetMuscles: ['Chest', 'Triceps', 'Shoulders'],
+  difficulty: 'intermediate',
+  keyPoints: [
+    'Start with arms fully extended',
+    'Lower until upper arms are parallel to ground',
+    'Keep elbows close to body for triceps focus',
+    'Lean forward slightly for chest emphasis',
+    'Push up to full extension'
+  ],
+  // Elbow angle
+  primaryJoint: ['shoulder', 'elbow', 'wrist'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: 170, // Arms extended
+    downAngle: 90, // Arms bent
+    minROM: 70,
+  },
+  recognition: {
+    postures: ['upright'],
+    stillJoints: ['knee'],
+  },
+};
@@ -0,0 +1,84 @@
+import { Exercise, ExerciseDefinition, ExerciseType } from '../../types';
+import { pushups } from './pushups';
+import { pullups } from './pullups';
+import { situps } from './situps';
+import { squats } from './squats';
+import { deadlift } from './deadlift';
+import { muscleup } from './muscleup';
+import { dips } from './dips';
+import { plank } from './plank';
+import { wallsit } from './wallsit';
+import { lsit } from './lsit';
+import { deadhang } from './deadhang';
+import { lunges } from './lunges';
+import { singlearmrows } from './singlearmrows';
+import { pistolsquats } from './pistolsquats';
+import { stepups } from './stepups';
+
+// Exercise registry - every movement the app can detect is one
+// self-contained definition. To add a movement, create a definition
+// file next to this one and add it to `builtInExercises`.
+const registry = new Map<ExerciseType, ExerciseDefinition>();
+
+export const registerExercise = (definition: ExerciseDefinition): void => {
+  if (registry.has(definition.id)) {
+    console.warn(`Exercise "${definition.id}" is already registered - replacing it`);
+  }
+  registry.set(definition.id, definition);
+};
+
+const builtInExercises: ExerciseDefinition[] = [
+  pushups,
+  pullups,
+  situps,
+  squats,
+  deadlift,
+  muscleup,
+  dips,
+  plank,
+  wallsit,
+  lsit,
+  deadhang,
+  lunges,
+  singlearmrows,
+  pistolsquats,
+  stepups,
+];
+
+builtInExercises.forEach(registerExercise);
+
+export const isRegisteredExercise = (type: ExerciseType): boolean => {
+  return registry.has(type);
+};
+
+export const getExerciseDefinition = (type: ExerciseType): ExerciseDefinition => {
+  const definition = registry.get(type);
+  if (!definition) {
+    throw new Error(`Unknown exercise: ${type}`);
+  }
+  return definition;
+};
+
+export const getExercise = (type: ExerciseType): Exercise => {
+  return getExerciseDefinition(type);
+};
+
+export const getExerciseList = (): Exercise[] => {
+  return Array.from(registry.values());
+};
+
+// Display name that tolerates history entries for exercises
+// that are no longer registered
+export const getExerciseName = (type: ExerciseType): string => {
+  return registry.get(type)?.name ?? type;
+};
+
+// Hold exercises are timed instead of counting reps
+export const isHoldExercise = (type: ExerciseType): boolean => {
+  return registry.get(type)?.hold !== undefined;
+};
+
+// Unilateral exercises count each side separately
+export const isUnilateralExercise = (type: ExerciseType): boolean => {
+  return registry.get(type)?.unilateral !== undefined;
+};
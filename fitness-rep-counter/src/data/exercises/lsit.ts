@@ -0,0 +1,66 @@
+import { ExerciseDefinition } from '../../types';
+import { calculateAngle } from '../../utils/angleCalculations';
+
+// Hip angle window around legs held horizontal
+const MIN_HIP_ANGLE = 65;
+const MAX_HIP_ANGLE = 115;
+// Arms and knees count as straight above this angle
+const STRAIGHT_LIMB_ANGLE = 150;
+
+export const lsit: ExerciseDefinition = {
+  id: 'lsit',
+  name: 'L-Sit',
+  description: 'Advanced isometric hold supporting the body on straight arms with legs held out in front.',
+  targetMuscles: ['Core', 'Hip Flexors', 'Triceps', 'Shoulders'],
+  difficulty: 'advanced',
+  keyPoints: [
+    'Lock the arms and push the shoulders down',
+    'Lift the legs to hip height',
+    'Keep the knees straight and toes pointed',
+    'Keep the hips off the ground',
+    'Breathe steadily throughout the hold'
+  ],
+  // Hip angle between torso and legs
+  primaryJoint: ['shoulder', 'hip', 'knee'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: MAX_HIP_ANGLE,
+    downAngle: MIN_HIP_ANGLE,
+    minROM: 0,
+  },
+  hold: {
+    isHeld: ({ angle, getKeypoint }) => {
+      if (angle < MIN_HIP_ANGLE || angle > MAX_HIP_ANGLE) return false;
+
+      for (const side of ['right', 'left'] as const) {
+        const shoulder = getKeypoint(`${side}Shoulder`);
+        const elbow = getKeypoint(`${side}Elbow`);
+        const wrist = getKeypoint(`${side}Wrist`);
+        const hip = getKeypoint(`${side}Hip`);
+        const knee = getKeypoint(`${side}Knee`);
+        const ankle = getKeypoint(`${side}Ankle`);
+        if (!shoulder || !elbow || !wrist || !hip || !knee || !ankle) continue;
+
+        // Straight arms supporting the body and straight legs
+        return (
+          calculateAngle(shoulder, elbow, wrist) > STRAIGHT_LIMB_ANGLE &&
+          calculateAngle(hip, knee, ankle) > STRAIGHT_LIMB_ANGLE
+        );
+      }
+      return false;
+    },
+    breakIssue: {
+      type: 'lSitBreak',
+      severity: 'moderate',
+      message: 'Hold broken - lock your arms and lift your legs back up.',
+      recommendation: 'Try a tuck L-sit if straight legs drop too early.',
+    },
+  },
+  recognition: {
+    postures: ['upright'],
+    jointAngles: {
+      elbow: [STRAIGHT_LIMB_ANGLE, 180],
+      knee: [STRAIGHT_LIMB_ANGLE, 180],
+    },
+  },
+};
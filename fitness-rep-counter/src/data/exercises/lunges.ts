@@ -0,0 +1,69 @@
+import { BodySide, ExerciseDefinition } from '../../types';
+
+// Shin angle from vertical (degrees) that tells the front leg from the back leg
+const MIN_SHIN_LEAN_DIFFERENCE = 25;
+// How far the shoulders may drift past the hips, in torso lengths
+const MAX_TORSO_LEAN = 0.65;
+
+export const lunges: ExerciseDefinition = {
+  id: 'lunges',
+  name: 'Lunges',
+  description: 'Single-leg lower body exercise stepping forward into a split stance.',
+  targetMuscles: ['Quadriceps', 'Glutes', 'Hamstrings', 'Adductors'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Step forward far enough for both knees to reach 90 degrees',
+    'Front shin stays close to vertical',
+    'Lower the back knee toward the floor',
+    'Keep the torso upright',
+    'Drive through the front heel to return'
+  ],
+  // Knee angle of the front leg
+  primaryJoint: ['hip', 'knee', 'ankle'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: 160, // Standing tall
+    downAngle: 100, // Front thigh near parallel
+    minROM: 70,
+  },
+  unilateral: {
+    // The front shin stays near vertical while the back shin tilts toward the floor
+    getWorkingSide: ({ getKeypoint }) => {
+      const shinLean = (side: BodySide) => {
+        const knee = getKeypoint(`${side}Knee`);
+        const ankle = getKeypoint(`${side}Ankle`);
+        if (!knee || !ankle) return null;
+        return (Math.atan2(Math.abs(ankle.x - knee.x), Math.abs(ankle.y - knee.y)) * 180) / Math.PI;
+      };
+      const left = shinLean('left');
+      const right = shinLean('right');
+      if (left === null || right === null) return null;
+      if (Math.abs(left - right) < MIN_SHIN_LEAN_DIFFERENCE) return null;
+      return left < right ? 'left' : 'right';
+    },
+  },
+  formRules: [
+    // Check torso lean
+    ({ getKeypoint, bodyScale }) => {
+      const shoulder = getKeypoint('leftShoulder') || getKeypoint('rightShoulder');
+      const hip = getKeypoint('leftHip') || getKeypoint('rightHip');
+      if (!shoulder || !hip || !bodyScale) return null;
+
+      if (Math.abs(shoulder.x - hip.x) <= bodyScale * MAX_TORSO_LEAN) return null;
+      return {
+        type: 'torsoLean',
+        severity: 'moderate',
+        message: 'Torso leaning too far',
+        recommendation: 'Keep your chest up and hips under your shoulders',
+      };
+    },
+  ],
+  recommendations: ({ avgROM }) =>
+    avgROM < 80
+      ? ['Take a longer step and lower the back knee closer to the floor.']
+      : [],
+  recognition: {
+    postures: ['upright'],
+    stances: ['split'],
+  },
+};
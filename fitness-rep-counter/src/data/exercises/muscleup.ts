@@ -0,0 +1,99 @@
+import { ExerciseDefinition, RepStageContext } from '../../types';
+
+const PULL_PHASE_UP = 60; // Elbows bent at the top of the pull
+const PULL_PHASE_DOWN = 160; // Arms extended in the hang
+const PUSH_PHASE_UP = 170; // Arms locked out above the bar
+
+/**
+ * How far the shoulders are above the wrists, as a fraction of torso length.
+ * Positive once the chest has cleared the bar (hands below the shoulders);
+ * null when the keypoints are not visible.
+ */
+const getShoulderClearance = ({ getKeypoint, bodyScale }: RepStageContext): number | null => {
+  const shoulder = getKeypoint('rightShoulder') || getKeypoint('leftShoulder');
+  const wrist = getKeypoint('rightWrist') || getKeypoint('leftWrist');
+  if (!shoulder || !wrist || !bodyScale) return null;
+
+  return (wrist.y - shoulder.y) / bodyScale;
+};
+
+// Shoulders must be clearly over the hands - a chest-to-bar pull-up
+// brings them level with the bar, not above it
+const MIN_TRANSITION_CLEARANCE = 0.25;
+
+const isAboveBar = (context: RepStageContext): boolean => {
+  const clearance = getShoulderClearance(context);
+  return clearance !== null && clearance > MIN_TRANSITION_CLEARANCE;
+};
+
+export const muscleup: ExerciseDefinition = {
+  id: 'muscleup',
+  name: 'Muscle-Up',
+  description: 'Advanced calisthenics movement combining pull-up and dip.',
+  targetMuscles: ['Lats', 'Chest', 'Triceps', 'Shoulders', 'Core'],
+  difficulty: 'advanced',
+  keyPoints: [
+    'Start with explosive pull-up',
+    'Pull bar to lower chest/upper abs',
+    'Transition by rotating wrists over bar',
+    'Push up to full arm extension',
+    'Control the descent through both phases'
+  ],
+  // Elbow angle - bends through the pull, extends again through the dip
+  primaryJoint: ['shoulder', 'elbow', 'wrist'],
+  startPhase: 'down',
+  thresholds: {
+    upAngle: PULL_PHASE_UP,
+    downAngle: PULL_PHASE_DOWN,
+    minROM: 85,
+    pullPhaseUp: PULL_PHASE_UP,
+    pullPhaseDown: PULL_PHASE_DOWN,
+    pushPhaseUp: PUSH_PHASE_UP,
+    pushPhaseDown: 90,
+  },
+  // Pull, transition and dip take well over a second together
+  debounce: { minRepMs: 1200 },
+  // Pull phase -> transition over the bar -> dip lockout
+  stagedRep: {
+    stages: [
+      {
+        name: 'pull',
+        isReached: ({ angle }) => angle < PULL_PHASE_UP,
+        failureIssue: {
+          type: 'incompletePull',
+          severity: 'major',
+          message: 'No rep. Pull higher before the transition.',
+          recommendation: 'Pull explosively until the bar reaches your lower chest.',
+        },
+      },
+      {
+        name: 'transition',
+        isReached: isAboveBar,
+        failureIssue: {
+          type: 'failedTransition',
+          severity: 'major',
+          message: 'No rep. Failed transition - get your chest over the bar.',
+          recommendation: 'Pull the bar to your hips and rotate your wrists over it quickly.',
+        },
+      },
+      {
+        name: 'lockout',
+        isReached: (context) => context.angle > PUSH_PHASE_UP && isAboveBar(context),
+        failureIssue: {
+          type: 'noLockout',
+          severity: 'major',
+          message: 'No rep. Lock out your arms at the top.',
+          recommendation: 'Press through the dip until your arms are fully straight.',
+        },
+      },
+    ],
+    // Dead hang below the bar
+    isAtStart: (context) => {
+      const clearance = getShoulderClearance(context);
+      return context.angle > PULL_PHASE_DOWN && clearance !== null && clearance < 0;
+    },
+  },
+  recognition: {
+    postures: ['hanging', 'upright'],
+  },
+};
@@ -0,0 +1,69 @@
+import { ExerciseDefinition } from '../../types';
+
+// How much more the standing knee bends than the extended free leg
+const MIN_KNEE_BEND_DIFFERENCE = 20;
+// How far the standing knee may drift off the hip-ankle line, in torso lengths
+const MAX_KNEE_DRIFT = 0.33;
+
+export const pistolsquats: ExerciseDefinition = {
+  id: 'pistolsquats',
+  name: 'Pistol Squats',
+  description: 'Single-leg squat with the free leg held out in front.',
+  targetMuscles: ['Quadriceps', 'Glutes', 'Hamstrings', 'Core'],
+  difficulty: 'advanced',
+  keyPoints: [
+    'Stand on one leg with the other extended forward',
+    'Sit back and down until the hip is below the knee',
+    'Keep the standing heel on the ground',
+    'Keep the free leg off the floor',
+    'Stand up without bouncing'
+  ],
+  // Knee angle of the standing leg
+  primaryJoint: ['hip', 'knee', 'ankle'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: 165, // Standing
+    downAngle: 70, // Bottom of the pistol
+    minROM: 75,
+  },
+  // Nobody balances through a full pistol in under a second
+  debounce: { minRepMs: 1000 },
+  unilateral: {
+    // The free leg stays straight while the standing leg bends
+    getWorkingSide: ({ getSideAngle }) => {
+      const left = getSideAngle('left');
+      const right = getSideAngle('right');
+      if (left === null || right === null) return null;
+      if (Math.abs(left - right) < MIN_KNEE_BEND_DIFFERENCE) return null;
+      return left < right ? 'left' : 'right';
+    },
+  },
+  formRules: [
+    // Check knee cave on the standing leg
+    ({ getKeypoint, side, bodyScale }) => {
+      if (!side) return null;
+      const hip = getKeypoint(`${side}Hip`);
+      const knee = getKeypoint(`${side}Knee`);
+      const ankle = getKeypoint(`${side}Ankle`);
+      if (!hip || !knee || !ankle || !bodyScale) return null;
+
+      // Knee drifting inside the hip-ankle line
+      const lineX = hip.x + ((ankle.x - hip.x) * (knee.y - hip.y)) / (ankle.y - hip.y || 1);
+      if (Math.abs(knee.x - lineX) <= bodyScale * MAX_KNEE_DRIFT) return null;
+      return {
+        type: 'kneeCave',
+        severity: 'moderate',
+        message: 'Standing knee drifting sideways',
+        recommendation: 'Track the knee over the middle of the foot',
+      };
+    },
+  ],
+  recommendations: ({ avgROM }) =>
+    avgROM < 80
+      ? ['Work toward full depth - use a box or counterweight to practice the bottom position.']
+      : [],
+  recognition: {
+    postures: ['upright', 'bent'],
+    stances: ['raised'],
+  },
+};
@@ -0,0 +1,55 @@
+import { ExerciseDefinition } from '../../types';
+import { checkBodyAlignment, detectHipSag } from '../../utils/angleCalculations';
+
+const MIN_ALIGNMENT_SCORE = 70; // Within 15 degrees of a straight line
+
+export const plank: ExerciseDefinition = {
+  id: 'plank',
+  name: 'Plank',
+  description: 'Isometric core hold in a straight line from shoulders to ankles.',
+  targetMuscles: ['Core', 'Shoulders', 'Glutes'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Forearms or hands directly under the shoulders',
+    'Keep a straight line from head to heels',
+    'Squeeze glutes and brace the core',
+    'Do not let the hips sag or pike up',
+    'Breathe steadily throughout the hold'
+  ],
+  // Body line at the hip
+  primaryJoint: ['shoulder', 'hip', 'ankle'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: 180, // Perfectly straight
+    downAngle: 165, // Most bend still counted as a plank
+    minROM: 0,
+  },
+  hold: {
+    isHeld: ({ keypoints, getKeypoint }) => {
+      const shoulder = getKeypoint('rightShoulder') || getKeypoint('leftShoulder');
+      const ankle = getKeypoint('rightAnkle') || getKeypoint('leftAnkle');
+      if (!shoulder || !ankle) return false;
+
+      // Standing up is a straight line too - the body must be horizontal
+      const isHorizontal = Math.abs(ankle.x - shoulder.x) > Math.abs(ankle.y - shoulder.y);
+      return isHorizontal && checkBodyAlignment(keypoints) >= MIN_ALIGNMENT_SCORE;
+    },
+    breakIssue: {
+      type: 'plankBreak',
+      severity: 'moderate',
+      message: 'Hold broken - get back into a straight plank.',
+      recommendation: 'Engage your core and glutes to keep the body line rigid.',
+    },
+  },
+  recommendations: ({ avgFormScore }) =>
+    avgFormScore < 80
+      ? ['Shorten the hold until you can keep a straight line the whole time.']
+      : [],
+  setupCheck: {
+    isReady: (keypoints) => !detectHipSag(keypoints) && checkBodyAlignment(keypoints) >= MIN_ALIGNMENT_SCORE,
+    message: 'Get into a straight plank from shoulders through hips to ankles.',
+  },
+  recognition: {
+    postures: ['horizontal'],
+  },
+};
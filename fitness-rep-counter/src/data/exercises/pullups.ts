@@ -0,0 +1,53 @@
+import { ExerciseDefinition } from '../../types';
+
+// Sideways hip movement between frames that counts as swinging, in torso lengths
+const MAX_HIP_SWING = 0.15;
+
+export const pullups: ExerciseDefinition = {
+  id: 'pullups',
+  name: 'Pull-Ups',
+  description: 'Upper body pulling exercise for back and biceps.',
+  targetMuscles: ['Lats', 'Biceps', 'Rear Delts', 'Forearms'],
+  difficulty: 'intermediate',
+  keyPoints: [
+    'Start from a dead hang with arms fully extended',
+    'Pull until chin is above the bar',
+    'Keep shoulders down and back engaged',
+    'Control the descent',
+    'Avoid swinging or kipping'
+  ],
+  // Elbow angle (inverted logic - bent = up)
+  primaryJoint: ['shoulder', 'elbow', 'wrist'],
+  startPhase: 'down',
+  thresholds: {
+    upAngle: 50, // Chin above bar (elbows bent)
+    downAngle: 160, // Arms extended (hanging)
+    minROM: 80,
+    idealShoulderEngagement: 30,
+  },
+  formRules: [
+    // Check for kipping
+    ({ getKeypoint, getPreviousKeypoint, bodyScale }) => {
+      const shoulder = getKeypoint('leftShoulder') || getKeypoint('rightShoulder');
+      const hip = getKeypoint('leftHip') || getKeypoint('rightHip');
+      const prevHip = getPreviousKeypoint('leftHip') || getPreviousKeypoint('rightHip');
+      if (!shoulder || !hip || !prevHip || !bodyScale) return null;
+
+      const horizontalMovement = Math.abs(hip.x - prevHip.x);
+      if (horizontalMovement <= bodyScale * MAX_HIP_SWING) return null;
+      return {
+        type: 'kipping',
+        severity: 'minor',
+        message: 'Minimize body swing',
+        recommendation: 'Use controlled movement, avoid kipping',
+      };
+    },
+  ],
+  recommendations: ({ validRepRatio }) =>
+    validRepRatio < 0.8
+      ? ['Ensure full extension at bottom and chin above bar at top for valid reps.']
+      : [],
+  recognition: {
+    postures: ['hanging'],
+  },
+};
@@ -0,0 +1,114 @@
+import { ExerciseDefinition } from '../../types';
+import { calculateAngle, checkBodyAlignment, detectHipSag } from '../../utils/angleCalculations';
+
+export const pushups: ExerciseDefinition = {
+  id: 'pushups',
+  name: 'Push-Ups',
+  description: 'Classic upper body exercise targeting chest, shoulders, and triceps.',
+  targetMuscles: ['Chest', 'Shoulders', 'Triceps', 'Core'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Keep your body in a straight line from head to heels',
+    'Lower chest to near ground level',
+    'Keep elbows at 45-degree angle from body',
+    'Fully extend arms at the top',
+    'Engage core throughout the movement'
+  ],
+  primaryJoint: ['shoulder', 'elbow', 'wrist'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: 160, // Arms extended
+    downAngle: 90, // Arms bent
+    minROM: 70, // Minimum range of motion percentage
+    idealElbowAngle: 45, // Ideal elbow angle from body
+  },
+  formRules: [
+    // View-aware push-up form checking:
+    // - Side view: best for hip alignment & elbow depth
+    // - Front view: best for elbow flare & symmetry
+    // - Oblique: general form check
+
+    // 1. Hip/Body Alignment (Plank check) - works in all views but best in side/oblique
+    // Target: 170-180 degrees (straight line from shoulder through hip to ankle)
+    ({ keypoints }) => {
+      const alignmentScore = checkBodyAlignment(keypoints);
+      if (alignmentScore >= 85) return null;
+
+      const isSagging = detectHipSag(keypoints);
+      return {
+        type: 'alignment',
+        severity: alignmentScore < 75 ? 'major' : 'moderate',
+        message: isSagging
+          ? 'No rep. Hips are sagging - engage your core.'
+          : 'No rep. Keep your body in a straight line from shoulders through hips to ankles.',
+        recommendation: 'Engage your core and glutes to maintain a rigid plank position.',
+      };
+    },
+
+    // 2. Elbow Flare (Shoulder angle check) - best in front/oblique view
+    // Target: 20-45 degrees from torso. Warning: >70 degrees
+    ({ cameraView, getKeypoint }) => {
+      if (cameraView !== 'front' && cameraView !== 'oblique') return null;
+
+      // Calculate shoulder-torso angle (elbow flare) using hip-shoulder-elbow
+      for (const side of ['left', 'right'] as const) {
+        const shoulder = getKeypoint(`${side}Shoulder`);
+        const elbow = getKeypoint(`${side}Elbow`);
+        const hip = getKeypoint(`${side}Hip`);
+        if (!shoulder || !elbow || !hip) continue;
+
+        const shoulderAngle = calculateAngle(hip, shoulder, elbow);
+        if (shoulderAngle > 70) {
+          return {
+            type: 'elbowFlare',
+            severity: shoulderAngle > 90 ? 'major' : 'moderate',
+            message: 'Elbows flaring out too much.',
+            recommendation: 'Tuck your elbows at 20-45 degrees from your body.',
+          };
+        }
+      }
+      return null;
+    },
+
+    // Check elbow width ratio in front view for symmetry/flare
+    ({ getKeypoint }) => {
+      const leftShoulder = getKeypoint('leftShoulder');
+      const rightShoulder = getKeypoint('rightShoulder');
+      const leftElbow = getKeypoint('leftElbow');
+      const rightElbow = getKeypoint('rightElbow');
+      if (!leftShoulder || !rightShoulder || !leftElbow || !rightElbow) return null;
+
+      const shoulderWidth = Math.abs(rightShoulder.x - leftShoulder.x);
+      const elbowWidth = Math.abs(rightElbow.x - leftElbow.x);
+      const elbowFlareRatio = elbowWidth / shoulderWidth;
+
+      // If elbows are much wider than shoulders, they're flaring
+      if (elbowFlareRatio <= 1.5) return null;
+      return {
+        type: 'elbowFlare',
+        severity: 'moderate',
+        message: 'Elbows flaring out too wide.',
+        recommendation: 'Keep elbows at 45-degree angle from body.',
+      };
+    },
+  ],
+  formScorePenalty: (keypoints) => {
+    // Check body alignment
+    const alignmentScore = checkBodyAlignment(keypoints);
+    return alignmentScore < 80 ? (80 - alignmentScore) * 0.3 : 0;
+  },
+  // Before any reps are registered, ensure the body is in a straight line
+  // so that the system has a good side/oblique view for angle measurements.
+  setupCheck: {
+    isReady: (keypoints) => checkBodyAlignment(keypoints) >= 85,
+    message: 'Set up in a straight line from shoulders through hips to ankles before starting push-ups.',
+  },
+  recommendations: ({ avgFormScore }) =>
+    avgFormScore < 75
+      ? ['Keep your core engaged throughout the movement to maintain a straight body line.']
+      : [],
+  recognition: {
+    postures: ['horizontal'],
+    stillJoints: ['hip', 'knee'],
+  },
+};
@@ -0,0 +1,63 @@
+import { ExerciseDefinition } from '../../types';
+
+// How much more the rowing elbow bends than the supporting arm
+const MIN_ELBOW_BEND_DIFFERENCE = 20;
+// Vertical hip movement between frames that counts as twisting, in torso lengths
+const MAX_HIP_SHIFT = 0.15;
+
+export const singlearmrows: ExerciseDefinition = {
+  id: 'singlearmrows',
+  name: 'Single-Arm Rows',
+  description: 'One-arm dumbbell row braced on a bench for the upper back and lats.',
+  targetMuscles: ['Lats', 'Rhomboids', 'Rear Delts', 'Biceps'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Brace one hand and knee on a bench',
+    'Keep your back flat and parallel to the floor',
+    'Pull the elbow back toward the hip',
+    'Squeeze the shoulder blade at the top',
+    'Lower until the arm is fully extended'
+  ],
+  // Elbow angle of the rowing arm (bent = up)
+  primaryJoint: ['shoulder', 'elbow', 'wrist'],
+  startPhase: 'down',
+  thresholds: {
+    upAngle: 70, // Elbow pulled back
+    downAngle: 150, // Arm hanging
+    minROM: 70,
+  },
+  unilateral: {
+    // The supporting arm stays straight on the bench
+    getWorkingSide: ({ getSideAngle }) => {
+      const left = getSideAngle('left');
+      const right = getSideAngle('right');
+      if (left === null || right === null) return null;
+      if (Math.abs(left - right) < MIN_ELBOW_BEND_DIFFERENCE) return null;
+      return left < right ? 'left' : 'right';
+    },
+  },
+  formRules: [
+    // Check torso rotation - the hips should not follow the weight up
+    ({ getKeypoint, getPreviousKeypoint, bodyScale }) => {
+      const hip = getKeypoint('leftHip') || getKeypoint('rightHip');
+      const prevHip = getPreviousKeypoint('leftHip') || getPreviousKeypoint('rightHip');
+      if (!hip || !prevHip || !bodyScale) return null;
+
+      if (Math.abs(hip.y - prevHip.y) <= bodyScale * MAX_HIP_SHIFT) return null;
+      return {
+        type: 'torsoRotation',
+        severity: 'minor',
+        message: 'Torso twisting with the row',
+        recommendation: 'Keep your hips square and pull with the back, not momentum',
+      };
+    },
+  ],
+  recommendations: ({ avgROM }) =>
+    avgROM < 80
+      ? ['Lower the weight all the way down and pull the elbow past your torso.']
+      : [],
+  recognition: {
+    postures: ['bent', 'horizontal'],
+    stillJoints: ['hip', 'knee'],
+  },
+};
@@ -0,0 +1,28 @@
+import { ExerciseDefinition } from '../../types';
+
+export const situps: ExerciseDefinition = {
+  id: 'situps',
+  name: 'Sit-Ups',
+  description: 'Core exercise targeting abdominal muscles.',
+  targetMuscles: ['Rectus Abdominis', 'Hip Flexors', 'Obliques'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Keep feet flat on the ground',
+    'Cross arms over chest or behind head',
+    'Curl up by engaging abs, not pulling with neck',
+    'Come up to at least 90 degrees',
+    'Control the lowering phase'
+  ],
+  // Hip angle
+  primaryJoint: ['shoulder', 'hip', 'knee'],
+  startPhase: 'down',
+  thresholds: {
+    upAngle: 70, // Sitting up (hip angle)
+    downAngle: 150, // Lying down
+    minROM: 60,
+  },
+  recognition: {
+    postures: ['horizontal', 'bent'],
+    stillJoints: ['knee'],
+  },
+};
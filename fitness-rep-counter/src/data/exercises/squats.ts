@@ -0,0 +1,82 @@
+import { ExerciseDefinition } from '../../types';
+
+// How far the shoulders may drift ahead of the hips, in torso lengths
+const MAX_FORWARD_LEAN = 0.8;
+
+export const squats: ExerciseDefinition = {
+  id: 'squats',
+  name: 'Squats',
+  description: 'Fundamental lower body exercise.',
+  targetMuscles: ['Quadriceps', 'Glutes', 'Hamstrings', 'Core'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Feet shoulder-width apart, toes slightly out',
+    'Lower until thighs are parallel to ground',
+    'Keep knees tracking over toes',
+    'Maintain neutral spine',
+    'Drive through heels to stand'
+  ],
+  // Knee angle
+  primaryJoint: ['hip', 'knee', 'ankle'],
+  startPhase: 'up',
+  thresholds: {
+    upAngle: 170, // Standing (knee angle)
+    downAngle: 90, // Squatting
+    minROM: 70,
+    idealKneeAngle: 90,
+  },
+  formRules: [
+    // Check knee cave
+    ({ getKeypoint }) => {
+      const leftKnee = getKeypoint('leftKnee');
+      const rightKnee = getKeypoint('rightKnee');
+      const leftAnkle = getKeypoint('leftAnkle');
+      const rightAnkle = getKeypoint('rightAnkle');
+      if (!leftKnee || !rightKnee || !leftAnkle || !rightAnkle) return null;
+
+      const ankleWidth = Math.abs(rightAnkle.x - leftAnkle.x);
+      const kneeWidth = Math.abs(rightKnee.x - leftKnee.x);
+      if (kneeWidth >= ankleWidth * 0.8) return null;
+      return {
+        type: 'kneeCave',
+        severity: 'major',
+        message: 'Knees caving inward',
+        recommendation: 'Push knees out over toes',
+      };
+    },
+
+    // Check forward lean
+    ({ getKeypoint, bodyScale }) => {
+      const shoulder = getKeypoint('leftShoulder') || getKeypoint('rightShoulder');
+      const hip = getKeypoint('leftHip') || getKeypoint('rightHip');
+      if (!shoulder || !hip || !bodyScale) return null;
+
+      const forwardLean = shoulder.x - hip.x;
+      if (Math.abs(forwardLean) <= bodyScale * MAX_FORWARD_LEAN) return null;
+      return {
+        type: 'forwardLean',
+        severity: 'moderate',
+        message: 'Excessive forward lean',
+        recommendation: 'Keep chest up and weight on mid-foot',
+      };
+    },
+  ],
+  formScorePenalty: (_keypoints, angles) => {
+    // Check knee tracking
+    if (angles.leftKnee && angles.rightKnee) {
+      const kneeSymmetry = Math.abs(angles.leftKnee - angles.rightKnee);
+      if (kneeSymmetry > 15) {
+        return kneeSymmetry * 0.2;
+      }
+    }
+    return 0;
+  },
+  recommendations: ({ avgROM }) =>
+    avgROM < 80
+      ? ['Try to reach parallel or below. Work on hip and ankle mobility.']
+      : [],
+  recognition: {
+    postures: ['upright', 'bent'],
+    stances: ['level'],
+  },
+};
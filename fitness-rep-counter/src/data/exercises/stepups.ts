@@ -0,0 +1,74 @@
+import { BodySide, ExerciseDefinition } from '../../types';
+
+// How much higher the box foot sits, as a share of shin length
+const MIN_STEP_HEIGHT_RATIO = 0.3;
+// How far the shoulders may drift past the hips, in torso lengths
+const MAX_TORSO_LEAN = 0.65;
+
+export const stepups: ExerciseDefinition = {
+  id: 'stepups',
+  name: 'Step-Ups',
+  description: 'Single-leg step onto a box or bench for the legs and glutes.',
+  targetMuscles: ['Quadriceps', 'Glutes', 'Hamstrings', 'Calves'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Place the whole foot on the box',
+    'Drive through the heel of the box foot',
+    'Stand fully upright at the top',
+    'Avoid pushing off with the back foot',
+    'Step down under control'
+  ],
+  // Knee angle of the box leg (bent on the box = down)
+  primaryJoint: ['hip', 'knee', 'ankle'],
+  startPhase: 'down',
+  thresholds: {
+    upAngle: 165, // Standing on the box
+    downAngle: 110, // Foot on the box, knee bent
+    minROM: 70,
+  },
+  // The knee only travels about 55 degrees, so the band is narrower
+  debounce: { hysteresis: 3 },
+  unilateral: {
+    // The working foot is the one up on the box
+    getWorkingSide: ({ getKeypoint }) => {
+      const footHeight = (side: BodySide) => {
+        const knee = getKeypoint(`${side}Knee`);
+        const ankle = getKeypoint(`${side}Ankle`);
+        if (!knee || !ankle) return null;
+        return { y: ankle.y, shin: Math.hypot(ankle.x - knee.x, ankle.y - knee.y) };
+      };
+      const left = footHeight('left');
+      const right = footHeight('right');
+      if (!left || !right) return null;
+
+      const shin = Math.max(left.shin, right.shin);
+      if (Math.abs(left.y - right.y) < shin * MIN_STEP_HEIGHT_RATIO) return null;
+      // Image y grows downward - the higher foot has the smaller y
+      return left.y < right.y ? 'left' : 'right';
+    },
+  },
+  formRules: [
+    // Check torso lean
+    ({ getKeypoint, bodyScale }) => {
+      const shoulder = getKeypoint('leftShoulder') || getKeypoint('rightShoulder');
+      const hip = getKeypoint('leftHip') || getKeypoint('rightHip');
+      if (!shoulder || !hip || !bodyScale) return null;
+
+      if (Math.abs(shoulder.x - hip.x) <= bodyScale * MAX_TORSO_LEAN) return null;
+      return {
+        type: 'torsoLean',
+        severity: 'minor',
+        message: 'Leaning forward onto the box',
+        recommendation: 'Stay tall and let the box leg do the work',
+      };
+    },
+  ],
+  recommendations: ({ avgROM }) =>
+    avgROM < 80
+      ? ['Stand all the way up on the box before stepping down.']
+      : [],
+  recognition: {
+    postures: ['upright'],
+    stances: ['raised'],
+  },
+};
@@ -0,0 +1,49 @@
+import { ExerciseDefinition } from '../../types';
+
+// Knee angle window around thighs parallel to the floor
+const MIN_KNEE_ANGLE = 70;
+const MAX_KNEE_ANGLE = 110;
+
+export const wallsit: ExerciseDefinition = {
+  id: 'wallsit',
+  name: 'Wall Sit',
+  description: 'Isometric leg hold with the back against a wall and thighs parallel to the floor.',
+  targetMuscles: ['Quadriceps', 'Glutes', 'Calves'],
+  difficulty: 'beginner',
+  keyPoints: [
+    'Keep your back flat against the wall',
+    'Thighs parallel to the ground',
+    'Knees directly above the ankles',
+    'Weight through the heels',
+    'Hold without resting hands on the legs'
+  ],
+  // Knee angle
+  primaryJoint: ['hip', 'knee', 'ankle'],
+  startPhase: 'down',
+  thresholds: {
+    upAngle: MAX_KNEE_ANGLE,
+    downAngle: MIN_KNEE_ANGLE,
+    minROM: 0,
+  },
+  hold: {
+    isHeld: ({ angle, getKeypoint }) => {
+      const shoulder = getKeypoint('rightShoulder') || getKeypoint('leftShoulder');
+      const hip = getKeypoint('rightHip') || getKeypoint('leftHip');
+      if (!shoulder || !hip) return false;
+
+      // Torso stays upright against the wall
+      const isUpright = Math.abs(hip.y - shoulder.y) > Math.abs(hip.x - shoulder.x);
+      return isUpright && angle >= MIN_KNEE_ANGLE && angle <= MAX_KNEE_ANGLE;
+    },
+    breakIssue: {
+      type: 'wallSitBreak',
+      severity: 'moderate',
+      message: 'Hold broken - sit back down until your thighs are parallel.',
+      recommendation: 'Keep the knees at about 90 degrees with your back on the wall.',
+    },
+  },
+  recognition: {
+    postures: ['upright'],
+    stances: ['level'],
+  },
+};
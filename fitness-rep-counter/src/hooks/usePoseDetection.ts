@@ -1,14 +1,38 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { poseDetectionService } from '../services/poseDetection';
 import { exerciseDetectionService } from '../services/exerciseDetection';
-import { PoseResult, RepData, ExerciseType, Keypoint } from '../types';
+import { poseRecorder } from '../services/poseRecorder';
+import {
+  PoseResult,
+  RepData,
+  ExerciseType,
+  Keypoint,
+  PoseModelType,
+  KeypointFilterType,
+  RepTempo,
+  HoldProgress,
+  BodySide,
+  ExerciseCalibrations,
+} from '../types';
+import { DEFAULT_KEYPOINT_FILTER } from '../services/keypointFilter';
+
+// Every exercise on its definition's thresholds
+const NO_CALIBRATIONS: ExerciseCalibrations = {};
 
 interface UsePoseDetectionOptions {
   videoRef: React.RefObject<HTMLVideoElement | null>;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
   exercise: ExerciseType;
+  model?: PoseModelType;
+  keypointFilter?: KeypointFilterType; // Smoothing between pose and rep detection
+  calibrations?: ExerciseCalibrations; // Personal thresholds by exercise
+  targetTempo?: RepTempo | null;
+  side?: BodySide | null; // Pins a unilateral exercise to one side
   isActive: boolean;
   onRepComplete?: (rep: RepData) => void;
+  onHoldUpdate?: (progress: HoldProgress) => void; // Every frame, hold exercises only
+  onAngleUpdate?: (angle: number | null, timestamp: number) => void; // Every frame, the measured primary angle
+  onFrame?: (keypoints: Keypoint[], timestamp: number) => void; // Every frame, the detected keypoints
 }
 
 interface UsePoseDetectionReturn {
@@ -25,8 +49,16 @@ export const usePoseDetection = ({
   videoRef,
   canvasRef,
   exercise,
+  model,
+  keypointFilter = DEFAULT_KEYPOINT_FILTER,
+  calibrations = NO_CALIBRATIONS,
+  targetTempo = null,
+  side = null,
   isActive,
   onRepComplete,
+  onHoldUpdate,
+  onAngleUpdate,
+  onFrame,
 }: UsePoseDetectionOptions): UsePoseDetectionReturn => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [currentPose, setCurrentPose] = useState<PoseResult | null>(null);
@@ -38,7 +70,7 @@ export const usePoseDetection = ({
   const initialize = useCallback(async () => {
     try {
       setError(null);
-      await poseDetectionService.initialize();
+      await poseDetectionService.initialize(model);
       exerciseDetectionService.setExercise(exercise);
       setIsInitialized(true);
     } catch (err) {
@@ -46,7 +78,7 @@ export const usePoseDetection = ({
       setError(message);
       console.error('Pose detection initialization error:', err);
     }
-  }, [exercise]);
+  }, [exercise, model]);
 
   const drawPose = useCallback((keypoints: Keypoint[]) => {
     const canvas = canvasRef.current;
@@ -64,16 +96,7 @@ export const usePoseDetection = ({
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
     // Draw skeleton connections
-    const connections = [
-      // Face
-      [0, 1], [0, 2], [1, 3], [2, 4],
-      // Arms
-      [5, 7], [7, 9], [6, 8], [8, 10],
-      // Torso
-      [5, 6], [5, 11], [6, 12], [11, 12],
-      // Legs
-      [11, 13], [13, 15], [12, 14], [14, 16],
-    ];
+    const connections = poseDetectionService.getSkeletonConnections();
 
     ctx.strokeStyle = '#00FF00';
     ctx.lineWidth = 2;
@@ -110,24 +133,37 @@ export const usePoseDetection = ({
     const video = videoRef.current;
     
     if (video.readyState >= 2) {
-      const pose = await poseDetectionService.detectPose(video);
+      // Capture time of the frame - inference (and any wait for the
+      // worker) happens after it and must not stretch rep timings
+      const timestamp = exerciseDetectionService.now();
+      const pose = await poseDetectionService.detectPose(video, timestamp);
       
       if (pose) {
         setCurrentPose(pose);
         drawPose(pose.keypoints);
 
-        // Detect rep
+        // Detect rep - frames that reach the detector are also what a
+        // recording captures, so a replay sees exactly the same input
         if (isActive) {
-          const rep = exerciseDetectionService.detectRep(pose.keypoints);
+          poseRecorder.addFrame(pose, timestamp);
+          const rep = exerciseDetectionService.detectRep(pose.keypoints, timestamp);
           if (rep && onRepComplete) {
             onRepComplete(rep);
           }
+
+          const holdProgress = exerciseDetectionService.getHoldProgress();
+          if (holdProgress && onHoldUpdate) {
+            onHoldUpdate(holdProgress);
+          }
+
+          onAngleUpdate?.(exerciseDetectionService.getCurrentState().primaryAngle, timestamp);
+          onFrame?.(pose.keypoints, timestamp);
         }
       }
     }
 
     animationFrameRef.current = requestAnimationFrame(detect);
-  }, [videoRef, isActive, onRepComplete, drawPose]);
+  }, [videoRef, isActive, onRepComplete, onHoldUpdate, onAngleUpdate, onFrame, drawPose]);
 
   const startDetection = useCallback(() => {
     if (isRunningRef.current) return;
@@ -152,6 +188,26 @@ export const usePoseDetection = ({
     exerciseDetectionService.setExercise(exercise);
   }, [exercise]);
 
+  // Smooth keypoints before they reach rep detection
+  useEffect(() => {
+    exerciseDetectionService.setKeypointFilter(keypointFilter);
+  }, [keypointFilter]);
+
+  // Count against the user's calibrated thresholds where they have them
+  useEffect(() => {
+    exerciseDetectionService.setCalibrations(calibrations);
+  }, [calibrations]);
+
+  // Flag reps outside the target tempo
+  useEffect(() => {
+    exerciseDetectionService.setTargetTempo(targetTempo);
+  }, [targetTempo]);
+
+  // Same-side sets only count the pinned side
+  useEffect(() => {
+    exerciseDetectionService.setSide(side);
+  }, [side]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
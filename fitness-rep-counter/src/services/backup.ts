@@ -0,0 +1,246 @@
+import { WorkoutSession } from '../types';
+import { useWorkoutStore, WorkoutSettings } from '../store/workoutStore';
+import { workoutRepository } from './workoutRepository';
+import { POSE_MODELS } from './poseModel';
+import { DEFAULT_KEYPOINT_FILTER, KEYPOINT_FILTERS } from './keypointFilter';
+import { saveTextFile } from './fileExport';
+
+export const BACKUP_FORMAT = 'fitrep-backup';
+export const BACKUP_VERSION = 1;
+
+const ZOOM_LEVELS: WorkoutSettings['cameraZoomLevel'][] = [1, 1.5, 2, 2.5, 3];
+
+export interface BackupData {
+  sessions: WorkoutSession[];
+  settings: WorkoutSettings;
+}
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number; // epoch ms
+  checksum: string; // SHA-256 of the JSON-encoded data, hex
+  data: BackupData;
+}
+
+// Merge keeps this device's copy of a session that differs from the
+// backup; replace overwrites it with the backup's copy and also restores
+// the backed-up settings. Neither mode deletes sessions missing from the
+// backup.
+export type RestoreMode = 'merge' | 'replace';
+
+// Session ids by what happened to them
+export interface RestoreReport {
+  mode: RestoreMode;
+  added: string[];
+  replaced: string[]; // Differed from this device - backup copy kept (replace)
+  conflicts: string[]; // Differed from this device - local copy kept (merge)
+  unchanged: string[];
+  settingsRestored: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const computeChecksum = async (data: BackupData): Promise<string> => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Backups need a secure (https) connection to verify their checksum');
+  }
+
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const validateSession = (session: unknown, index: number): WorkoutSession => {
+  if (
+    !isRecord(session) ||
+    typeof session.id !== 'string' ||
+    typeof session.date !== 'number' ||
+    typeof session.exercise !== 'string' ||
+    !Array.isArray(session.sets) ||
+    !isRecord(session.config)
+  ) {
+    throw new Error(`Backup session ${index + 1} is malformed`);
+  }
+  return session as unknown as WorkoutSession;
+};
+
+// Every exercise a config names is a string id - ids this build does not
+// have are handled when the settings are applied
+const hasExerciseIds = (config: unknown): boolean => {
+  return (
+    isRecord(config) &&
+    typeof config.exercise === 'string' &&
+    (config.blocks === undefined ||
+      (Array.isArray(config.blocks) &&
+        config.blocks.every((block) => isRecord(block) && typeof block.exercise === 'string')))
+  );
+};
+
+const validateSettings = (settings: unknown): WorkoutSettings => {
+  if (!isRecord(settings) || !isRecord(settings.config)) {
+    throw new Error('Backup is missing its settings');
+  }
+
+  const {
+    config,
+    cameraZoomLevel,
+    poseModel,
+    keypointFilter = DEFAULT_KEYPOINT_FILTER,
+    templates = [],
+    programs = [],
+    profile = { calibrations: {} },
+  } = settings;
+  if (
+    !hasExerciseIds(config) ||
+    typeof config.sets !== 'number' ||
+    typeof config.targetReps !== 'number' ||
+    typeof config.restPeriod !== 'number'
+  ) {
+    throw new Error('Backup workout settings are malformed');
+  }
+  if (!ZOOM_LEVELS.includes(cameraZoomLevel as WorkoutSettings['cameraZoomLevel'])) {
+    throw new Error(`Unknown camera zoom level in backup: ${cameraZoomLevel}`);
+  }
+  if (typeof poseModel !== 'string' || !(poseModel in POSE_MODELS)) {
+    throw new Error(`Unknown pose model in backup: ${poseModel}`);
+  }
+  // Backups from before keypoint smoothing get the default filter
+  if (typeof keypointFilter !== 'string' || !(keypointFilter in KEYPOINT_FILTERS)) {
+    throw new Error(`Unknown keypoint filter in backup: ${keypointFilter}`);
+  }
+  // Backups from before templates and programs have neither
+  if (!Array.isArray(templates) || !templates.every((t) => isRecord(t) && hasExerciseIds(t.config))) {
+    throw new Error('Backup workout templates are malformed');
+  }
+  if (!Array.isArray(programs) || !programs.every((p) => isRecord(p) && Array.isArray(p.schedule))) {
+    throw new Error('Backup training programs are malformed');
+  }
+  // Backups from before calibration have no profile
+  if (
+    !isRecord(profile) ||
+    !isRecord(profile.calibrations) ||
+    !Object.values(profile.calibrations).every((c) => isRecord(c) && isRecord(c.thresholds))
+  ) {
+    throw new Error('Backup user profile is malformed');
+  }
+
+  return { ...settings, keypointFilter, templates, programs, profile } as unknown as WorkoutSettings;
+};
+
+export const createBackup = async (): Promise<BackupBundle> => {
+  const data: BackupData = {
+    sessions: await workoutRepository.getSessions(),
+    settings: useWorkoutStore.getState().getSettings(),
+  };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    checksum: await computeChecksum(data),
+    data,
+  };
+};
+
+export const getBackupFileName = (bundle: BackupBundle): string => {
+  const date = new Date(bundle.exportedAt).toISOString().replace(/[:.]/g, '-');
+  return `fitrep-backup-${date}.json`;
+};
+
+// Back up all history and settings to a file - resolves to where it was saved
+export const exportBackup = async (): Promise<{ location: string; sessionCount: number }> => {
+  const bundle = await createBackup();
+  const location = await saveTextFile(getBackupFileName(bundle), JSON.stringify(bundle), 'application/json');
+  return { location, sessionCount: bundle.data.sessions.length };
+};
+
+// Validate a backup file and verify its checksum
+export const parseBackup = async (text: string): Promise<BackupBundle> => {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('Backup is not valid JSON');
+  }
+
+  if (!isRecord(bundle) || bundle.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a FitRep backup');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${bundle.version} - update the app to restore it`);
+  }
+  if (typeof bundle.exportedAt !== 'number' || typeof bundle.checksum !== 'string') {
+    throw new Error('Backup header is malformed');
+  }
+  if (!isRecord(bundle.data) || !Array.isArray(bundle.data.sessions)) {
+    throw new Error('Backup has no workout history');
+  }
+
+  // Check the checksum before the contents so a damaged file reports as damaged
+  const data = bundle.data as unknown as BackupData;
+  if ((await computeChecksum(data)) !== bundle.checksum) {
+    throw new Error('Backup checksum does not match - the file is damaged or was edited');
+  }
+
+  const sessions = bundle.data.sessions.map(validateSession);
+  const ids = new Set(sessions.map((session) => session.id));
+  if (ids.size !== sessions.length) {
+    throw new Error('Backup contains duplicate session ids');
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: bundle.version,
+    exportedAt: bundle.exportedAt,
+    checksum: bundle.checksum,
+    data: { sessions, settings: validateSettings(bundle.data.settings) },
+  };
+};
+
+// Write a parsed backup into history, matching sessions by id
+export const restoreBackup = async (bundle: BackupBundle, mode: RestoreMode): Promise<RestoreReport> => {
+  const existing = new Map(
+    (await workoutRepository.getSessions()).map((session) => [session.id, session])
+  );
+  const report: RestoreReport = {
+    mode,
+    added: [],
+    replaced: [],
+    conflicts: [],
+    unchanged: [],
+    settingsRestored: false,
+  };
+
+  const toWrite = bundle.data.sessions.filter((session) => {
+    const local = existing.get(session.id);
+    if (!local) {
+      report.added.push(session.id);
+      return true;
+    }
+    if (JSON.stringify(local) === JSON.stringify(session)) {
+      report.unchanged.push(session.id);
+      return false;
+    }
+    if (mode === 'replace') {
+      report.replaced.push(session.id);
+      return true;
+    }
+    report.conflicts.push(session.id);
+    return false;
+  });
+
+  if (toWrite.length > 0) {
+    await workoutRepository.putSessions(toWrite);
+  }
+
+  if (mode === 'replace') {
+    // Exercises this build does not have are dropped or fall back to the current one
+    useWorkoutStore.getState().applySettings(bundle.data.settings);
+    report.settingsRestored = true;
+  }
+
+  return report;
+};
@@ -0,0 +1,189 @@
+import { JointAngles, RepData, SetData, WorkoutSession } from '../types';
+import { getExerciseName } from '../data/exercises';
+import { formatTempo } from '../utils/tempo';
+import { DEFAULT_AMRAP_TIME_CAP, getWorkoutFormat } from '../utils/intervals';
+import { getSetFatigue } from '../utils/fatigue';
+import { getRepQuality } from '../utils/repQuality';
+import { DEFAULT_WORKOUT_STRUCTURE, getSessionExercises, getSetExercise } from '../utils/workoutPlan';
+import { saveTextFile } from './fileExport';
+
+// One row per session, per set or per rep
+export type CsvGranularity = 'sessions' | 'sets' | 'reps';
+
+export const CSV_GRANULARITY_LABELS: Record<CsvGranularity, string> = {
+  sessions: 'Sessions',
+  sets: 'Sets',
+  reps: 'Reps',
+};
+
+type CsvValue = string | number | boolean | undefined;
+
+interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+}
+
+interface SetRow {
+  session: WorkoutSession;
+  set: SetData;
+}
+
+interface RepRow extends SetRow {
+  rep: RepData;
+}
+
+// Keyed by every JointAngles field so a new angle fails to compile until it is exported
+const JOINT_ANGLE_COLUMNS: Record<keyof JointAngles, string> = {
+  leftElbow: 'left_elbow',
+  rightElbow: 'right_elbow',
+  leftShoulder: 'left_shoulder',
+  rightShoulder: 'right_shoulder',
+  leftHip: 'left_hip',
+  rightHip: 'right_hip',
+  leftKnee: 'left_knee',
+  rightKnee: 'right_knee',
+  spine: 'spine',
+  neck: 'neck',
+};
+
+const round = (value: number | undefined, digits = 1): number | undefined => {
+  return value === undefined ? undefined : Number(value.toFixed(digits));
+};
+
+const isoDate = (time: number): string => new Date(time).toISOString();
+
+// Columns every row starts with, identifying the session it belongs to
+const sessionKeyColumns = <T>(session: (row: T) => WorkoutSession): CsvColumn<T>[] => [
+  { header: 'session_id', value: (row) => session(row).id },
+  { header: 'date', value: (row) => isoDate(session(row).date) },
+  { header: 'exercise', value: (row) => session(row).exercise },
+  { header: 'exercise_name', value: (row) => getExerciseName(session(row).exercise) },
+];
+
+const SESSION_COLUMNS: CsvColumn<WorkoutSession>[] = [
+  ...sessionKeyColumns<WorkoutSession>((session) => session),
+  { header: 'exercises', value: (session) => getSessionExercises(session).join('; ') },
+  {
+    header: 'structure',
+    value: (session) =>
+      session.exercises ? session.config.structure ?? DEFAULT_WORKOUT_STRUCTURE : undefined,
+  },
+  { header: 'format', value: (session) => getWorkoutFormat(session.config) },
+  {
+    header: 'time_cap_s',
+    value: (session) =>
+      getWorkoutFormat(session.config) === 'amrap'
+        ? session.config.timeCap ?? DEFAULT_AMRAP_TIME_CAP
+        : undefined,
+  },
+  { header: 'program_id', value: (session) => session.program?.programId },
+  { header: 'program_week', value: (session) => (session.program ? session.program.week + 1 : undefined) },
+  { header: 'sets', value: (session) => session.sets.length },
+  { header: 'target_sets', value: (session) => session.config.sets },
+  { header: 'target_reps', value: (session) => session.config.targetReps },
+  { header: 'target_hold_time_s', value: (session) => session.config.targetHoldTime },
+  { header: 'target_tempo', value: (session) => session.config.targetTempo },
+  { header: 'unilateral_mode', value: (session) => session.config.unilateralMode },
+  { header: 'total_reps', value: (session) => session.totalReps },
+  { header: 'valid_reps', value: (session) => session.totalValidReps },
+  { header: 'partial_reps', value: (session) => session.totalPartialReps },
+  { header: 'left_reps', value: (session) => session.totalLeftReps },
+  { header: 'right_reps', value: (session) => session.totalRightReps },
+  { header: 'avg_form_score', value: (session) => round(session.averageFormScore) },
+  { header: 'avg_rom', value: (session) => round(session.averageROM) },
+  { header: 'time_under_tension_ms', value: (session) => session.totalTimeUnderTension },
+  { header: 'hold_time_ms', value: (session) => session.totalHoldTime },
+  { header: 'duration_ms', value: (session) => session.totalDuration },
+  { header: 'calories', value: (session) => session.caloriesEstimate },
+  { header: 'personal_records', value: (session) => session.personalRecords?.length ?? 0 },
+];
+
+const SET_COLUMNS: CsvColumn<SetRow>[] = [
+  ...sessionKeyColumns<SetRow>((row) => row.session),
+  { header: 'set_exercise', value: ({ session, set }) => getSetExercise(session, set) },
+  { header: 'set_number', value: ({ set }) => set.setNumber },
+  { header: 'side', value: ({ set }) => set.side },
+  { header: 'total_reps', value: ({ set }) => set.totalReps },
+  { header: 'valid_reps', value: ({ set }) => set.validReps },
+  { header: 'partial_reps', value: ({ set }) => set.partialReps },
+  { header: 'left_reps', value: ({ set }) => set.leftReps },
+  { header: 'right_reps', value: ({ set }) => set.rightReps },
+  { header: 'avg_form_score', value: ({ set }) => round(set.averageFormScore) },
+  { header: 'avg_rom', value: ({ set }) => round(set.averageROM) },
+  { header: 'time_under_tension_ms', value: ({ set }) => set.timeUnderTension },
+  { header: 'hold_time_ms', value: ({ set }) => set.holdTime },
+  { header: 'hold_breaks', value: ({ set }) => set.holdBreaks?.length },
+  { header: 'velocity_loss_pct', value: ({ set }) => round(getSetFatigue(set.reps)?.velocityLoss) },
+  { header: 'form_decay', value: ({ set }) => round(getSetFatigue(set.reps)?.formDecay) },
+  { header: 'start_time', value: ({ set }) => isoDate(set.startTime) },
+  { header: 'end_time', value: ({ set }) => isoDate(set.endTime) },
+  { header: 'duration_ms', value: ({ set }) => set.duration },
+];
+
+const REP_COLUMNS: CsvColumn<RepRow>[] = [
+  ...sessionKeyColumns<RepRow>((row) => row.session),
+  { header: 'set_exercise', value: ({ session, set }) => getSetExercise(session, set) },
+  { header: 'set_number', value: ({ set }) => set.setNumber },
+  { header: 'rep_number', value: ({ rep }) => rep.repNumber },
+  { header: 'timestamp', value: ({ rep }) => isoDate(rep.timestamp) },
+  { header: 'side', value: ({ rep }) => rep.side },
+  { header: 'is_valid', value: ({ rep }) => rep.isValid },
+  { header: 'quality', value: ({ rep }) => getRepQuality(rep) },
+  { header: 'quality_reason', value: ({ rep }) => rep.qualityReason },
+  { header: 'partial_depth_pct', value: ({ rep }) => rep.partialDepth },
+  { header: 'form_score', value: ({ rep }) => round(rep.formScore) },
+  { header: 'range_of_motion', value: ({ rep }) => round(rep.rangeOfMotion) },
+  { header: 'duration_ms', value: ({ rep }) => rep.duration },
+  { header: 'time_under_tension_ms', value: ({ rep }) => rep.timeUnderTension },
+  { header: 'tempo', value: ({ rep }) => (rep.tempo ? formatTempo(rep.tempo) : undefined) },
+  ...(Object.keys(JOINT_ANGLE_COLUMNS) as (keyof JointAngles)[]).map(
+    (joint): CsvColumn<RepRow> => ({
+      header: `${JOINT_ANGLE_COLUMNS[joint]}_angle`,
+      value: ({ rep }) => round(rep.jointAngles[joint]),
+    })
+  ),
+  { header: 'issues', value: ({ rep }) => rep.issues.join('; ') },
+];
+
+// Quote fields containing separators, quotes or line breaks (RFC 4180)
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = <T>(columns: CsvColumn<T>[], rows: T[]): string => {
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(column.value(row))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const sessionsToCsv = (sessions: WorkoutSession[], granularity: CsvGranularity): string => {
+  switch (granularity) {
+    case 'sessions':
+      return toCsv(SESSION_COLUMNS, sessions);
+    case 'sets':
+      return toCsv(
+        SET_COLUMNS,
+        sessions.flatMap((session) => session.sets.map((set) => ({ session, set })))
+      );
+    case 'reps':
+      return toCsv(
+        REP_COLUMNS,
+        sessions.flatMap((session) =>
+          session.sets.flatMap((set) => set.reps.map((rep) => ({ session, set, rep })))
+        )
+      );
+  }
+};
+
+// Save sessions as a spreadsheet-ready CSV - resolves to where it was saved
+export const exportSessionsCsv = (
+  sessions: WorkoutSession[],
+  granularity: CsvGranularity
+): Promise<string> => {
+  const date = new Date().toISOString().replace(/[:.]/g, '-');
+  return saveTextFile(`fitrep-${granularity}-${date}.csv`, sessionsToCsv(sessions, granularity), 'text/csv');
+};
@@ -0,0 +1,397 @@
+import {
+  BodyJoint,
+  BodyPosture,
+  BodySide,
+  ExerciseDefinition,
+  ExerciseType,
+  JointTriplet,
+  Keypoint,
+  Stance,
+} from '../types';
+import { getExerciseDefinition, getExerciseList } from '../data/exercises';
+import {
+  calculateAngle,
+  calculateDistance,
+  detectCameraView,
+  getBodyScale,
+  getMidpoint,
+  getSideJointKeypoint,
+} from '../utils/angleCalculations';
+
+// Movement a classification looks at
+export const CLASSIFICATION_WINDOW_MS = 4000;
+// Fewest frames with a visible body a classification needs
+const MIN_CLASSIFICATION_FRAMES = 20;
+// Lowest score that names an exercise, and its lead over the runner-up
+const MIN_MATCH_SCORE = 0.5;
+const MIN_MATCH_MARGIN = 0.15;
+
+// Torso angle from vertical, degrees, at which the body stops being
+// upright and stops being bent over
+const MAX_UPRIGHT_TORSO_ANGLE = 35;
+const MAX_BENT_TORSO_ANGLE = 65;
+// Wrists this far above the shoulders, in torso lengths, are holding a bar
+const OVERHEAD_WRIST_HEIGHT = 0.15;
+// A torso shorter than this share of the body scale points at the camera,
+// so the body is lying down, seen from the head or the feet
+const FORESHORTENED_TORSO = 0.6;
+
+// Ankle offsets that set the stance, in torso lengths
+const RAISED_FOOT_HEIGHT = 0.35;
+const SPLIT_STANCE_WIDTH = 0.6;
+
+// Share of frames dropped at each end of an angle's range, so a few
+// glitched frames can't stretch it
+const RANGE_PERCENTILE = 0.1;
+// Still joints may move this share of the primary angle's range for free
+const STILL_JOINT_TOLERANCE = 0.5;
+// Holds - joints moving less than the first range are held still, more
+// than the second not at all. Degrees.
+const HOLD_STILL_RANGE = 10;
+const MAX_HOLD_RANGE = 25;
+// Degrees outside an angle window at which a held angle no longer matches it
+const ANGLE_WINDOW_TOLERANCE = 15;
+
+// Angles that show which joints are moving
+const MOVING_JOINTS: JointTriplet[] = [
+  ['shoulder', 'elbow', 'wrist'],
+  ['shoulder', 'hip', 'knee'],
+  ['hip', 'knee', 'ankle'],
+];
+
+const SIDES: BodySide[] = ['left', 'right'];
+
+// Keypoints of one frame, timed in ms
+export interface ClassifierFrame {
+  keypoints: Keypoint[];
+  timestamp: number;
+}
+
+export interface ExerciseMatch {
+  exercise: ExerciseType;
+  score: number; // 0-1, how closely the movement fits the exercise's signature
+}
+
+export interface ExerciseClassification {
+  exercise: ExerciseType | null; // Null when no exercise clearly stands out
+  matches: ExerciseMatch[]; // Every candidate, best first
+}
+
+// Stretch of a clip spent on one exercise, ms
+export interface ExerciseSegment {
+  exercise: ExerciseType;
+  start: number;
+  end: number;
+}
+
+// What classification needs from a frame, measured once
+interface FrameFeatures {
+  timestamp: number;
+  posture: BodyPosture | null;
+  stance: Stance | null; // Side view only
+  angles: Map<string, Record<BodySide, number | null>>;
+}
+
+interface AngleSpan {
+  low: number;
+  high: number;
+}
+
+const tripletKey = (triplet: JointTriplet): string => triplet.join('-');
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+// Average of both sides of a joint, or whichever side is visible
+const getJointCenter = (keypoints: Keypoint[], joint: BodyJoint): Keypoint | null => {
+  const left = getSideJointKeypoint(keypoints, joint, 'left');
+  const right = getSideJointKeypoint(keypoints, joint, 'right');
+  if (left && right) return getMidpoint(left, right);
+  return left ?? right;
+};
+
+const getPosture = (keypoints: Keypoint[], scale: number): BodyPosture | null => {
+  const shoulder = getJointCenter(keypoints, 'shoulder');
+  const hip = getJointCenter(keypoints, 'hip');
+  if (!shoulder || !hip) return null;
+
+  if (calculateDistance(shoulder, hip) < scale * FORESHORTENED_TORSO) return 'horizontal';
+
+  const torsoAngle = (Math.atan2(Math.abs(shoulder.x - hip.x), Math.abs(shoulder.y - hip.y)) * 180) / Math.PI;
+  if (torsoAngle > MAX_BENT_TORSO_ANGLE) return 'horizontal';
+  if (torsoAngle > MAX_UPRIGHT_TORSO_ANGLE) return 'bent';
+
+  const wrists = SIDES.map((side) => getSideJointKeypoint(keypoints, 'wrist', side)).filter(
+    (wrist): wrist is Keypoint => wrist !== null
+  );
+  const highestWrist = Math.min(...wrists.map((wrist) => wrist.y));
+  return highestWrist < shoulder.y - scale * OVERHEAD_WRIST_HEIGHT ? 'hanging' : 'upright';
+};
+
+// Only a side view shows how far apart the feet are
+const getStance = (keypoints: Keypoint[], scale: number): Stance | null => {
+  if (detectCameraView(keypoints) !== 'side') return null;
+  const left = getSideJointKeypoint(keypoints, 'ankle', 'left');
+  const right = getSideJointKeypoint(keypoints, 'ankle', 'right');
+  if (!left || !right) return null;
+
+  if (Math.abs(left.y - right.y) >= scale * RAISED_FOOT_HEIGHT) return 'raised';
+  if (Math.abs(left.x - right.x) >= scale * SPLIT_STANCE_WIDTH) return 'split';
+  return 'level';
+};
+
+const getSideAngle = (keypoints: Keypoint[], triplet: JointTriplet, side: BodySide): number | null => {
+  const [first, vertex, last] = triplet.map((joint) => getSideJointKeypoint(keypoints, joint, side));
+  return first && vertex && last ? calculateAngle(first, vertex, last) : null;
+};
+
+const getFrameFeatures = (frame: ClassifierFrame, triplets: JointTriplet[]): FrameFeatures | null => {
+  const scale = getBodyScale(frame.keypoints);
+  if (!scale) return null;
+
+  const posture = getPosture(frame.keypoints, scale);
+  const angles = new Map<string, Record<BodySide, number | null>>();
+  for (const triplet of triplets) {
+    angles.set(tripletKey(triplet), {
+      left: getSideAngle(frame.keypoints, triplet, 'left'),
+      right: getSideAngle(frame.keypoints, triplet, 'right'),
+    });
+  }
+
+  return {
+    timestamp: frame.timestamp,
+    posture,
+    stance: posture === 'upright' || posture === 'bent' ? getStance(frame.keypoints, scale) : null,
+    angles,
+  };
+};
+
+// Every angle the candidates are told apart by
+const getTriplets = (definitions: ExerciseDefinition[]): JointTriplet[] => {
+  const triplets = new Map<string, JointTriplet>();
+  for (const triplet of [...MOVING_JOINTS, ...definitions.map((definition) => definition.primaryJoint)]) {
+    triplets.set(tripletKey(triplet), triplet);
+  }
+  return Array.from(triplets.values());
+};
+
+const percentile = (sorted: number[], share: number): number => {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * share))];
+};
+
+// Range an angle covers over the window, on the side that moves it the
+// most - the working side of a unilateral exercise. Null when neither
+// side is visible for at least half the frames.
+const getAngleSpan = (frames: FrameFeatures[], triplet: JointTriplet): AngleSpan | null => {
+  const key = tripletKey(triplet);
+  let best: AngleSpan | null = null;
+
+  for (const side of SIDES) {
+    const angles = frames
+      .map((frame) => frame.angles.get(key)?.[side] ?? null)
+      .filter((angle): angle is number => angle !== null)
+      .sort((a, b) => a - b);
+    if (angles.length < frames.length / 2) continue;
+
+    const span = { low: percentile(angles, RANGE_PERCENTILE), high: percentile(angles, 1 - RANGE_PERCENTILE) };
+    if (!best || span.high - span.low > best.high - best.low) {
+      best = span;
+    }
+  }
+
+  return best;
+};
+
+const spanRange = (span: AngleSpan | null): number => (span ? span.high - span.low : 0);
+
+// Span of the angle at a joint, for the joints in MOVING_JOINTS
+const getJointSpan = (frames: FrameFeatures[], joint: BodyJoint): AngleSpan | null => {
+  const triplet = MOVING_JOINTS.find((candidate) => candidate[1] === joint);
+  return triplet ? getAngleSpan(frames, triplet) : null;
+};
+
+// 1 while the middle of a span is inside the window, falling to 0 at
+// ANGLE_WINDOW_TOLERANCE outside it
+const windowMatch = (span: AngleSpan, low: number, high: number): number => {
+  const middle = (span.low + span.high) / 2;
+  const distance = Math.max(0, low - middle, middle - high);
+  return clamp01(1 - distance / ANGLE_WINDOW_TOLERANCE);
+};
+
+// Share of the frames with a known value that have one of the expected ones
+const matchShare = <T>(values: (T | null)[], expected: T[]): number | null => {
+  const known = values.filter((value): value is T => value !== null);
+  if (known.length === 0) return null;
+  return known.filter((value) => expected.includes(value)).length / known.length;
+};
+
+// How well the joints move like the exercise. Reps sweep the primary
+// angle through the thresholds and move it more than any other joint,
+// holds keep every joint still inside the threshold window.
+const getMotionScore = (definition: ExerciseDefinition, frames: FrameFeatures[]): number => {
+  const primary = getAngleSpan(frames, definition.primaryJoint);
+  if (!primary) return 0;
+
+  const low = Math.min(definition.thresholds.upAngle, definition.thresholds.downAngle);
+  const high = Math.max(definition.thresholds.upAngle, definition.thresholds.downAngle);
+  const largestRange = Math.max(spanRange(primary), ...MOVING_JOINTS.map((triplet) => spanRange(getAngleSpan(frames, triplet))));
+
+  if (definition.hold) {
+    const stillness = 1 - clamp01((largestRange - HOLD_STILL_RANGE) / (MAX_HOLD_RANGE - HOLD_STILL_RANGE));
+    return windowMatch(primary, low, high) * stillness;
+  }
+
+  const range = spanRange(primary);
+  if (range === 0 || high === low) return 0;
+
+  const coverage = clamp01((Math.min(primary.high, high) - Math.max(primary.low, low)) / (high - low));
+  const dominance = range / largestRange;
+  const stillness = (definition.recognition?.stillJoints ?? []).reduce((score, joint) => {
+    const ratio = spanRange(getJointSpan(frames, joint)) / range;
+    return score * (1 - clamp01((ratio - STILL_JOINT_TOLERANCE) / (1 - STILL_JOINT_TOLERANCE)));
+  }, 1);
+
+  return coverage * dominance * stillness;
+};
+
+const scoreExercise = (definition: ExerciseDefinition, frames: FrameFeatures[]): number => {
+  const signature = definition.recognition;
+  if (!signature) return 0;
+
+  const posture = matchShare(frames.map((frame) => frame.posture), signature.postures) ?? 0;
+  // Stances are only seen from the side - without them, nothing to go on
+  const stance = signature.stances
+    ? matchShare(frames.map((frame) => frame.stance), signature.stances) ?? 1
+    : 1;
+
+  // Joints out of sight can't rule the exercise out
+  const jointAngles = Object.entries(signature.jointAngles ?? {}).reduce((score, [joint, window]) => {
+    const span = getJointSpan(frames, joint as BodyJoint);
+    return span && window ? score * windowMatch(span, window[0], window[1]) : score;
+  }, 1);
+
+  return posture * stance * jointAngles * getMotionScore(definition, frames);
+};
+
+const classifyFeatures = (
+  frames: FrameFeatures[],
+  definitions: ExerciseDefinition[]
+): ExerciseClassification => {
+  if (frames.length < MIN_CLASSIFICATION_FRAMES) {
+    return { exercise: null, matches: [] };
+  }
+
+  const matches = definitions
+    .map((definition) => ({ exercise: definition.id, score: scoreExercise(definition, frames) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = matches;
+  const isClear =
+    best !== undefined && best.score >= MIN_MATCH_SCORE && best.score - (runnerUp?.score ?? 0) >= MIN_MATCH_MARGIN;
+
+  return { exercise: isClear ? best.exercise : null, matches };
+};
+
+// Registered exercises that can be recognised, limited to the candidates when given
+const getCandidates = (exercises?: ExerciseType[]): ExerciseDefinition[] => {
+  const definitions = exercises
+    ? exercises.map(getExerciseDefinition)
+    : getExerciseList().map((exercise) => getExerciseDefinition(exercise.id));
+  return definitions.filter((definition) => definition.recognition !== undefined);
+};
+
+/**
+ * Recognise the exercise being done in a run of frames. Each candidate's
+ * signature is scored against the body posture, the stance, and which
+ * joints move and how far; the best match is only named when it scores
+ * well and clearly beats the runner-up.
+ */
+export const classifyExercise = (
+  frames: ClassifierFrame[],
+  exercises?: ExerciseType[]
+): ExerciseClassification => {
+  const definitions = getCandidates(exercises);
+  const triplets = getTriplets(definitions);
+  const features = frames
+    .map((frame) => getFrameFeatures(frame, triplets))
+    .filter((frame): frame is FrameFeatures => frame !== null);
+  return classifyFeatures(features, definitions);
+};
+
+/**
+ * Split a clip into the exercises done in it. A window of
+ * CLASSIFICATION_WINDOW_MS slides along the clip half a window at a time;
+ * neighbouring windows on the same exercise join into one segment, and
+ * windows where nothing is recognised (rest, walking between stations)
+ * are left out.
+ */
+export const segmentExercises = (
+  frames: ClassifierFrame[],
+  exercises?: ExerciseType[]
+): ExerciseSegment[] => {
+  const definitions = getCandidates(exercises);
+  const triplets = getTriplets(definitions);
+  const features = frames
+    .map((frame) => getFrameFeatures(frame, triplets))
+    .filter((frame): frame is FrameFeatures => frame !== null);
+  if (features.length === 0) return [];
+
+  const segments: ExerciseSegment[] = [];
+  const step = CLASSIFICATION_WINDOW_MS / 2;
+  const clipEnd = features[features.length - 1].timestamp;
+
+  for (let start = features[0].timestamp; start < clipEnd; start += step) {
+    const end = start + CLASSIFICATION_WINDOW_MS;
+    const window = features.filter((frame) => frame.timestamp >= start && frame.timestamp < end);
+    const { exercise } = classifyFeatures(window, definitions);
+    if (!exercise) continue;
+
+    const last = segments[segments.length - 1];
+    if (last && last.exercise === exercise && last.end >= start) {
+      last.end = Math.min(end, clipEnd);
+    } else {
+      // A new exercise starts where an overlapping window of the last one ended
+      const segmentStart = last ? Math.max(start, last.end) : start;
+      segments.push({ exercise, start: segmentStart, end: Math.min(end, clipEnd) });
+    }
+  }
+
+  return segments;
+};
+
+/**
+ * Rolling classifier for live camera frames: keeps the last
+ * CLASSIFICATION_WINDOW_MS of features and classifies them on demand.
+ */
+export class ExerciseClassifier {
+  private definitions: ExerciseDefinition[];
+  private triplets: JointTriplet[];
+  private frames: FrameFeatures[] = [];
+
+  constructor(exercises?: ExerciseType[]) {
+    this.definitions = getCandidates(exercises);
+    this.triplets = getTriplets(this.definitions);
+  }
+
+  reset(): void {
+    this.frames = [];
+  }
+
+  addFrame(keypoints: Keypoint[], timestamp: number): void {
+    const features = getFrameFeatures({ keypoints, timestamp }, this.triplets);
+    if (features) {
+      this.frames.push(features);
+    }
+    this.frames = this.frames.filter((frame) => timestamp - frame.timestamp < CLASSIFICATION_WINDOW_MS);
+  }
+
+  // True once a whole window of frames has been seen
+  isReady(): boolean {
+    if (this.frames.length < MIN_CLASSIFICATION_FRAMES) return false;
+    const first = this.frames[0].timestamp;
+    const last = this.frames[this.frames.length - 1].timestamp;
+    return last - first >= CLASSIFICATION_WINDOW_MS * 0.9;
+  }
+
+  classify(): ExerciseClassification {
+    return classifyFeatures(this.frames, this.definitions);
+  }
+}
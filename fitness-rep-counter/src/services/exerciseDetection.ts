@@ -1,138 +1,307 @@
-import { ExerciseType, Keypoint, RepData, JointAngles, FormIssue } from '../types';
-import { poseDetectionService, KEYPOINT_INDICES } from './poseDetection';
+import {
+  ExerciseType,
+  ExerciseDefinition,
+  ExercisePhase,
+  Keypoint,
+  RepData,
+  JointAngles,
+  FormIssue,
+  FormCheckContext,
+  StagedRep,
+  RepStageContext,
+  RepTempo,
+  TempoPhase,
+  HoldPosture,
+  HoldBreak,
+  HoldProgress,
+  BodySide,
+  UnilateralMovement,
+  KeypointFilterType,
+  RepDebounce,
+  RepDiagnostic,
+  RepRejectionReason,
+  RepQuality,
+  RepQualityReason,
+  ExerciseThresholds,
+  ExerciseCalibrations,
+} from '../types';
+import { poseDetectionService } from './poseDetection';
+import { KeypointFilter } from './keypointFilter';
+import { getExerciseDefinition } from '../data/exercises';
 import {
   calculateAngle,
   getJointAngles,
-  checkBodyAlignment,
-  getMidpoint,
+  getJointKeypoint,
+  getSideJointKeypoint,
   detectCameraView,
+  getBodyScale,
   CameraView,
 } from '../utils/angleCalculations';
+import {
+  AngleSample,
+  calculateRepTempo,
+  getTimeUnderTension,
+  getOffTempoPhases,
+} from '../utils/tempo';
+
+// Angle samples kept for the current rep - enough for a slow tempo rep at 30 fps
+const MAX_ANGLE_HISTORY = 600;
+// Pauses are time spent within this fraction of the ideal ROM of an end position
+const PAUSE_TOLERANCE_RATIO = 0.1;
+// Hold breaks shorter than this are pose jitter and not recorded
+const HOLD_BREAK_GRACE_MS = 500;
+// Longest frame gap credited to a hold, so a stalled camera doesn't count as holding
+const MAX_HOLD_FRAME_GAP_MS = 500;
+// How long the locked side may stay out of view before switching to the other side
+const SIDE_RELOCK_MS = 1500;
+// Rejected reps and crossings kept per set
+const MAX_DIAGNOSTICS = 100;
+// Shallowest turn back, as a share of the threshold range, that counts as
+// a partial rep rather than movement around an end position
+const MIN_PARTIAL_DEPTH = 25;
+// Form score below which a rep is a no-rep
+const MIN_FORM_SCORE = 50;
+
+// Rep counting guards for definitions that don't override them
+export const DEFAULT_REP_DEBOUNCE: RepDebounce = {
+  hysteresis: 5,
+  dwellMs: 100,
+  minRepMs: 300,
+  maxRepMs: 30000,
+};
+
+export const REP_REJECTION_LABELS: Record<RepRejectionReason, string> = {
+  bounce: 'Threshold bounce',
+  tooFast: 'Too fast',
+  tooSlow: 'Too slow',
+};
+
+export const REP_QUALITY_REASON_LABELS: Record<RepQualityReason, string> = {
+  shortOfTop: 'Short of the top',
+  shortOfBottom: 'Short of the bottom',
+  majorFormIssue: 'Major form issue',
+  lowFormScore: 'Low form score',
+  shortROM: 'Short range of motion',
+};
+
+// Time source in milliseconds - wall-clock time for live sessions,
+// the playback position for recorded video
+export type Clock = () => number;
+
+export interface ExerciseDetectionOptions {
+  exercise?: ExerciseType;
+  clock?: Clock;
+  side?: BodySide; // Measure one side of the body only (per-side detectors of unilateral exercises)
+  keypointFilter?: KeypointFilterType; // Smoothing applied to incoming keypoints
+}
+
+type SideDetectors = Record<BodySide, ExerciseDetectionService>;
+
+// Phase change waiting out its dwell time
+interface PendingPhase {
+  phase: ExercisePhase;
+  stage?: string; // Stage being reached (staged reps only)
+  since: number; // First frame past the threshold
+  lastFrameTime: number;
+  pastMs: number; // Time spent past the threshold so far
+}
 
-// Exercise phase states
-type ExercisePhase = 'up' | 'down' | 'neutral';
+// Rep that turned back before reaching one of its end positions
+interface PartialRep {
+  missed: Exclude<ExercisePhase, 'neutral'>;
+  depth: number; // % of the way from the other threshold to the missed one
+}
 
 interface ExerciseState {
   phase: ExercisePhase;
   minAngle: number;
   maxAngle: number;
-  repStartTime: number;
+  repStartTime: number | null; // Last frame in the start position before the current rep
+  pendingPhase: PendingPhase | null;
+  excursion: number | null; // Furthest angle toward the threshold the current swing is heading for
+  partialRep: PartialRep | null; // Set when the rep being completed is partial
+  diagnostics: RepDiagnostic[];
   formIssues: FormIssue[];
-  angleHistory: number[];
+  angleHistory: AngleSample[]; // Primary angle trajectory of the current rep
   peakPosition: Keypoint[] | null;
   bottomPosition: Keypoint[] | null;
   cameraView: CameraView;
+  lastPrimaryAngle: number | null;
+  stageIndex: number; // Stages reached in the current attempt (staged reps only)
+  // Hold exercises only
+  holdTime: number;
+  isHolding: boolean;
+  holdBreaks: HoldBreak[];
+  openBreak: HoldBreak | null; // Break in progress, duration still growing
+  lastHoldFrameTime: number | null;
 }
 
-// Thresholds for each exercise
-const EXERCISE_THRESHOLDS = {
-  pushups: {
-    upAngle: 160, // Arms extended
-    downAngle: 90, // Arms bent
-    minROM: 70, // Minimum range of motion percentage
-    idealElbowAngle: 45, // Ideal elbow angle from body
-  },
-  pullups: {
-    upAngle: 50, // Chin above bar (elbows bent)
-    downAngle: 160, // Arms extended (hanging)
-    minROM: 80,
-    idealShoulderEngagement: 30,
-  },
-  situps: {
-    upAngle: 70, // Sitting up (hip angle)
-    downAngle: 150, // Lying down
-    minROM: 60,
-  },
-  squats: {
-    upAngle: 170, // Standing (knee angle)
-    downAngle: 90, // Squatting
-    minROM: 70,
-    idealKneeAngle: 90,
-  },
-  deadlift: {
-    upAngle: 170, // Standing (hip angle)
-    downAngle: 90, // Bent over
-    minROM: 75,
-    idealSpineAngle: 10, // Near vertical spine at top
-  },
-  muscleup: {
-    pullPhaseUp: 60,
-    pullPhaseDown: 160,
-    pushPhaseUp: 170,
-    pushPhaseDown: 90,
-    minROM: 85,
-  },
-  dips: {
-    upAngle: 170, // Arms extended
-    downAngle: 90, // Arms bent
-    minROM: 70,
-  },
-};
-
-class ExerciseDetectionService {
+export class ExerciseDetectionService {
   private state: ExerciseState = {
     phase: 'neutral',
     minAngle: 180,
     maxAngle: 0,
-    repStartTime: 0,
+    repStartTime: null,
+    pendingPhase: null,
+    excursion: null,
+    partialRep: null,
+    diagnostics: [],
     formIssues: [],
     angleHistory: [],
     peakPosition: null,
     bottomPosition: null,
     cameraView: 'unknown',
+    lastPrimaryAngle: null,
+    stageIndex: 0,
+    holdTime: 0,
+    isHolding: false,
+    holdBreaks: [],
+    openBreak: null,
+    lastHoldFrameTime: null,
   };
 
-  private currentExercise: ExerciseType = 'pushups';
+  private currentExercise: ExerciseType;
+  private definition: ExerciseDefinition;
+  private readonly clock: Clock;
   private repCount = 0;
   private lastKeypoints: Keypoint[] | null = null;
+  private frameTime = 0; // Timestamp of the frame being processed
+  private targetTempo: RepTempo | null = null;
+  private calibrations: ExerciseCalibrations = {};
+  // Unilateral exercises - one detector per side, fed only while that side works
+  private readonly side: BodySide | null;
+  private sideDetectors: SideDetectors | null = null;
+  private pinnedSide: BodySide | null = null;
+  private workingSide: BodySide | null = null;
+  private readonly keypointFilter: KeypointFilter;
+  // Bilateral exercises - side the primary angle is measured on for the set
+  private lockedSide: BodySide | null = null;
+  private lockedSideSeenAt = 0;
+
+  constructor({ exercise = 'pushups', clock = Date.now, side, keypointFilter }: ExerciseDetectionOptions = {}) {
+    this.currentExercise = exercise;
+    this.definition = getExerciseDefinition(exercise);
+    this.clock = clock;
+    this.side = side ?? null;
+    this.keypointFilter = new KeypointFilter(keypointFilter);
+    this.sideDetectors = this.createSideDetectors();
+  }
 
   setExercise(exercise: ExerciseType): void {
     this.currentExercise = exercise;
+    this.definition = getExerciseDefinition(exercise);
+    this.sideDetectors = this.createSideDetectors();
     this.reset();
   }
 
+  // Reps outside this tempo are flagged with their off-tempo phases
+  setTargetTempo(tempo: RepTempo | null): void {
+    this.targetTempo = tempo;
+    this.sideDetectors?.left.setTargetTempo(tempo);
+    this.sideDetectors?.right.setTargetTempo(tempo);
+  }
+
+  // Personal thresholds - an exercise with a calibration uses them in
+  // place of its definition's
+  setCalibrations(calibrations: ExerciseCalibrations): void {
+    this.calibrations = calibrations;
+    this.sideDetectors?.left.setCalibrations(calibrations);
+    this.sideDetectors?.right.setCalibrations(calibrations);
+  }
+
+  // Keypoints are smoothed once here, before the per-side detectors see them
+  setKeypointFilter(type: KeypointFilterType): void {
+    this.keypointFilter.setType(type);
+  }
+
+  // Pin a unilateral exercise to one side (same-side sets), or pass
+  // null to count whichever side the definition says is working
+  setSide(side: BodySide | null): void {
+    this.pinnedSide = side;
+    this.workingSide = side;
+  }
+
+  private createSideDetectors(): SideDetectors | null {
+    if (!this.definition.unilateral || this.side) return null;
+
+    const options = { exercise: this.currentExercise, clock: this.clock, keypointFilter: 'off' as const };
+    const detectors: SideDetectors = {
+      left: new ExerciseDetectionService({ ...options, side: 'left' }),
+      right: new ExerciseDetectionService({ ...options, side: 'right' }),
+    };
+    detectors.left.setTargetTempo(this.targetTempo);
+    detectors.right.setTargetTempo(this.targetTempo);
+    detectors.left.setCalibrations(this.calibrations);
+    detectors.right.setCalibrations(this.calibrations);
+    return detectors;
+  }
+
   reset(): void {
     this.state = {
       phase: 'neutral',
       minAngle: 180,
       maxAngle: 0,
-      repStartTime: 0,
+      repStartTime: null,
+      pendingPhase: null,
+      excursion: null,
+      partialRep: null,
+      diagnostics: [],
       formIssues: [],
       angleHistory: [],
       peakPosition: null,
       bottomPosition: null,
       cameraView: 'unknown',
+      lastPrimaryAngle: null,
+      stageIndex: 0,
+      holdTime: 0,
+      isHolding: false,
+      holdBreaks: [],
+      openBreak: null,
+      lastHoldFrameTime: null,
     };
     this.repCount = 0;
     this.lastKeypoints = null;
+    this.workingSide = this.pinnedSide;
+    this.lockedSide = null;
+    this.keypointFilter.reset();
+    this.sideDetectors?.left.reset();
+    this.sideDetectors?.right.reset();
   }
 
-  // Main detection method - returns RepData if a rep was completed
-  detectRep(keypoints: Keypoint[]): RepData | null {
+  // Main detection method - returns RepData if a rep was completed.
+  // Defaults to the clock's current time; pass the frame's capture time
+  // when inference lags behind it (or when replaying a recording).
+  // Holds never complete a rep - read them with getHoldProgress().
+  detectRep(rawKeypoints: Keypoint[], timestamp: number = this.clock()): RepData | null {
+    this.frameTime = timestamp;
+    const keypoints = this.keypointFilter.filter(rawKeypoints, timestamp);
+
     // Update camera view detection
     const detectedView = detectCameraView(keypoints);
     if (detectedView !== 'unknown') {
       this.state.cameraView = detectedView;
     }
 
+    if (this.sideDetectors && this.definition.unilateral) {
+      return this.detectUnilateralRep(keypoints, this.definition.unilateral, this.sideDetectors);
+    }
+
     const primaryAngle = this.getPrimaryAngle(keypoints);
-    if (primaryAngle === null) {
-      // Debug: log when we can't get an angle
-      if (this.currentExercise === 'pushups') {
-        console.log('[PushUp Debug] Cannot calculate angle - missing keypoints');
-      }
+    this.state.lastPrimaryAngle = primaryAngle;
+
+    if (this.definition.hold) {
+      this.updateHold(keypoints, primaryAngle, this.definition.hold);
+      this.lastKeypoints = keypoints;
       return null;
     }
 
-    // Debug logging for push-ups
-    if (this.currentExercise === 'pushups') {
-      const thresholds = EXERCISE_THRESHOLDS.pushups;
-      console.log(`[PushUp Debug] Angle: ${primaryAngle.toFixed(1)}°, Phase: ${this.state.phase}, Down<${thresholds.downAngle}, Up>${thresholds.upAngle}`);
+    if (primaryAngle === null) {
+      return null;
     }
 
-    // Track angle history for ROM calculation
-    this.state.angleHistory.push(primaryAngle);
-    if (this.state.angleHistory.length > 100) {
+    // Track angle history for ROM and tempo calculation
+    this.state.angleHistory.push({ angle: primaryAngle, time: this.frameTime });
+    if (this.state.angleHistory.length > MAX_ANGLE_HISTORY) {
       this.state.angleHistory.shift();
     }
 
@@ -153,163 +322,465 @@ class ExerciseDetectionService {
   }
 
   private getPrimaryAngle(keypoints: Keypoint[]): number | null {
-    const getKP = (name: keyof typeof KEYPOINT_INDICES) =>
-      poseDetectionService.getKeypoint(keypoints, name);
-
-    switch (this.currentExercise) {
-      case 'pushups':
-      case 'dips': {
-        // Use elbow angle
-        const shoulder = getKP('rightShoulder') || getKP('leftShoulder');
-        const elbow = getKP('rightElbow') || getKP('leftElbow');
-        const wrist = getKP('rightWrist') || getKP('leftWrist');
-        if (!shoulder || !elbow || !wrist) return null;
-        return calculateAngle(shoulder, elbow, wrist);
-      }
+    const side = this.side ?? this.getLockedSide(keypoints);
+    const [first, vertex, last] = this.definition.primaryJoint.map((joint) =>
+      side ? getSideJointKeypoint(keypoints, joint, side) : getJointKeypoint(keypoints, joint)
+    );
+    if (!first || !vertex || !last) return null;
+    return calculateAngle(first, vertex, last);
+  }
 
-      case 'pullups':
-      case 'muscleup': {
-        // Use elbow angle (inverted logic - bent = up)
-        const shoulder = getKP('rightShoulder') || getKP('leftShoulder');
-        const elbow = getKP('rightElbow') || getKP('leftElbow');
-        const wrist = getKP('rightWrist') || getKP('leftWrist');
-        if (!shoulder || !elbow || !wrist) return null;
-        return calculateAngle(shoulder, elbow, wrist);
-      }
+  /**
+   * Side a bilateral exercise's primary angle is measured on. The left and
+   * right joints never read exactly the same angle, so switching between
+   * them frame to frame looks like movement - the side with the most
+   * confident primary joints is locked for the set instead. It only
+   * changes once the locked side has been out of view for SIDE_RELOCK_MS.
+   */
+  private getLockedSide(keypoints: Keypoint[]): BodySide | null {
+    const confidence = (side: BodySide): number | null => {
+      const points = this.definition.primaryJoint.map((joint) => getSideJointKeypoint(keypoints, joint, side));
+      if (points.some((point) => !point)) return null;
+      return points.reduce((sum, point) => sum + (point?.score ?? 1), 0);
+    };
+    const left = confidence('left');
+    const right = confidence('right');
 
-      case 'situps': {
-        // Use hip angle
-        const shoulder = getKP('rightShoulder') || getKP('leftShoulder');
-        const hip = getKP('rightHip') || getKP('leftHip');
-        const knee = getKP('rightKnee') || getKP('leftKnee');
-        if (!shoulder || !hip || !knee) return null;
-        return calculateAngle(shoulder, hip, knee);
+    if (this.lockedSide) {
+      if ((this.lockedSide === 'left' ? left : right) !== null) {
+        this.lockedSideSeenAt = this.frameTime;
+        return this.lockedSide;
       }
+      if (this.frameTime - this.lockedSideSeenAt < SIDE_RELOCK_MS) return this.lockedSide;
+    }
 
-      case 'squats': {
-        // Use knee angle
-        const hip = getKP('rightHip') || getKP('leftHip');
-        const knee = getKP('rightKnee') || getKP('leftKnee');
-        const ankle = getKP('rightAnkle') || getKP('leftAnkle');
-        if (!hip || !knee || !ankle) return null;
-        return calculateAngle(hip, knee, ankle);
-      }
+    if (left === null && right === null) return this.lockedSide;
+    this.lockedSide = right === null || (left !== null && left > right) ? 'left' : 'right';
+    this.lockedSideSeenAt = this.frameTime;
+    return this.lockedSide;
+  }
+
+  private checkRepCompletion(keypoints: Keypoint[], angle: number): RepData | null {
+    const stagedRep = this.definition.stagedRep;
+    const repCompleted = stagedRep
+      ? this.advanceStages(keypoints, angle, stagedRep)
+      : this.advancePhase(angle);
+
+    if (repCompleted && this.isPlausibleRep(angle)) {
+      const repData = this.createRepData(keypoints);
+      this.repCount++;
+      this.clearRepTracking();
+      return repData;
+    }
+
+    // Continuous form checking
+    this.checkForm(keypoints);
+
+    return null;
+  }
+
+  // Reset ROM, form and tempo tracking for the next rep
+  private clearRepTracking(): void {
+    this.state.repStartTime = null;
+    this.state.minAngle = 180;
+    this.state.maxAngle = 0;
+    this.state.excursion = null;
+    this.state.partialRep = null;
+    this.state.formIssues = [];
+    this.state.angleHistory = [];
+    this.state.peakPosition = null;
+    this.state.bottomPosition = null;
+  }
+
+  /**
+   * Only the working side's detector sees the frame, so the resting limb
+   * (or the back leg of a lunge) never counts a rep of its own. A side
+   * that takes over after sitting idle drops any partial rep and starts
+   * fresh, since its tracking stopped while the other side worked.
+   */
+  private detectUnilateralRep(
+    keypoints: Keypoint[],
+    unilateral: UnilateralMovement,
+    sideDetectors: SideDetectors
+  ): RepData | null {
+    const side = this.pinnedSide ?? unilateral.getWorkingSide({
+      keypoints,
+      getKeypoint: (name) => poseDetectionService.getKeypoint(keypoints, name),
+      getSideAngle: (s) => sideDetectors[s].getPrimaryAngle(keypoints),
+    }) ?? this.workingSide;
+    this.lastKeypoints = keypoints;
+
+    if (!side) {
+      this.state.lastPrimaryAngle = null;
+      return null;
+    }
 
-      case 'deadlift': {
-        // Use hip angle
-        const shoulder = getKP('rightShoulder') || getKP('leftShoulder');
-        const hip = getKP('rightHip') || getKP('leftHip');
-        const knee = getKP('rightKnee') || getKP('leftKnee');
-        if (!shoulder || !hip || !knee) return null;
-        return calculateAngle(shoulder, hip, knee);
+    const detector = sideDetectors[side];
+    if (side !== this.workingSide) {
+      detector.restartAttempt();
+      this.workingSide = side;
+    }
+
+    const rep = detector.detectRep(keypoints, this.frameTime);
+    this.state.lastPrimaryAngle = detector.state.lastPrimaryAngle;
+    if (!rep) return null;
+
+    this.repCount++;
+    return { ...rep, repNumber: this.repCount, side };
+  }
+
+  private restartAttempt(): void {
+    this.clearRepTracking();
+    this.state.pendingPhase = null;
+    this.state.phase = 'neutral';
+    this.state.stageIndex = 0;
+  }
+
+  private getThresholds(): ExerciseThresholds {
+    return { ...this.definition.thresholds, ...this.calibrations[this.currentExercise]?.thresholds };
+  }
+
+  private getRepDebounce(): RepDebounce {
+    return { ...DEFAULT_REP_DEBOUNCE, ...this.definition.debounce };
+  }
+
+  private addDiagnostic(diagnostic: Omit<RepDiagnostic, 'timestamp'>): void {
+    this.state.diagnostics.push({
+      ...diagnostic,
+      timestamp: this.frameTime,
+      side: this.side ?? undefined,
+    });
+    if (this.state.diagnostics.length > MAX_DIAGNOSTICS) {
+      this.state.diagnostics.shift();
+    }
+  }
+
+  /**
+   * Single up/down cycle - returns true when a rep was completed. A swing
+   * that turns back at least MIN_PARTIAL_DEPTH of the way to the other
+   * threshold without crossing it completes a partial rep: from the start
+   * position back to it short of the turn, or from the turn back to it
+   * short of the start, in which case the next rep starts there.
+   */
+  private advancePhase(angle: number): boolean {
+    const { upAngle, downAngle } = this.getThresholds();
+    const { hysteresis } = this.getRepDebounce();
+
+    // A rep leaves the start phase, crosses the turn threshold and comes back.
+    // Whether the angle closes or opens on the way out depends on the
+    // exercise (push-ups bend the elbow going down, pull-ups going up).
+    const startPhase = this.definition.startPhase;
+    const turnPhase = startPhase === 'up' ? 'down' : 'up';
+    const startThreshold = startPhase === 'up' ? upAngle : downAngle;
+    const turnThreshold = startPhase === 'up' ? downAngle : upAngle;
+    const closesTowardTurn = turnThreshold < startThreshold;
+
+    const pastTurn = closesTowardTurn ? angle < turnThreshold : angle > turnThreshold;
+    const backAtStart = closesTowardTurn ? angle > startThreshold : angle < startThreshold;
+    // Within the hysteresis band - a pending phase change holds rather than cancels
+    const nearTurn = closesTowardTurn ? angle < turnThreshold + hysteresis : angle > turnThreshold - hysteresis;
+    const nearStart = closesTowardTurn ? angle > startThreshold - hysteresis : angle < startThreshold + hysteresis;
+    // How far a swing got from one threshold toward the other, %
+    const depthFrom = (threshold: number, reached: number | null) =>
+      reached === null ? 0 : (Math.abs(reached - threshold) / Math.abs(turnThreshold - startThreshold)) * 100;
+
+    if (this.state.phase === 'neutral' || this.state.phase === startPhase) {
+      if (backAtStart) {
+        if (this.endSwing(turnPhase, depthFrom(startThreshold, this.state.excursion))) return true;
+        this.state.repStartTime = this.frameTime;
+      } else if (this.state.repStartTime !== null) {
+        this.trackExcursion(angle, closesTowardTurn);
+      }
+      if (this.settlePhase(turnPhase, pastTurn, nearTurn, angle)) {
+        // No frame in the start position yet (e.g. the set began mid-rep)
+        this.state.repStartTime ??= this.frameTime;
+        this.state.excursion = null;
+        this.state.phase = turnPhase;
+      }
+    } else if (this.state.phase === turnPhase) {
+      // The frame after a partial rep that missed the start begins the next rep
+      this.state.repStartTime ??= this.frameTime;
+      if (pastTurn) {
+        if (this.endSwing(startPhase, depthFrom(turnThreshold, this.state.excursion))) return true;
+      } else {
+        this.trackExcursion(angle, !closesTowardTurn);
       }
+      if (this.settlePhase(startPhase, backAtStart, nearStart, angle)) {
+        this.state.excursion = null;
+        this.state.phase = startPhase;
+        return true;
+      }
+    }
 
-      default:
-        return null;
+    return false;
+  }
+
+  private trackExcursion(angle: number, closing: boolean): void {
+    const { excursion } = this.state;
+    if (excursion === null || (closing ? angle < excursion : angle > excursion)) {
+      this.state.excursion = angle;
     }
   }
 
-  private checkRepCompletion(keypoints: Keypoint[], angle: number): RepData | null {
-    const thresholds = EXERCISE_THRESHOLDS[this.currentExercise];
-    if (!thresholds) return null;
-
-    let repCompleted = false;
-
-    // Different exercises have different rep completion logic
-    switch (this.currentExercise) {
-      case 'pushups':
-      case 'dips':
-      case 'squats':
-      case 'situps':
-      case 'deadlift': {
-        const upThreshold = 'upAngle' in thresholds ? thresholds.upAngle : 170;
-        const downThreshold = 'downAngle' in thresholds ? thresholds.downAngle : 90;
-
-        if (this.state.phase === 'neutral' || this.state.phase === 'up') {
-          if (angle < downThreshold) {
-            if (this.state.phase === 'neutral') {
-              this.state.repStartTime = Date.now();
-            }
-            this.state.phase = 'down';
-          }
-        } else if (this.state.phase === 'down') {
-          if (angle > upThreshold) {
-            this.state.phase = 'up';
-            repCompleted = true;
-          }
-        }
-        break;
+  // A swing back to the position it left - true when it got far enough
+  // toward the missed position, without reaching it, to be a partial rep
+  private endSwing(missed: Exclude<ExercisePhase, 'neutral'>, depth: number): boolean {
+    this.state.excursion = null;
+    if (depth < MIN_PARTIAL_DEPTH || depth >= 100) return false;
+
+    this.state.pendingPhase = null;
+    this.state.partialRep = { missed, depth: Math.round(depth) };
+    return true;
+  }
+
+  /**
+   * Debounces a threshold crossing - returns true once the angle has
+   * spent the dwell time past the threshold. Frames that fall back into
+   * the hysteresis band pause the dwell clock; leaving the band cancels
+   * the change, which is reported as a bounce. Staged reps settle their
+   * start position and each `stage` the same way, with no band.
+   */
+  private settlePhase(
+    phase: ExercisePhase,
+    isPast: boolean,
+    isNear: boolean,
+    angle: number,
+    stage?: string
+  ): boolean {
+    const { dwellMs } = this.getRepDebounce();
+    const { pendingPhase } = this.state;
+    const pending = pendingPhase?.phase === phase && pendingPhase.stage === stage ? pendingPhase : null;
+
+    if (!pending) {
+      if (!isPast) return false;
+      this.state.pendingPhase = { phase, stage, since: this.frameTime, lastFrameTime: this.frameTime, pastMs: 0 };
+    } else if (isPast) {
+      pending.pastMs += this.frameTime - pending.lastFrameTime;
+      pending.lastFrameTime = this.frameTime;
+    } else if (isNear) {
+      pending.lastFrameTime = this.frameTime;
+      return false;
+    } else {
+      this.addDiagnostic({ reason: 'bounce', angle, duration: this.frameTime - pending.since, phase, stage });
+      this.state.pendingPhase = null;
+      return false;
+    }
+
+    if (this.state.pendingPhase && this.state.pendingPhase.pastMs >= dwellMs) {
+      this.state.pendingPhase = null;
+      return true;
+    }
+    return false;
+  }
+
+  // Reps outside the plausible duration are dropped and reported
+  private isPlausibleRep(angle: number): boolean {
+    const { minRepMs, maxRepMs } = this.getRepDebounce();
+    const duration = this.frameTime - (this.state.repStartTime ?? this.frameTime);
+    if (duration >= minRepMs && duration <= maxRepMs) return true;
+
+    this.addDiagnostic({ reason: duration < minRepMs ? 'tooFast' : 'tooSlow', angle, duration });
+    this.clearRepTracking();
+    return false;
+  }
+
+  /**
+   * Multi-stage rep (e.g. muscle-up): stages must be reached in order.
+   * Returns true when an attempt ends - either every stage was reached,
+   * or the body went back to the start first, in which case the missed
+   * stage's failure issue is recorded so the rep is reported as invalid.
+   * Reaching a stage or the start position only counts once it has held
+   * for the dwell time, so a single noisy frame neither advances nor
+   * abandons an attempt.
+   */
+  private advanceStages(keypoints: Keypoint[], angle: number, stagedRep: StagedRep): boolean {
+    const { stages, isAtStart } = stagedRep;
+    const startPhase = this.definition.startPhase;
+    const turnPhase = startPhase === 'up' ? 'down' : 'up';
+    const context: RepStageContext = {
+      angle,
+      keypoints,
+      bodyScale: getBodyScale(keypoints),
+      getKeypoint: (name) => poseDetectionService.getKeypoint(keypoints, name),
+    };
+    const atStart = isAtStart(context);
+
+    // After a completed rep, wait for the return to the start position
+    if (this.state.phase === turnPhase && this.state.stageIndex === 0) {
+      if (this.settlePhase(startPhase, atStart, false, angle)) {
+        this.state.phase = startPhase;
       }
+      return false;
+    }
 
-      case 'pullups':
-      case 'muscleup': {
-        // Inverted - we start extended and pull up
-        const upThreshold = 'upAngle' in thresholds ? thresholds.upAngle : 60;
-        const downThreshold = 'downAngle' in thresholds ? thresholds.downAngle : 160;
-
-        if (this.state.phase === 'neutral' || this.state.phase === 'down') {
-          if (angle < upThreshold) {
-            if (this.state.phase === 'neutral') {
-              this.state.repStartTime = Date.now();
-            }
-            this.state.phase = 'up';
-          }
-        } else if (this.state.phase === 'up') {
-          if (angle > downThreshold) {
-            this.state.phase = 'down';
-            repCompleted = true;
-          }
+    // The attempt starts when the body last left the start position. One
+    // that turns back at least MIN_PARTIAL_DEPTH of the way to the turn
+    // threshold without reaching the first stage fails that stage.
+    if (this.state.stageIndex === 0) {
+      const { upAngle, downAngle } = this.getThresholds();
+      const startThreshold = startPhase === 'up' ? upAngle : downAngle;
+      const turnThreshold = startPhase === 'up' ? downAngle : upAngle;
+      const { excursion } = this.state;
+
+      if (excursion === null) {
+        if (atStart) {
+          this.state.repStartTime = this.frameTime;
+        } else if (this.state.repStartTime !== null) {
+          this.trackExcursion(angle, turnThreshold < startThreshold);
+        }
+      } else if (this.settlePhase(startPhase, atStart, false, angle)) {
+        this.state.excursion = null;
+        if ((Math.abs(excursion - startThreshold) / Math.abs(turnThreshold - startThreshold)) * 100 >= MIN_PARTIAL_DEPTH) {
+          this.addFormIssue(stages[0].failureIssue);
+          this.state.phase = startPhase;
+          return true;
         }
-        break;
+        this.state.repStartTime = this.frameTime;
+      } else if (!atStart) {
+        this.trackExcursion(angle, turnThreshold < startThreshold);
       }
     }
 
-    if (repCompleted) {
-      const repData = this.createRepData(keypoints);
-      this.repCount++;
-      
-      // Reset for next rep
-      this.state.minAngle = 180;
-      this.state.maxAngle = 0;
-      this.state.formIssues = [];
-      this.state.angleHistory = [];
-      this.state.peakPosition = null;
-      this.state.bottomPosition = null;
-      
-      return repData;
+    // Attempt abandoned part-way through
+    if (this.state.stageIndex > 0 && this.settlePhase(startPhase, atStart, false, angle)) {
+      this.addFormIssue(stages[this.state.stageIndex].failureIssue);
+      this.state.stageIndex = 0;
+      this.state.phase = startPhase;
+      return true;
     }
 
-    // Continuous form checking
-    this.checkForm(keypoints);
+    const nextStage = stages[this.state.stageIndex];
+    if (!this.settlePhase(turnPhase, nextStage.isReached(context), false, angle, nextStage.name)) {
+      return false;
+    }
 
-    return null;
+    if (this.state.stageIndex === 0) {
+      this.state.repStartTime ??= this.frameTime;
+      this.state.excursion = null;
+      this.state.phase = turnPhase;
+    }
+    this.state.stageIndex++;
+
+    if (this.state.stageIndex === stages.length) {
+      this.state.stageIndex = 0;
+      return true;
+    }
+
+    return false;
+  }
+
+  // Accumulate hold time while the posture is held; the clock pauses
+  // (and a break is opened) as soon as it is lost
+  private updateHold(keypoints: Keypoint[], angle: number | null, hold: HoldPosture): void {
+    const isHeld = angle !== null && hold.isHeld({
+      angle,
+      keypoints,
+      bodyScale: getBodyScale(keypoints),
+      getKeypoint: (name) => poseDetectionService.getKeypoint(keypoints, name),
+    });
+    const elapsed = this.state.lastHoldFrameTime === null
+      ? 0
+      : Math.min(this.frameTime - this.state.lastHoldFrameTime, MAX_HOLD_FRAME_GAP_MS);
+    this.state.lastHoldFrameTime = this.frameTime;
+
+    if (isHeld) {
+      if (this.state.isHolding) {
+        this.state.holdTime += elapsed;
+      } else if (this.state.openBreak) {
+        this.closeHoldBreak(this.state.openBreak, hold);
+      }
+      this.state.isHolding = true;
+    } else if (this.state.isHolding) {
+      this.state.isHolding = false;
+      this.state.openBreak = {
+        timestamp: this.frameTime,
+        duration: 0,
+        issue: hold.breakIssue.message,
+      };
+    } else if (this.state.openBreak && this.frameTime - this.state.openBreak.timestamp >= HOLD_BREAK_GRACE_MS) {
+      // Jitter shorter than the grace period is not a form fault
+      this.addFormIssue(hold.breakIssue);
+    }
+  }
+
+  private closeHoldBreak(openBreak: HoldBreak, hold: HoldPosture): void {
+    const duration = this.frameTime - openBreak.timestamp;
+    if (duration >= HOLD_BREAK_GRACE_MS) {
+      this.state.holdBreaks.push({ ...openBreak, duration });
+      this.addFormIssue(hold.breakIssue);
+    }
+    this.state.openBreak = null;
+  }
+
+  // Null for rep-based exercises
+  getHoldProgress(): HoldProgress | null {
+    if (!this.definition.hold) return null;
+
+    const { openBreak } = this.state;
+    const ongoingBreak = openBreak && this.frameTime - openBreak.timestamp >= HOLD_BREAK_GRACE_MS
+      ? [{ ...openBreak, duration: this.frameTime - openBreak.timestamp }]
+      : [];
+
+    return {
+      holdTime: this.state.holdTime,
+      isHolding: this.state.isHolding,
+      breaks: [...this.state.holdBreaks, ...ongoingBreak],
+    };
   }
 
   private createRepData(keypoints: Keypoint[]): RepData {
     const jointAngles = getJointAngles(keypoints);
     const rom = this.calculateROM();
     const formScore = this.calculateFormScore(keypoints, jointAngles, rom);
-    const isValid = this.isRepValid(rom, formScore);
+    const { quality, qualityReason } = this.getRepQuality(rom, formScore);
+    const tempo = this.calculateTempo();
 
     return {
       repNumber: this.repCount + 1,
-      timestamp: Date.now(),
-      duration: Date.now() - this.state.repStartTime,
-      isValid,
+      timestamp: this.frameTime,
+      duration: this.frameTime - (this.state.repStartTime ?? this.frameTime),
+      isValid: quality === 'full',
+      quality,
+      qualityReason,
+      partialDepth: quality === 'partial' ? this.state.partialRep?.depth : undefined,
       formScore,
       jointAngles,
       rangeOfMotion: rom,
       issues: this.state.formIssues.map(issue => issue.message),
+      tempo,
+      timeUnderTension: getTimeUnderTension(tempo, this.definition.startPhase),
+      offTempoPhases: this.targetTempo ? this.checkTempo(tempo, this.targetTempo) : undefined,
     };
   }
 
+  private calculateTempo(): RepTempo {
+    const { startPhase } = this.definition;
+    const { upAngle, downAngle } = this.getThresholds();
+    const turnThreshold = startPhase === 'up' ? downAngle : upAngle;
+    const startThreshold = startPhase === 'up' ? upAngle : downAngle;
+
+    return calculateRepTempo(this.state.angleHistory, {
+      startPhase,
+      closesTowardTurn: turnThreshold < startThreshold,
+      pauseTolerance: Math.abs(upAngle - downAngle) * PAUSE_TOLERANCE_RATIO,
+      // The first rep has no previous rep to measure its start pause from
+      includeStartPause: this.repCount > 0,
+    });
+  }
+
+  // The first rep's start pause isn't measured, so it can't miss the target
+  private checkTempo(tempo: RepTempo, target: RepTempo): TempoPhase[] {
+    const offTempo = getOffTempoPhases(tempo, target);
+    if (this.repCount > 0) return offTempo;
+
+    const startPause = this.definition.startPhase === 'up' ? 'topPause' : 'bottomPause';
+    return offTempo.filter((phase) => phase !== startPause);
+  }
+
   private calculateROM(): number {
-    const thresholds = EXERCISE_THRESHOLDS[this.currentExercise];
-    if (!thresholds || !('upAngle' in thresholds) || !('downAngle' in thresholds)) {
-      return 100;
-    }
+    const { upAngle, downAngle } = this.getThresholds();
 
-    const idealRange = Math.abs(thresholds.upAngle - thresholds.downAngle);
+    const idealRange = Math.abs(upAngle - downAngle);
     const actualRange = Math.abs(this.state.maxAngle - this.state.minAngle);
     
     return Math.min(100, (actualRange / idealRange) * 100);
@@ -324,35 +795,7 @@ class ExerciseDetectionService {
     }
 
     // Check exercise-specific form
-    switch (this.currentExercise) {
-      case 'pushups': {
-        // Check body alignment
-        const alignmentScore = checkBodyAlignment(keypoints);
-        if (alignmentScore < 80) {
-          score -= (80 - alignmentScore) * 0.3;
-        }
-        break;
-      }
-
-      case 'squats': {
-        // Check knee tracking
-        if (angles.leftKnee && angles.rightKnee) {
-          const kneeSymmetry = Math.abs(angles.leftKnee - angles.rightKnee);
-          if (kneeSymmetry > 15) {
-            score -= kneeSymmetry * 0.2;
-          }
-        }
-        break;
-      }
-
-      case 'deadlift': {
-        // Check spine angle
-        if (angles.spine && angles.spine > 20) {
-          score -= (angles.spine - 20) * 0.5;
-        }
-        break;
-      }
-    }
+    score -= this.definition.formScorePenalty?.(keypoints, angles) ?? 0;
 
     // Deduct for form issues
     score -= this.state.formIssues.filter(i => i.severity === 'major').length * 10;
@@ -362,180 +805,47 @@ class ExerciseDetectionService {
     return Math.max(0, Math.min(100, score));
   }
 
-  private isRepValid(rom: number, formScore: number): boolean {
-    const thresholds = EXERCISE_THRESHOLDS[this.currentExercise];
-    const minROM = thresholds && 'minROM' in thresholds ? thresholds.minROM : 70;
-    
-    return rom >= minROM && formScore >= 50 && 
-           this.state.formIssues.filter(i => i.severity === 'major').length === 0;
+  // Form failures make any rep a no-rep; a partial rep is short of an end
+  // position by definition, so only full reps are held to the minimum ROM
+  private getRepQuality(rom: number, formScore: number): { quality: RepQuality; qualityReason?: RepQualityReason } {
+    const { minROM } = this.getThresholds();
+    const partial = this.state.partialRep;
+
+    if (this.state.formIssues.some(i => i.severity === 'major')) {
+      return { quality: 'noRep', qualityReason: 'majorFormIssue' };
+    }
+    if (formScore < MIN_FORM_SCORE) {
+      return { quality: 'noRep', qualityReason: 'lowFormScore' };
+    }
+    if (partial) {
+      return { quality: 'partial', qualityReason: partial.missed === 'up' ? 'shortOfTop' : 'shortOfBottom' };
+    }
+    if (rom < minROM) {
+      return { quality: 'noRep', qualityReason: 'shortROM' };
+    }
+    return { quality: 'full' };
   }
 
   private checkForm(keypoints: Keypoint[]): void {
-    const getKP = (name: keyof typeof KEYPOINT_INDICES) =>
-      poseDetectionService.getKeypoint(keypoints, name);
-
-    switch (this.currentExercise) {
-      case 'pushups': {
-        // View-aware push-up form checking:
-        // - Side view: best for hip alignment & elbow depth
-        // - Front view: best for elbow flare & symmetry
-        // - Oblique: general form check
-        const view = this.state.cameraView;
-
-        // 1. Hip/Body Alignment (Plank check) - works in all views but best in side/oblique
-        // Target: 170-180 degrees (straight line from shoulder through hip to ankle)
-        const alignmentScore = checkBodyAlignment(keypoints);
-        if (alignmentScore < 85) {
-          const isSagging = this.detectHipSag(keypoints);
-          this.addFormIssue({
-            type: 'alignment',
-            severity: alignmentScore < 75 ? 'major' : 'moderate',
-            message: isSagging
-              ? 'No rep. Hips are sagging - engage your core.'
-              : 'No rep. Keep your body in a straight line from shoulders through hips to ankles.',
-            recommendation: 'Engage your core and glutes to maintain a rigid plank position.',
-          });
-        }
-
-        // 2. Elbow Flare (Shoulder angle check) - best in front/oblique view
-        // Target: 20-45 degrees from torso. Warning: >70 degrees
-        const leftShoulder = getKP('leftShoulder');
-        const rightShoulder = getKP('rightShoulder');
-        const leftElbow = getKP('leftElbow');
-        const rightElbow = getKP('rightElbow');
-        const leftHip = getKP('leftHip');
-        const rightHip = getKP('rightHip');
-
-        if (view === 'front' || view === 'oblique') {
-          // Calculate shoulder-torso angle (elbow flare) using hip-shoulder-elbow
-          if (leftShoulder && leftElbow && leftHip) {
-            const leftShoulderAngle = calculateAngle(leftHip, leftShoulder, leftElbow);
-            if (leftShoulderAngle > 70) {
-              this.addFormIssue({
-                type: 'elbowFlare',
-                severity: leftShoulderAngle > 90 ? 'major' : 'moderate',
-                message: 'Elbows flaring out too much.',
-                recommendation: 'Tuck your elbows at 20-45 degrees from your body.',
-              });
-            }
-          }
-          if (rightShoulder && rightElbow && rightHip) {
-            const rightShoulderAngle = calculateAngle(rightHip, rightShoulder, rightElbow);
-            if (rightShoulderAngle > 70) {
-              this.addFormIssue({
-                type: 'elbowFlare',
-                severity: rightShoulderAngle > 90 ? 'major' : 'moderate',
-                message: 'Elbows flaring out too much.',
-                recommendation: 'Tuck your elbows at 20-45 degrees from your body.',
-              });
-            }
-          }
-        }
-
-        // Check elbow width ratio in front view for symmetry/flare
-        if (leftShoulder && rightShoulder && leftElbow && rightElbow) {
-          const shoulderWidth = Math.abs(rightShoulder.x - leftShoulder.x);
-          const elbowWidth = Math.abs(rightElbow.x - leftElbow.x);
-          const elbowFlareRatio = elbowWidth / shoulderWidth;
-
-          // If elbows are much wider than shoulders, they're flaring
-          if (elbowFlareRatio > 1.5) {
-            this.addFormIssue({
-              type: 'elbowFlare',
-              severity: 'moderate',
-              message: 'Elbows flaring out too wide.',
-              recommendation: 'Keep elbows at 45-degree angle from body.',
-            });
-          }
-        }
-        break;
-      }
-
-      case 'squats': {
-        // Check knee cave
-        const leftKnee = getKP('leftKnee');
-        const rightKnee = getKP('rightKnee');
-        const leftAnkle = getKP('leftAnkle');
-        const rightAnkle = getKP('rightAnkle');
-
-        if (leftKnee && rightKnee && leftAnkle && rightAnkle) {
-          const ankleWidth = Math.abs(rightAnkle.x - leftAnkle.x);
-          const kneeWidth = Math.abs(rightKnee.x - leftKnee.x);
-          
-          if (kneeWidth < ankleWidth * 0.8) {
-            this.addFormIssue({
-              type: 'kneeCave',
-              severity: 'major',
-              message: 'Knees caving inward',
-              recommendation: 'Push knees out over toes',
-            });
-          }
-        }
-
-        // Check forward lean
-        const shoulder = getKP('leftShoulder') || getKP('rightShoulder');
-        const hip = getKP('leftHip') || getKP('rightHip');
-        
-        if (shoulder && hip) {
-          const forwardLean = shoulder.x - hip.x;
-          if (Math.abs(forwardLean) > 100) {
-            this.addFormIssue({
-              type: 'forwardLean',
-              severity: 'moderate',
-              message: 'Excessive forward lean',
-              recommendation: 'Keep chest up and weight on mid-foot',
-            });
-          }
-        }
-        break;
-      }
+    const rules = this.definition.formRules;
+    if (!rules || rules.length === 0) return;
 
-      case 'deadlift': {
-        // Check for rounded back
-        const nose = getKP('nose');
-        const shoulder = getKP('leftShoulder') || getKP('rightShoulder');
-        const hip = getKP('leftHip') || getKP('rightHip');
-
-        if (nose && shoulder && hip) {
-          const shoulderMid = shoulder;
-          const spineAngle = Math.abs(
-            Math.atan2(hip.y - shoulderMid.y, hip.x - shoulderMid.x) * (180 / Math.PI)
-          );
-          
-          if (spineAngle < 60 || spineAngle > 120) {
-            this.addFormIssue({
-              type: 'roundedBack',
-              severity: 'major',
-              message: 'Keep spine neutral',
-              recommendation: 'Maintain flat back throughout the lift',
-            });
-          }
-        }
-        break;
-      }
+    const previousKeypoints = this.lastKeypoints;
+    const context: FormCheckContext = {
+      keypoints,
+      previousKeypoints,
+      cameraView: this.state.cameraView,
+      bodyScale: getBodyScale(keypoints),
+      side: this.side ?? undefined,
+      getKeypoint: (name) => poseDetectionService.getKeypoint(keypoints, name),
+      getPreviousKeypoint: (name) =>
+        previousKeypoints ? poseDetectionService.getKeypoint(previousKeypoints, name) : null,
+    };
 
-      case 'pullups': {
-        // Check for kipping
-        const shoulder = getKP('leftShoulder') || getKP('rightShoulder');
-        const hip = getKP('leftHip') || getKP('rightHip');
-        
-        if (shoulder && hip && this.lastKeypoints) {
-          const prevHip = poseDetectionService.getKeypoint(this.lastKeypoints, 'leftHip') ||
-                          poseDetectionService.getKeypoint(this.lastKeypoints, 'rightHip');
-          
-          if (prevHip) {
-            const horizontalMovement = Math.abs(hip.x - prevHip.x);
-            if (horizontalMovement > 20) {
-              this.addFormIssue({
-                type: 'kipping',
-                severity: 'minor',
-                message: 'Minimize body swing',
-                recommendation: 'Use controlled movement, avoid kipping',
-              });
-            }
-          }
-        }
-        break;
+    for (const rule of rules) {
+      const issue = rule(context);
+      if (issue) {
+        this.addFormIssue(issue);
       }
     }
   }
@@ -547,52 +857,58 @@ class ExerciseDetectionService {
     }
   }
 
-  /**
-   * Detect if hips are sagging (below the shoulder-ankle line).
-   * Returns true if sagging, false if piking or aligned.
-   */
-  private detectHipSag(keypoints: Keypoint[]): boolean {
-    const getKP = (name: keyof typeof KEYPOINT_INDICES) =>
-      poseDetectionService.getKeypoint(keypoints, name);
-
-    const shoulder = getKP('leftShoulder') || getKP('rightShoulder');
-    const hip = getKP('leftHip') || getKP('rightHip');
-    const ankle = getKP('leftAnkle') || getKP('rightAnkle');
-
-    if (!shoulder || !hip || !ankle) return false;
-
-    // In a proper plank, the hip should be on or slightly above
-    // the line between shoulder and ankle.
-    // Calculate expected hip Y position on the shoulder-ankle line.
-    const t = (hip.x - shoulder.x) / (ankle.x - shoulder.x || 1);
-    const expectedHipY = shoulder.y + t * (ankle.y - shoulder.y);
-
-    // If actual hip Y is greater (lower on screen) than expected, hips are sagging
-    return hip.y > expectedHipY + 10; // 10px tolerance
-  }
-
   // Get current state info for UI
   getCurrentState(): {
+    exercise: ExerciseType;
     phase: ExercisePhase;
     repCount: number;
     formIssues: FormIssue[];
     cameraView: CameraView;
+    primaryAngle: number | null;
+    stage: string | null;
+    side: BodySide | null;
   } {
+    const stages = this.definition.stagedRep?.stages;
+    const holdStage = this.state.isHolding ? 'holding' : this.state.openBreak ? 'break' : null;
+    // Unilateral exercises report the rep in progress on the working side
+    const sideState = this.sideDetectors && this.workingSide
+      ? this.sideDetectors[this.workingSide].state
+      : this.state;
     return {
-      phase: this.state.phase,
+      exercise: this.currentExercise,
+      phase: sideState.phase,
       repCount: this.repCount,
-      formIssues: [...this.state.formIssues],
+      formIssues: [...sideState.formIssues],
       cameraView: this.state.cameraView,
+      primaryAngle: this.state.lastPrimaryAngle,
+      // Hold status, or the last stage reached in the current attempt
+      stage: this.definition.hold
+        ? holdStage
+        : stages && this.state.stageIndex > 0 ? stages[this.state.stageIndex - 1].name : null,
+      side: this.side ?? this.workingSide,
     };
   }
 
+  // Current time from this detector's clock
+  now(): number {
+    return this.clock();
+  }
+
   getRepCount(): number {
     return this.repCount;
   }
 
+  // Crossings and reps rejected since the last reset, oldest first
+  getDiagnostics(): RepDiagnostic[] {
+    if (!this.sideDetectors) return [...this.state.diagnostics];
+    return [...this.sideDetectors.left.state.diagnostics, ...this.sideDetectors.right.state.diagnostics]
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
   getCameraView(): CameraView {
     return this.state.cameraView;
   }
 }
 
+// Shared wall-clock detector for live workouts
 export const exerciseDetectionService = new ExerciseDetectionService();
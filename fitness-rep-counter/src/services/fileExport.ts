@@ -0,0 +1,36 @@
+import { Capacitor } from '@capacitor/core';
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+
+/**
+ * Save a text file where the user can find it. Browsers get a regular
+ * download; the Android build has no download manager in its WebView, so
+ * the file is written to the Documents folder instead. Resolves to where
+ * the file ended up - the file name for downloads, the URI on Android.
+ */
+export const saveTextFile = async (
+  fileName: string,
+  text: string,
+  mimeType: string
+): Promise<string> => {
+  if (Capacitor.isNativePlatform()) {
+    const { uri } = await Filesystem.writeFile({
+      path: fileName,
+      data: text,
+      directory: Directory.Documents,
+      encoding: Encoding.UTF8,
+      recursive: true,
+    });
+    return uri;
+  }
+
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+  return fileName;
+};
@@ -1,3 +1,12 @@
-export { poseDetectionService, KEYPOINT_INDICES } from './poseDetection';
-export { exerciseDetectionService } from './exerciseDetection';
+export { poseDetectionService } from './poseDetection';
+export { POSE_MODELS, DEFAULT_POSE_MODEL } from './poseModel';
+export { KEYPOINT_FILTERS, DEFAULT_KEYPOINT_FILTER, KeypointFilter } from './keypointFilter';
+export { exerciseDetectionService, ExerciseDetectionService } from './exerciseDetection';
+export { ExerciseClassifier, classifyExercise, segmentExercises } from './exerciseClassifier';
 export { speechService } from './speechService';
+export { poseRecorder, parseRecording, saveRecording, finishRecording } from './poseRecorder';
+export { replayRecording } from './poseReplay';
+export { workoutRepository } from './workoutRepository';
+export { exportBackup, parseBackup, restoreBackup } from './backup';
+export { saveTextFile } from './fileExport';
+export { sessionsToCsv, exportSessionsCsv } from './csvExport';
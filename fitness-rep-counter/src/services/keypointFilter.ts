@@ -0,0 +1,190 @@
+import { Keypoint, KeypointFilterType } from '../types';
+import { MIN_KEYPOINT_SCORE } from './poseModel';
+import { getBodyScale } from '../utils/angleCalculations';
+
+export interface KeypointFilterInfo {
+  id: KeypointFilterType;
+  name: string;
+  description: string;
+}
+
+export const KEYPOINT_FILTERS: Record<KeypointFilterType, KeypointFilterInfo> = {
+  off: {
+    id: 'off',
+    name: 'Off',
+    description: 'Raw model output. Most responsive, but jitter can count phantom reps.',
+  },
+  oneEuro: {
+    id: 'oneEuro',
+    name: 'One Euro',
+    description: 'Steadies joints when still and follows fast movement closely.',
+  },
+  kalman: {
+    id: 'kalman',
+    name: 'Kalman',
+    description: 'Heavier smoothing that predicts motion. Best for noisy, dim footage.',
+  },
+};
+
+export const DEFAULT_KEYPOINT_FILTER: KeypointFilterType = 'oneEuro';
+
+// Longest low-confidence gap bridged with a keypoint's last filtered position
+const MAX_GAP_MS = 300;
+
+// One Euro - the cutoff frequency rises with speed, so slow movement is
+// smoothed hard and fast movement barely lags
+const ONE_EURO_MIN_CUTOFF = 2.5; // Hz
+const ONE_EURO_BETA = 5; // Cutoff gain per torso length per second of speed
+const ONE_EURO_DERIVATIVE_CUTOFF = 1; // Hz
+
+// Kalman - constant velocity model, noise in torso lengths
+const KALMAN_ACCELERATION_NOISE = 2;
+const KALMAN_MEASUREMENT_NOISE = 0.03;
+
+// Filters one coordinate of one keypoint. Speeds and noise are relative to
+// the body scale so the same tuning works at any resolution or zoom.
+interface AxisFilter {
+  filter(value: number, dt: number, scale: number): number;
+}
+
+const smoothingFactor = (cutoff: number, dt: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+class OneEuroFilter implements AxisFilter {
+  private value: number;
+  private derivative = 0;
+
+  constructor(value: number) {
+    this.value = value;
+  }
+
+  filter(value: number, dt: number, scale: number): number {
+    const rawDerivative = (value - this.value) / dt;
+    this.derivative += smoothingFactor(ONE_EURO_DERIVATIVE_CUTOFF, dt) * (rawDerivative - this.derivative);
+
+    const cutoff = ONE_EURO_MIN_CUTOFF + (ONE_EURO_BETA * Math.abs(this.derivative)) / scale;
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+}
+
+class KalmanFilter implements AxisFilter {
+  private position: number;
+  private velocity = 0;
+  // Covariance of [position, velocity]
+  private pp: number;
+  private pv = 0;
+  private vv = 0;
+
+  constructor(value: number, scale: number) {
+    this.position = value;
+    this.pp = (KALMAN_MEASUREMENT_NOISE * scale) ** 2;
+  }
+
+  filter(value: number, dt: number, scale: number): number {
+    // Predict, with white noise acceleration between frames
+    const q = KALMAN_ACCELERATION_NOISE * scale ** 2;
+    this.position += this.velocity * dt;
+    this.pp += dt * (2 * this.pv + dt * this.vv) + (q * dt ** 3) / 3;
+    this.pv += dt * this.vv + (q * dt ** 2) / 2;
+    this.vv += q * dt;
+
+    // Correct with the measured position
+    const r = (KALMAN_MEASUREMENT_NOISE * scale) ** 2;
+    const positionGain = this.pp / (this.pp + r);
+    const velocityGain = this.pv / (this.pp + r);
+    const residual = value - this.position;
+    this.position += positionGain * residual;
+    this.velocity += velocityGain * residual;
+    this.vv -= velocityGain * this.pv;
+    this.pv -= positionGain * this.pv;
+    this.pp -= positionGain * this.pp;
+    return this.position;
+  }
+}
+
+interface KeypointTrack {
+  x: AxisFilter;
+  y: AxisFilter;
+  keypoint: Keypoint; // Last filtered keypoint
+  time: number; // When the keypoint was last seen with confidence
+}
+
+const isConfident = (keypoint: Keypoint): boolean => {
+  return keypoint.score === undefined || keypoint.score >= MIN_KEYPOINT_SCORE;
+};
+
+/**
+ * Per-keypoint temporal filter between pose detection and rep detection.
+ * Confident keypoints are smoothed; a keypoint that drops below the
+ * confidence threshold for less than MAX_GAP_MS keeps its last filtered
+ * position, so a brief occlusion does not make a joint vanish mid-rep.
+ */
+export class KeypointFilter {
+  private type: KeypointFilterType;
+  private tracks: (KeypointTrack | null)[] = [];
+  private scale: number | null = null;
+
+  constructor(type: KeypointFilterType = DEFAULT_KEYPOINT_FILTER) {
+    this.type = type;
+  }
+
+  getType(): KeypointFilterType {
+    return this.type;
+  }
+
+  setType(type: KeypointFilterType): void {
+    if (type === this.type) return;
+    this.type = type;
+    this.reset();
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.scale = null;
+  }
+
+  filter(keypoints: Keypoint[], timestamp: number): Keypoint[] {
+    if (this.type === 'off') return keypoints;
+
+    this.scale = getBodyScale(keypoints) ?? this.scale;
+    const scale = this.scale ?? 1;
+
+    return keypoints.map((keypoint, index) => {
+      const track = this.tracks[index];
+
+      if (!isConfident(keypoint)) {
+        if (track && timestamp - track.time <= MAX_GAP_MS) return track.keypoint;
+        this.tracks[index] = null;
+        return keypoint;
+      }
+
+      // Seconds since the keypoint was last seen - a seek backwards
+      // (or a repeated frame) starts the track over
+      const dt = track ? (timestamp - track.time) / 1000 : 0;
+      if (!track || dt <= 0) {
+        this.tracks[index] = {
+          x: this.createAxisFilter(keypoint.x, scale),
+          y: this.createAxisFilter(keypoint.y, scale),
+          keypoint,
+          time: timestamp,
+        };
+        return keypoint;
+      }
+
+      track.keypoint = {
+        ...keypoint,
+        x: track.x.filter(keypoint.x, dt, scale),
+        y: track.y.filter(keypoint.y, dt, scale),
+      };
+      track.time = timestamp;
+      return track.keypoint;
+    });
+  }
+
+  private createAxisFilter(value: number, scale: number): AxisFilter {
+    return this.type === 'kalman' ? new KalmanFilter(value, scale) : new OneEuroFilter(value);
+  }
+}
@@ -1,55 +1,80 @@
 import * as poseDetection from '@tensorflow-models/pose-detection';
-import '@tensorflow/tfjs-backend-webgl';
-import * as tf from '@tensorflow/tfjs';
-import { Keypoint, PoseResult } from '../types';
-
-// MoveNet Keypoint indices
-export const KEYPOINT_INDICES = {
-  nose: 0,
-  leftEye: 1,
-  rightEye: 2,
-  leftEar: 3,
-  rightEar: 4,
-  leftShoulder: 5,
-  rightShoulder: 6,
-  leftElbow: 7,
-  rightElbow: 8,
-  leftWrist: 9,
-  rightWrist: 10,
-  leftHip: 11,
-  rightHip: 12,
-  leftKnee: 13,
-  rightKnee: 14,
-  leftAnkle: 15,
-  rightAnkle: 16
-};
+import { Keypoint, KeypointName, PoseBackend, PoseModelType, PoseResult } from '../types';
+import {
+  createPoseDetector,
+  toPoseResult,
+  getSkeletonConnections,
+  DEFAULT_POSE_MODEL,
+  MIN_KEYPOINT_SCORE,
+  POSE_MODELS,
+} from './poseModel';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './poseDetection.worker';
+
+type PoseSource = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+interface FrameRequest {
+  id: number;
+  resolve: (pose: PoseResult | null) => void;
+}
+
+interface PendingFrame {
+  frame: ImageBitmap;
+  timestamp: number;
+  resolve: (pose: PoseResult | null) => void;
+}
+
+// Worker inference needs transferable frames and an OffscreenCanvas
+// for the WebGL backend inside the worker
+const supportsWorkerInference = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
 
 class PoseDetectionService {
   private detector: poseDetection.PoseDetector | null = null;
+  private worker: Worker | null = null;
+  private model: PoseModelType = DEFAULT_POSE_MODEL;
+  private backend: PoseBackend | null = null;
+  // Keypoint layout override for replaying recordings made with another model
+  private keypointModel: PoseModelType | null = null;
   private isInitialized = false;
   private isInitializing = false;
 
-  async initialize(): Promise<void> {
-    if (this.isInitialized || this.isInitializing) return;
+  // Worker backpressure: at most one frame in flight and one waiting.
+  // A newer frame replaces the waiting one, which resolves to null.
+  private nextFrameId = 0;
+  private inFlightFrame: FrameRequest | null = null;
+  private pendingFrame: PendingFrame | null = null;
+
+  async initialize(model: PoseModelType = this.model): Promise<void> {
+    if (this.isInitializing) return;
+    if (this.isInitialized) {
+      if (model === this.model) return;
+      // Switching models - tear down the current detector first
+      this.dispose();
+    }
 
     this.isInitializing = true;
+    this.model = model;
 
     try {
-      // Set up TensorFlow.js backend
-      await tf.setBackend('webgl');
-      await tf.ready();
-
-      // Create MoveNet detector (Thunder for better accuracy)
-      const model = poseDetection.SupportedModels.MoveNet;
-      const detectorConfig: poseDetection.MoveNetModelConfig = {
-        modelType: poseDetection.movenet.modelType.SINGLEPOSE_THUNDER,
-        enableSmoothing: true,
-        minPoseScore: 0.25
-      };
+      if (supportsWorkerInference()) {
+        try {
+          this.backend = await this.initializeWorker(model);
+          this.isInitialized = true;
+          console.log(`Pose detection initialized successfully (${model}, ${this.backend}, worker)`);
+          return;
+        } catch (error) {
+          console.warn('Worker pose detection unavailable, using main thread:', error);
+          this.terminateWorker();
+        }
+      }
 
-      this.detector = await poseDetection.createDetector(model, detectorConfig);
+      const { detector, backend } = await createPoseDetector(model);
+      this.detector = detector;
+      this.backend = backend;
       this.isInitialized = true;
-      console.log('Pose detection initialized successfully');
+      console.log(`Pose detection initialized successfully (${model}, ${backend})`);
     } catch (error) {
       console.error('Failed to initialize pose detection:', error);
       throw error;
@@ -58,55 +83,203 @@ class PoseDetectionService {
     }
   }
 
-  async detectPose(
-    video: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement
-  ): Promise<PoseResult | null> {
+  private initializeWorker(model: PoseModelType): Promise<PoseBackend> {
+    const worker = new Worker(new URL('./poseDetection.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker = worker;
+    let isReady = false;
+
+    return new Promise<PoseBackend>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+        const response = event.data;
+
+        switch (response.type) {
+          case 'ready':
+            isReady = true;
+            resolve(response.backend);
+            break;
+          case 'initError':
+            reject(new Error(response.message));
+            break;
+          case 'result':
+            this.handleWorkerResult(response.id, response.pose);
+            break;
+        }
+      };
+      worker.onerror = (event) => {
+        if (isReady) {
+          this.fallBackToMainThread(event.message || 'Pose worker crashed');
+        } else {
+          reject(new Error(event.message || 'Pose worker failed to start'));
+        }
+      };
+
+      this.postToWorker({ type: 'init', model });
+    });
+  }
+
+  // A worker that dies mid-session would leave its frames unresolved and
+  // stall the detection loop - release them and carry on without it
+  private async fallBackToMainThread(reason: string): Promise<void> {
+    if (!this.worker) return;
+    console.error('Pose worker crashed, using main thread:', reason);
+    this.terminateWorker();
+    this.isInitialized = false;
+    this.isInitializing = true;
+
+    try {
+      const { detector, backend } = await createPoseDetector(this.model);
+      this.detector = detector;
+      this.backend = backend;
+      this.isInitialized = true;
+      console.log(`Pose detection initialized successfully (${this.model}, ${backend})`);
+    } catch (error) {
+      console.error('Failed to initialize pose detection:', error);
+    } finally {
+      this.isInitializing = false;
+    }
+  }
+
+  private postToWorker(request: PoseWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(request, transfer);
+  }
+
+  // `timestamp` is the frame's capture time (ms), which the models'
+  // smoothing and MultiPose tracking run on. Both paths pass it so worker
+  // and main-thread results match.
+  async detectPose(video: PoseSource, timestamp: number): Promise<PoseResult | null> {
+    if (this.worker && this.isInitialized) {
+      return this.detectPoseInWorker(video, timestamp);
+    }
+
     if (!this.detector || !this.isInitialized) {
       console.warn('Pose detector not initialized');
       return null;
     }
 
     try {
-      const poses = await this.detector.estimatePoses(video);
-
-      if (poses.length === 0) {
-        return null;
-      }
-
-      const pose = poses[0];
-      const keypoints: Keypoint[] = pose.keypoints.map((kp) => ({
-        x: kp.x,
-        y: kp.y,
-        score: kp.score,
-        name: kp.name
-      }));
-
-      return {
-        keypoints,
-        score: pose.score || 0
-      };
+      const poses = await this.detector.estimatePoses(video, undefined, timestamp);
+      return toPoseResult(poses);
     } catch (error) {
       console.error('Pose detection error:', error);
       return null;
     }
   }
 
-  getKeypoint(keypoints: Keypoint[], name: keyof typeof KEYPOINT_INDICES): Keypoint | null {
-    const index = KEYPOINT_INDICES[name];
+  private async detectPoseInWorker(video: PoseSource, timestamp: number): Promise<PoseResult | null> {
+    let frame: ImageBitmap;
+    try {
+      frame = await createImageBitmap(video);
+    } catch (error) {
+      // Source has no decodable frame yet (e.g. video still loading)
+      console.warn('Could not capture frame for pose detection:', error);
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      if (this.inFlightFrame) {
+        // Drop the stale waiting frame rather than queueing behind it
+        if (this.pendingFrame) {
+          this.pendingFrame.frame.close();
+          this.pendingFrame.resolve(null);
+        }
+        this.pendingFrame = { frame, timestamp, resolve };
+        return;
+      }
+
+      this.sendFrame(frame, timestamp, resolve);
+    });
+  }
+
+  private sendFrame(
+    frame: ImageBitmap,
+    timestamp: number,
+    resolve: (pose: PoseResult | null) => void
+  ): void {
+    const id = ++this.nextFrameId;
+    this.inFlightFrame = { id, resolve };
+    this.postToWorker({ type: 'detect', id, frame, timestamp }, [frame]);
+  }
+
+  private handleWorkerResult(id: number, pose: PoseResult | null): void {
+    if (!this.inFlightFrame || this.inFlightFrame.id !== id) return;
+
+    this.inFlightFrame.resolve(pose);
+    this.inFlightFrame = null;
+
+    if (this.pendingFrame) {
+      const { frame, timestamp, resolve } = this.pendingFrame;
+      this.pendingFrame = null;
+      this.sendFrame(frame, timestamp, resolve);
+    }
+  }
+
+  private terminateWorker(): void {
+    if (!this.worker) return;
+
+    this.worker.terminate();
+    this.worker = null;
+
+    this.inFlightFrame?.resolve(null);
+    this.inFlightFrame = null;
+    if (this.pendingFrame) {
+      this.pendingFrame.frame.close();
+      this.pendingFrame.resolve(null);
+      this.pendingFrame = null;
+    }
+  }
+
+  // Resolved against the active model - MoveNet and BlazePose
+  // order (and count) their keypoints differently
+  getKeypoint(keypoints: Keypoint[], name: KeypointName): Keypoint | null {
+    const index = POSE_MODELS[this.keypointModel ?? this.model].keypointIndices[name];
+    if (index === undefined) return null;
+
     const keypoint = keypoints[index];
     
-    if (!keypoint || (keypoint.score && keypoint.score < 0.3)) {
+    if (!keypoint || (keypoint.score && keypoint.score < MIN_KEYPOINT_SCORE)) {
       return null;
     }
     
     return keypoint;
   }
 
+  // Run synchronous keypoint lookups against another model's layout,
+  // e.g. when replaying a recording made with a different model
+  withKeypointModel<T>(model: PoseModelType, run: () => T): T {
+    const previous = this.keypointModel;
+    this.keypointModel = model;
+    try {
+      return run();
+    } finally {
+      this.keypointModel = previous;
+    }
+  }
+
+  // Keypoint index pairs for drawing the skeleton of the active model
+  getSkeletonConnections(): [number, number][] {
+    return getSkeletonConnections(this.model);
+  }
+
+  getModel(): PoseModelType {
+    return this.model;
+  }
+
+  getBackend(): PoseBackend | null {
+    return this.backend;
+  }
+
   isInitializedStatus(): boolean {
     return this.isInitialized;
   }
 
   dispose(): void {
+    this.backend = null;
+    if (this.worker) {
+      this.terminateWorker();
+      this.isInitialized = false;
+    }
     if (this.detector) {
       this.detector.dispose();
       this.detector = null;
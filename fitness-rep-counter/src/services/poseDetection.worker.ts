@@ -0,0 +1,67 @@
+import * as poseDetection from '@tensorflow-models/pose-detection';
+import { PoseBackend, PoseModelType, PoseResult } from '../types';
+import { createPoseDetector, toPoseResult } from './poseModel';
+
+// Pose inference off the main thread. Frames arrive as transferred
+// ImageBitmaps; TensorFlow.js runs its WebGL backend on an OffscreenCanvas
+// inside the worker, so UI timers and speech are never blocked.
+
+export type PoseWorkerRequest =
+  | { type: 'init'; model: PoseModelType }
+  | { type: 'detect'; id: number; frame: ImageBitmap; timestamp: number };
+
+export type PoseWorkerResponse =
+  | { type: 'ready'; backend: PoseBackend }
+  | { type: 'initError'; message: string }
+  | { type: 'result'; id: number; pose: PoseResult | null };
+
+let detector: poseDetection.PoseDetector | null = null;
+
+const respond = (response: PoseWorkerResponse) => {
+  self.postMessage(response);
+};
+
+const handleInit = async (model: PoseModelType) => {
+  try {
+    detector?.dispose();
+    detector = null;
+
+    const created = await createPoseDetector(model);
+    detector = created.detector;
+    respond({ type: 'ready', backend: created.backend });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to initialize pose detection';
+    respond({ type: 'initError', message });
+  }
+};
+
+// A bitmap carries no time of its own - without the capture timestamp
+// the models skip keypoint smoothing and MultiPose drops its tracks
+const handleDetect = async (id: number, frame: ImageBitmap, timestamp: number) => {
+  let pose: PoseResult | null = null;
+
+  try {
+    if (detector) {
+      pose = toPoseResult(await detector.estimatePoses(frame, undefined, timestamp));
+    }
+  } catch (error) {
+    console.error('Pose detection error:', error);
+  } finally {
+    frame.close();
+  }
+
+  respond({ type: 'result', id, pose });
+};
+
+self.onmessage = (event: MessageEvent<PoseWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'init':
+      handleInit(request.model);
+      break;
+    case 'detect':
+      handleDetect(request.id, request.frame, request.timestamp);
+      break;
+  }
+};
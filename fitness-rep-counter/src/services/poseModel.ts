@@ -0,0 +1,221 @@
+import * as poseDetection from '@tensorflow-models/pose-detection';
+import '@tensorflow/tfjs-backend-webgl';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import * as tf from '@tensorflow/tfjs';
+import wasmPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import {
+  Keypoint,
+  KeypointIndices,
+  KeypointName,
+  PoseBackend,
+  PoseModelType,
+  PoseResult,
+} from '../types';
+
+// Shared between the main thread and the pose worker so both
+// create the same detector and produce the same PoseResult shape.
+
+// Serve the WASM binaries with the app so the fallback works offline
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmPath,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdPath,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdPath,
+});
+
+// MoveNet keypoint indices (all MoveNet variants)
+const MOVENET_KEYPOINT_INDICES: KeypointIndices = {
+  nose: 0,
+  leftEye: 1,
+  rightEye: 2,
+  leftEar: 3,
+  rightEar: 4,
+  leftShoulder: 5,
+  rightShoulder: 6,
+  leftElbow: 7,
+  rightElbow: 8,
+  leftWrist: 9,
+  rightWrist: 10,
+  leftHip: 11,
+  rightHip: 12,
+  leftKnee: 13,
+  rightKnee: 14,
+  leftAnkle: 15,
+  rightAnkle: 16
+};
+
+// BlazePose keypoint indices (33 points incl. hands and feet)
+const BLAZEPOSE_KEYPOINT_INDICES: KeypointIndices = {
+  nose: 0,
+  leftEye: 2,
+  rightEye: 5,
+  leftEar: 7,
+  rightEar: 8,
+  leftShoulder: 11,
+  rightShoulder: 12,
+  leftElbow: 13,
+  rightElbow: 14,
+  leftWrist: 15,
+  rightWrist: 16,
+  leftPinky: 17,
+  rightPinky: 18,
+  leftIndex: 19,
+  rightIndex: 20,
+  leftThumb: 21,
+  rightThumb: 22,
+  leftHip: 23,
+  rightHip: 24,
+  leftKnee: 25,
+  rightKnee: 26,
+  leftAnkle: 27,
+  rightAnkle: 28,
+  leftHeel: 29,
+  rightHeel: 30,
+  leftFootIndex: 31,
+  rightFootIndex: 32
+};
+
+export interface PoseModelInfo {
+  id: PoseModelType;
+  name: string;
+  description: string;
+  keypointIndices: KeypointIndices;
+}
+
+export const POSE_MODELS: Record<PoseModelType, PoseModelInfo> = {
+  movenetLightning: {
+    id: 'movenetLightning',
+    name: 'MoveNet Lightning',
+    description: 'Fastest. Best for older or low-end phones.',
+    keypointIndices: MOVENET_KEYPOINT_INDICES,
+  },
+  movenetThunder: {
+    id: 'movenetThunder',
+    name: 'MoveNet Thunder',
+    description: 'Balanced speed and accuracy.',
+    keypointIndices: MOVENET_KEYPOINT_INDICES,
+  },
+  movenetMultipose: {
+    id: 'movenetMultipose',
+    name: 'MoveNet MultiPose',
+    description: 'Tracks up to 6 people and follows the most confident one.',
+    keypointIndices: MOVENET_KEYPOINT_INDICES,
+  },
+  blazepose: {
+    id: 'blazepose',
+    name: 'BlazePose',
+    description: 'Adds hand and foot keypoints. Slower on most phones.',
+    keypointIndices: BLAZEPOSE_KEYPOINT_INDICES,
+  },
+};
+
+export const DEFAULT_POSE_MODEL: PoseModelType = 'movenetThunder';
+
+// Keypoints below this confidence are treated as not visible
+export const MIN_KEYPOINT_SCORE = 0.3;
+
+// Skeleton drawn over the video; pairs the active model lacks are skipped
+const SKELETON: [KeypointName, KeypointName][] = [
+  // Face
+  ['nose', 'leftEye'], ['nose', 'rightEye'], ['leftEye', 'leftEar'], ['rightEye', 'rightEar'],
+  // Arms
+  ['leftShoulder', 'leftElbow'], ['leftElbow', 'leftWrist'],
+  ['rightShoulder', 'rightElbow'], ['rightElbow', 'rightWrist'],
+  // Hands
+  ['leftWrist', 'leftIndex'], ['leftWrist', 'leftPinky'], ['leftWrist', 'leftThumb'],
+  ['rightWrist', 'rightIndex'], ['rightWrist', 'rightPinky'], ['rightWrist', 'rightThumb'],
+  // Torso
+  ['leftShoulder', 'rightShoulder'], ['leftShoulder', 'leftHip'],
+  ['rightShoulder', 'rightHip'], ['leftHip', 'rightHip'],
+  // Legs
+  ['leftHip', 'leftKnee'], ['leftKnee', 'leftAnkle'],
+  ['rightHip', 'rightKnee'], ['rightKnee', 'rightAnkle'],
+  // Feet
+  ['leftAnkle', 'leftHeel'], ['leftHeel', 'leftFootIndex'], ['leftAnkle', 'leftFootIndex'],
+  ['rightAnkle', 'rightHeel'], ['rightHeel', 'rightFootIndex'], ['rightAnkle', 'rightFootIndex'],
+];
+
+export const getSkeletonConnections = (model: PoseModelType): [number, number][] => {
+  const indices = POSE_MODELS[model].keypointIndices;
+  return SKELETON.flatMap(([from, to]) => {
+    const i = indices[from];
+    const j = indices[to];
+    return i !== undefined && j !== undefined ? [[i, j] as [number, number]] : [];
+  });
+};
+
+const BACKENDS: PoseBackend[] = ['webgl', 'wasm', 'cpu'];
+
+// Use the first backend that initializes on this device
+const initializeBackend = async (): Promise<PoseBackend> => {
+  for (const backend of BACKENDS) {
+    try {
+      if (await tf.setBackend(backend)) {
+        await tf.ready();
+        return backend;
+      }
+    } catch (error) {
+      console.warn(`TensorFlow.js backend "${backend}" unavailable:`, error);
+    }
+  }
+  throw new Error('No TensorFlow.js backend available');
+};
+
+const createModelDetector = (model: PoseModelType): Promise<poseDetection.PoseDetector> => {
+  switch (model) {
+    case 'blazepose':
+      return poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, {
+        runtime: 'tfjs',
+        modelType: 'full',
+        enableSmoothing: true,
+      });
+
+    case 'movenetLightning':
+    case 'movenetThunder':
+    case 'movenetMultipose': {
+      const modelTypes = {
+        movenetLightning: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+        movenetThunder: poseDetection.movenet.modelType.SINGLEPOSE_THUNDER,
+        movenetMultipose: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
+      };
+      const detectorConfig: poseDetection.MoveNetModelConfig = {
+        modelType: modelTypes[model],
+        enableSmoothing: true,
+        minPoseScore: 0.25,
+        ...(model === 'movenetMultipose' && { enableTracking: true }),
+      };
+      return poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, detectorConfig);
+    }
+  }
+};
+
+export const createPoseDetector = async (
+  model: PoseModelType
+): Promise<{ detector: poseDetection.PoseDetector; backend: PoseBackend }> => {
+  const backend = await initializeBackend();
+  const detector = await createModelDetector(model);
+  return { detector, backend };
+};
+
+export const toPoseResult = (poses: poseDetection.Pose[]): PoseResult | null => {
+  if (poses.length === 0) {
+    return null;
+  }
+
+  // Multi-pose models return everyone in frame - follow the most confident person
+  const pose = poses.reduce((best, candidate) =>
+    (candidate.score || 0) > (best.score || 0) ? candidate : best
+  );
+  const keypoints: Keypoint[] = pose.keypoints.map((kp) => ({
+    x: kp.x,
+    y: kp.y,
+    score: kp.score,
+    name: kp.name
+  }));
+
+  return {
+    keypoints,
+    score: pose.score || 0
+  };
+};
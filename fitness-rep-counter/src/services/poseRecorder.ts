@@ -0,0 +1,185 @@
+import {
+  BodySide,
+  ExerciseCalibration,
+  ExerciseType,
+  Keypoint,
+  KeypointFilterType,
+  PoseModelType,
+  PoseRecording,
+  PoseRecordingSource,
+  PoseResult,
+  RecordedPoseFrame,
+  RepTempo,
+} from '../types';
+import { isRegisteredExercise } from '../data/exercises';
+import { POSE_MODELS } from './poseModel';
+import { KEYPOINT_FILTERS } from './keypointFilter';
+import { saveTextFile } from './fileExport';
+import { TEMPO_PHASES } from '../utils/tempo';
+
+export const POSE_RECORDING_VERSION = 1;
+
+// Values stored per keypoint in a recorded frame: x, y, score
+const VALUES_PER_KEYPOINT = 3;
+// Leading values in a recorded frame: timestamp offset, pose score
+const FRAME_HEADER_LENGTH = 2;
+
+interface RecordingOptions {
+  exercise: ExerciseType;
+  model: PoseModelType;
+  source: PoseRecordingSource;
+  side?: BodySide | null;
+  keypointFilter?: KeypointFilterType;
+  calibration?: ExerciseCalibration;
+  targetTempo?: RepTempo | null;
+}
+
+export const encodeRecordedFrame = (
+  pose: PoseResult,
+  offset: number
+): RecordedPoseFrame => {
+  const frame: RecordedPoseFrame = [offset, pose.score];
+  for (const keypoint of pose.keypoints) {
+    // Missing scores are stored as fully confident - getKeypoint
+    // treats both the same way
+    frame.push(keypoint.x, keypoint.y, keypoint.score ?? 1);
+  }
+  return frame;
+};
+
+export const decodeRecordedFrame = (
+  recording: PoseRecording,
+  frame: RecordedPoseFrame
+): { pose: PoseResult; timestamp: number } => {
+  const keypoints: Keypoint[] = [];
+  for (let i = FRAME_HEADER_LENGTH; i < frame.length; i += VALUES_PER_KEYPOINT) {
+    keypoints.push({ x: frame[i], y: frame[i + 1], score: frame[i + 2] });
+  }
+
+  return {
+    pose: { keypoints, score: frame[1] },
+    timestamp: recording.startedAt + frame[0],
+  };
+};
+
+class PoseRecorder {
+  private recording: PoseRecording | null = null;
+
+  start(
+    { exercise, model, source, side, keypointFilter, calibration, targetTempo }: RecordingOptions,
+    startedAt: number = Date.now()
+  ): void {
+    if (this.recording) {
+      console.warn('Pose recording already in progress - starting over');
+    }
+
+    this.recording = {
+      version: POSE_RECORDING_VERSION,
+      exercise,
+      model,
+      source,
+      startedAt,
+      side: side ?? undefined,
+      // Frames are recorded raw - the replay applies the same filter
+      keypointFilter: keypointFilter === 'off' ? undefined : keypointFilter,
+      calibration,
+      targetTempo: targetTempo ?? undefined,
+      frames: [],
+    };
+  }
+
+  // Record a frame with the same timestamp that was passed to detectRep
+  addFrame(pose: PoseResult, timestamp: number): void {
+    if (!this.recording) return;
+
+    this.recording.frames.push(
+      encodeRecordedFrame(pose, timestamp - this.recording.startedAt)
+    );
+  }
+
+  stop(): PoseRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  getFrameCount(): number {
+    return this.recording?.frames.length ?? 0;
+  }
+}
+
+export const poseRecorder = new PoseRecorder();
+
+export const serializeRecording = (recording: PoseRecording): string => {
+  return JSON.stringify(recording);
+};
+
+export const parseRecording = (text: string): PoseRecording => {
+  let data: Partial<PoseRecording>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Pose recording is not valid JSON');
+  }
+
+  if (data.version !== POSE_RECORDING_VERSION) {
+    throw new Error(`Unsupported pose recording version: ${data.version}`);
+  }
+  if (typeof data.exercise !== 'string') {
+    throw new Error('Pose recording is missing its exercise');
+  }
+  if (!isRegisteredExercise(data.exercise)) {
+    throw new Error(`Unknown exercise in recording: ${data.exercise}`);
+  }
+  if (!data.model || !(data.model in POSE_MODELS)) {
+    throw new Error(`Unknown pose model in recording: ${data.model}`);
+  }
+  if (data.keypointFilter !== undefined && !(data.keypointFilter in KEYPOINT_FILTERS)) {
+    throw new Error(`Unknown keypoint filter in recording: ${data.keypointFilter}`);
+  }
+  if (
+    data.calibration !== undefined &&
+    (data.calibration.exercise !== data.exercise ||
+      typeof data.calibration.thresholds?.upAngle !== 'number' ||
+      typeof data.calibration.thresholds?.downAngle !== 'number' ||
+      typeof data.calibration.thresholds?.minROM !== 'number')
+  ) {
+    throw new Error('Pose recording calibration is malformed');
+  }
+  if (
+    data.targetTempo !== undefined &&
+    !TEMPO_PHASES.every((phase) => typeof data.targetTempo?.[phase] === 'number')
+  ) {
+    throw new Error('Pose recording target tempo is malformed');
+  }
+  if (typeof data.startedAt !== 'number' || !Array.isArray(data.frames)) {
+    throw new Error('Pose recording has no frames');
+  }
+
+  return data as PoseRecording;
+};
+
+// Named after the save time - video recordings start at playback time 0
+export const getRecordingFileName = (recording: PoseRecording): string => {
+  const date = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${recording.exercise}-${date}.poses.json`;
+};
+
+// Download the recording, or write it to Documents on Android
+export const saveRecording = async (recording: PoseRecording): Promise<void> => {
+  await saveTextFile(getRecordingFileName(recording), serializeRecording(recording), 'application/json');
+};
+
+// Stop the current recording and save it if any frames were captured
+export const finishRecording = (): void => {
+  const recording = poseRecorder.stop();
+  if (recording && recording.frames.length > 0) {
+    saveRecording(recording).catch((err) => {
+      console.error('Failed to save pose recording:', err);
+    });
+  }
+};
@@ -0,0 +1,54 @@
+import { PoseRecording, RepData, RepDiagnostic } from '../types';
+import { poseDetectionService } from './poseDetection';
+import { ExerciseDetectionService } from './exerciseDetection';
+import { decodeRecordedFrame } from './poseRecorder';
+
+export interface ReplayResult {
+  reps: RepData[];
+  diagnostics: RepDiagnostic[]; // Crossings and reps rep counting rejected
+  frameCount: number;
+  expectedReps: number | null;
+  matchesExpected: boolean | null; // null when the recording is not annotated
+}
+
+/**
+ * Feed a recording back through a fresh detector. Frames carry their
+ * original timestamps, keypoints are resolved with the model they were
+ * captured with, smoothed with the filter the session used, counted
+ * against the thresholds it was calibrated with and checked against its
+ * target tempo, so a replay yields the same RepData as the session that
+ * was recorded.
+ */
+export const replayRecording = (recording: PoseRecording): ReplayResult => {
+  const detector = new ExerciseDetectionService({
+    exercise: recording.exercise,
+    keypointFilter: recording.keypointFilter ?? 'off',
+  });
+  detector.setSide(recording.side ?? null);
+  if (recording.calibration) {
+    detector.setCalibrations({ [recording.exercise]: recording.calibration });
+  }
+  detector.setTargetTempo(recording.targetTempo ?? null);
+
+  const reps = poseDetectionService.withKeypointModel(recording.model, () => {
+    const completed: RepData[] = [];
+    for (const frame of recording.frames) {
+      const { pose, timestamp } = decodeRecordedFrame(recording, frame);
+      const rep = detector.detectRep(pose.keypoints, timestamp);
+      if (rep) {
+        completed.push(rep);
+      }
+    }
+    return completed;
+  });
+
+  const expectedReps = recording.expectedReps ?? null;
+
+  return {
+    reps,
+    diagnostics: detector.getDiagnostics(),
+    frameCount: recording.frames.length,
+    expectedReps,
+    matchesExpected: expectedReps === null ? null : reps.length === expectedReps,
+  };
+};
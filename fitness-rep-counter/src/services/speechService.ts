@@ -119,11 +119,21 @@ class SpeechService {
     this.speak(message, 'high');
   }
 
+  // Partial reps get their own call, naming the end position that was missed
+  announcePartialRep(missed: 'top' | 'bottom', depth?: number): void {
+    const percent = depth !== undefined ? `, ${depth} percent` : '';
+    this.speak(`Partial rép${percent}. Short of the ${missed}.`, 'high');
+  }
+
   announceSetComplete(setNumber: number, validReps: number, totalReps: number): void {
     const message = `Set ${setNumber} complete. ${validReps} of ${totalReps} valid reps.`;
     this.speak(message, 'high');
   }
 
+  announceHoldComplete(setNumber: number, seconds: number): void {
+    this.speak(`Set ${setNumber} complete. ${seconds} second hold.`, 'high');
+  }
+
   announceRestPeriod(seconds: number): void {
     this.speak(`Rest for ${seconds} seconds`, 'normal');
   }
@@ -138,10 +148,35 @@ class SpeechService {
     this.speak('Workout complete! Great job!', 'high');
   }
 
+  announcePersonalRecords(records: string[]): void {
+    if (records.length === 0) return;
+    const intro = records.length === 1 ? 'New personal record!' : `${records.length} new personal records!`;
+    this.speak(`${intro} ${records.join('. ')}.`, 'high');
+  }
+
+  announceVelocityLoss(percent: number): void {
+    this.speak(`Speed down ${Math.round(percent)} percent. Time to end the set.`, 'high');
+  }
+
   announceExerciseStart(exercise: string): void {
     this.speak(`Starting ${exercise}. Get ready!`, 'high');
   }
 
+  announceRoundStart(label: string, round: number, totalRounds: number): void {
+    this.speak(`${label} ${round} of ${totalRounds}. Go!`, 'high');
+  }
+
+  announceTimeRemaining(seconds: number): void {
+    const message = seconds >= 60 && seconds % 60 === 0
+      ? `${seconds / 60} ${seconds === 60 ? 'minute' : 'minutes'} left`
+      : `${seconds} seconds left`;
+    this.speak(message, 'normal');
+  }
+
+  announceTimeUp(): void {
+    this.speak('Time!', 'high');
+  }
+
   announceCountdown(count: number): void {
     this.speak(count.toString(), 'high');
   }
@@ -0,0 +1,124 @@
+import { ExerciseCalibrations, KeypointFilterType, PoseResult, RepData } from '../types';
+import { poseDetectionService } from './poseDetection';
+import { ExerciseDetectionService } from './exerciseDetection';
+import { ClassifierFrame, ExerciseSegment, segmentExercises } from './exerciseClassifier';
+
+// Frames sampled per second of video in offline analysis
+export const OFFLINE_SAMPLE_RATE = 30;
+
+interface OfflineAnalysisOptions {
+  detector: ExerciseDetectionService;
+  sampleRate?: number;
+  signal?: AbortSignal;
+  onFrame?: (pose: PoseResult, frameTime: number, rep: RepData | null) => void;
+  onProgress?: (progress: number) => void; // 0-100
+}
+
+export interface OfflineAnalysisResult {
+  reps: RepData[];
+  framesAnalyzed: number;
+  cancelled: boolean;
+}
+
+// One exercise of an analysed clip, counted on its own
+export interface SegmentAnalysis extends ExerciseSegment {
+  reps: RepData[];
+  holdTime: number | null; // ms, hold exercises only
+}
+
+interface SegmentAnalysisOptions {
+  keypointFilter?: KeypointFilterType;
+  calibrations?: ExerciseCalibrations;
+}
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Failed to seek video'));
+    };
+    const cleanup = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+    };
+
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = time;
+  });
+};
+
+/**
+ * Analyze a video frame by frame, independent of playback. The video is
+ * paused and seeked to every sample time in turn, and each frame waits for
+ * inference before moving on, so no frames are dropped and the same file
+ * always produces the same RepData. Frame times are the sample times in ms.
+ */
+export const analyzeVideoOffline = async (
+  video: HTMLVideoElement,
+  { detector, sampleRate = OFFLINE_SAMPLE_RATE, signal, onFrame, onProgress }: OfflineAnalysisOptions
+): Promise<OfflineAnalysisResult> => {
+  if (!Number.isFinite(video.duration)) {
+    throw new Error('Video duration is unknown - cannot analyze frame by frame');
+  }
+
+  video.pause();
+
+  const frameCount = Math.floor(video.duration * sampleRate);
+  const reps: RepData[] = [];
+  let framesAnalyzed = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (signal?.aborted) {
+      return { reps, framesAnalyzed, cancelled: true };
+    }
+
+    const frameTime = (frame * 1000) / sampleRate;
+    await seekTo(video, frameTime / 1000);
+
+    const pose = await poseDetectionService.detectPose(video, frameTime);
+    framesAnalyzed++;
+
+    if (pose) {
+      const rep = detector.detectRep(pose.keypoints, frameTime);
+      if (rep) {
+        reps.push(rep);
+      }
+      onFrame?.(pose, frameTime, rep);
+    }
+
+    onProgress?.(((frame + 1) / frameCount) * 100);
+  }
+
+  return { reps, framesAnalyzed, cancelled: false };
+};
+
+/**
+ * Find the exercises done in an analysed clip and count each of them.
+ * Every segment runs through a fresh detector for its own exercise, fed
+ * only the frames between its start and end.
+ */
+export const analyzeSegments = (
+  frames: ClassifierFrame[],
+  { keypointFilter = 'off', calibrations = {} }: SegmentAnalysisOptions = {}
+): SegmentAnalysis[] => {
+  return segmentExercises(frames).map((segment) => {
+    const detector = new ExerciseDetectionService({ exercise: segment.exercise, keypointFilter });
+    detector.setCalibrations(calibrations);
+
+    const reps: RepData[] = [];
+    for (const frame of frames) {
+      if (frame.timestamp < segment.start || frame.timestamp > segment.end) continue;
+      const rep = detector.detectRep(frame.keypoints, frame.timestamp);
+      if (rep) {
+        reps.push(rep);
+      }
+    }
+
+    return { ...segment, reps, holdTime: detector.getHoldProgress()?.holdTime ?? null };
+  });
+};
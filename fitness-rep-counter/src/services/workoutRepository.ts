@@ -0,0 +1,209 @@
+import { ExerciseType, WorkoutSession } from '../types';
+import { getSessionExercises } from '../utils/workoutPlan';
+
+const DB_NAME = 'fitness-rep-counter';
+const SESSION_STORE = 'sessions';
+
+// Schema migrations - entry N upgrades the database from version N to N + 1.
+// Append new migrations; never edit one that has shipped. The versionchange
+// transaction is passed in so a migration can rewrite existing records.
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Stored session with its index keys. A multi-exercise session is indexed
+// under every exercise it includes, not only its first.
+type SessionRecord = WorkoutSession & {
+  exerciseDates: [ExerciseType, number][];
+};
+
+const toRecord = (session: WorkoutSession): SessionRecord => ({
+  ...session,
+  exerciseDates: getSessionExercises(session).map((exercise) => [exercise, session.date]),
+});
+
+const fromRecord = (record: SessionRecord): WorkoutSession => {
+  const session: Partial<SessionRecord> = { ...record };
+  delete session.exerciseDates;
+  return session as WorkoutSession;
+};
+
+const MIGRATIONS: Migration[] = [
+  // v1: sessions keyed by id, indexed by date and by exercise + date
+  (db) => {
+    const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    sessions.createIndex('date', 'date');
+    sessions.createIndex('exerciseDate', ['exercise', 'date']);
+  },
+  // v2: exercise + date index over every exercise of a session
+  (_db, transaction) => {
+    const sessions = transaction.objectStore(SESSION_STORE);
+    sessions.deleteIndex('exerciseDate');
+    sessions.createIndex('exercisesDate', 'exerciseDates', { multiEntry: true });
+    const cursorRequest = sessions.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update(toRecord(cursor.value));
+      cursor.continue();
+    };
+  },
+  // v3: program sessions by program + date - sessions outside a program
+  // have no program id and stay out of the index
+  (_db, transaction) => {
+    transaction.objectStore(SESSION_STORE).createIndex('programDate', ['program.programId', 'date']);
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Filters by exercise or by program, not both
+export interface SessionQuery {
+  exercise?: ExerciseType;
+  programId?: string;
+  from?: number; // Inclusive, epoch ms
+  to?: number; // Inclusive, epoch ms
+  limit?: number;
+  newestFirst?: boolean;
+  where?: (session: WorkoutSession) => boolean; // Applied before the limit
+}
+
+// Wrap an IDBRequest in a promise
+const request = <T>(req: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+};
+
+// Resolve once a write transaction has committed
+const committed = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+};
+
+/**
+ * Workout history in IndexedDB. Sessions are stored whole (sets, reps and
+ * joint angles) without a cap, and read back through the date and
+ * exercise + date indexes so callers only load the range they show.
+ * Records carry their index keys, which are dropped again on read.
+ */
+class WorkoutRepository {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available - workout history cannot be saved'));
+          return;
+        }
+
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = (event) => {
+          const transaction = req.transaction;
+          if (!transaction) return;
+          for (let version = event.oldVersion; version < DB_VERSION; version++) {
+            MIGRATIONS[version](req.result, transaction);
+          }
+        };
+        req.onsuccess = () => {
+          // Let a newer tab upgrade the schema instead of blocking it
+          req.result.onversionchange = () => {
+            req.result.close();
+            this.db = null;
+          };
+          resolve(req.result);
+        };
+        req.onerror = () => reject(req.error ?? new Error('Failed to open workout history'));
+        req.onblocked = () => console.warn('Workout history upgrade is waiting for other tabs to close');
+      });
+      // Allow a later call to retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  async addSession(session: WorkoutSession): Promise<void> {
+    await this.putSessions([session]);
+  }
+
+  // Insert or replace sessions in a single transaction
+  async putSessions(sessions: WorkoutSession[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE);
+    sessions.forEach((session) => store.put(toRecord(session)));
+    await committed(transaction);
+  }
+
+  async getSession(id: string): Promise<WorkoutSession | null> {
+    const db = await this.open();
+    const store = db.transaction(SESSION_STORE).objectStore(SESSION_STORE);
+    const record = await request<SessionRecord | undefined>(store.get(id));
+    return record ? fromRecord(record) : null;
+  }
+
+  // Sessions in date order (oldest first unless `newestFirst`)
+  async getSessions({
+    exercise,
+    programId,
+    from = 0,
+    to = Number.MAX_SAFE_INTEGER,
+    limit,
+    newestFirst = false,
+    where,
+  }: SessionQuery = {}): Promise<WorkoutSession[]> {
+    const db = await this.open();
+    const store = db.transaction(SESSION_STORE).objectStore(SESSION_STORE);
+    const [index, range] = exercise
+      ? [store.index('exercisesDate'), IDBKeyRange.bound([exercise, from], [exercise, to])]
+      : programId
+      ? [store.index('programDate'), IDBKeyRange.bound([programId, from], [programId, to])]
+      : [store.index('date'), IDBKeyRange.bound(from, to)];
+
+    if (limit === undefined && !newestFirst && !where) {
+      return (await request<SessionRecord[]>(index.getAll(range))).map(fromRecord);
+    }
+
+    return new Promise((resolve, reject) => {
+      const sessions: WorkoutSession[] = [];
+      const cursorRequest = index.openCursor(range, newestFirst ? 'prev' : 'next');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || (limit !== undefined && sessions.length >= limit)) {
+          resolve(sessions);
+          return;
+        }
+        const session = fromRecord(cursor.value);
+        if (!where || where(session)) {
+          sessions.push(session);
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  async countSessions(exercise?: ExerciseType): Promise<number> {
+    const db = await this.open();
+    const store = db.transaction(SESSION_STORE).objectStore(SESSION_STORE);
+    return exercise
+      ? request(store.index('exercisesDate').count(
+          IDBKeyRange.bound([exercise, 0], [exercise, Number.MAX_SAFE_INTEGER])
+        ))
+      : request(store.count());
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).clear();
+    await committed(transaction);
+  }
+}
+
+export const workoutRepository = new WorkoutRepository();
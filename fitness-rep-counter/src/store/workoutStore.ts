@@ -8,8 +8,52 @@ import {
   RepData,
   WorkoutPhase,
   TrendDataPoint,
+  PoseModelType,
+  KeypointFilterType,
+  HoldProgress,
+  UnilateralMode,
+  WorkoutBlock,
+  WorkoutStep,
+  WorkoutTemplate,
+  TrainingProgram,
+  ProgramWorkoutRef,
+  PlannedWorkout,
+  ExerciseCalibration,
+  UserProfile,
 } from '../types';
 import type { ZoomLevel } from '../hooks/useCamera';
+import {
+  getExerciseDefinition,
+  getExerciseName,
+  isRegisteredExercise,
+  isHoldExercise,
+  isUnilateralExercise,
+} from '../data/exercises';
+import { DEFAULT_POSE_MODEL } from '../services/poseModel';
+import { DEFAULT_KEYPOINT_FILTER } from '../services/keypointFilter';
+import { workoutRepository } from '../services/workoutRepository';
+import { getSetSide, getSideStats, getWeakerSide, SIDE_LABELS } from '../utils/unilateral';
+import {
+  buildWorkoutPlan,
+  getConfigExercises,
+  getSessionExercises,
+  getSetExercise,
+  getWorkoutBlocks,
+  toWorkoutBlock,
+} from '../utils/workoutPlan';
+import { getPlannedWorkouts } from '../utils/programs';
+import { detectPersonalRecords } from '../utils/personalRecords';
+import {
+  describeProgressionConfig,
+  isProgressable,
+  PROGRESSION_LOOKBACK,
+  suggestProgression,
+} from '../utils/progression';
+import { countPartialReps } from '../utils/repQuality';
+
+// Target for hold sets when the saved config predates hold exercises
+export const DEFAULT_TARGET_HOLD_TIME = 30;
+export const DEFAULT_UNILATERAL_MODE: UnilateralMode = 'alternating';
 
 interface WorkoutState {
   // Current workout configuration
@@ -17,8 +61,10 @@ interface WorkoutState {
   
   // Current workout session
   currentSession: WorkoutSession | null;
-  currentSetIndex: number;
+  workoutPlan: WorkoutStep[]; // Every set of the session in order
+  currentSetIndex: number; // Index into workoutPlan
   currentReps: RepData[];
+  currentHold: HoldProgress | null; // Hold exercises only
   
   // Workout phase
   phase: WorkoutPhase;
@@ -29,8 +75,9 @@ interface WorkoutState {
   workoutStartTime: number | null;
   setStartTime: number | null;
   
-  // Historical data
-  workoutHistory: WorkoutSession[];
+  // History persisted to localStorage before it moved to IndexedDB,
+  // kept here until importLegacyHistory has copied it across
+  pendingHistoryImport: WorkoutSession[] | null;
   
   // UI state
   isCameraReady: boolean;
@@ -40,6 +87,17 @@ interface WorkoutState {
   // Camera settings
   cameraZoomLevel: ZoomLevel;
   
+  // Pose detection settings
+  poseModel: PoseModelType;
+  keypointFilter: KeypointFilterType;
+  
+  // Saved workouts and the programs that schedule them
+  templates: WorkoutTemplate[];
+  programs: TrainingProgram[];
+  
+  // Personal calibration of this device's user
+  profile: UserProfile;
+  
   // Actions
   setConfig: (config: Partial<WorkoutConfig>) => void;
   setPhase: (phase: WorkoutPhase) => void;
@@ -47,28 +105,106 @@ interface WorkoutState {
   setPoseDetectionReady: (ready: boolean) => void;
   setShowSettings: (show: boolean) => void;
   setCameraZoomLevel: (level: ZoomLevel) => void;
+  setPoseModel: (model: PoseModelType) => void;
+  setKeypointFilter: (filter: KeypointFilterType) => void;
+  getSettings: () => WorkoutSettings;
+  applySettings: (settings: WorkoutSettings) => void;
+  
+  // Template and program actions
+  saveTemplate: (name: string) => void;
+  loadTemplate: (id: string) => void;
+  deleteTemplate: (id: string) => void;
+  saveProgram: (program: TrainingProgram) => void;
+  deleteProgram: (id: string) => void;
+  getPlannedWorkouts: (date?: number) => Promise<PlannedWorkout[]>;
+  startPlannedWorkout: (planned: PlannedWorkout) => void;
+  
+  // Calibration actions
+  saveCalibration: (calibration: ExerciseCalibration) => void;
+  clearCalibration: (exercise: ExerciseType) => void;
   
   // Workout actions
-  startWorkout: () => void;
+  startWorkout: (program?: ProgramWorkoutRef) => void;
+  switchExercise: (exercise: ExerciseType) => void;
   addRep: (rep: RepData) => void;
+  updateHold: (progress: HoldProgress) => void;
   completeSet: () => void;
   startNextSet: () => void;
-  completeWorkout: () => void;
+  completeWorkout: () => Promise<void>;
   resetWorkout: () => void;
+  acceptProgression: () => void;
+  getCurrentBlock: () => { block: WorkoutBlock; step: WorkoutStep; next: WorkoutBlock | null } | null;
   
   // Timer actions
   setCountdownTime: (time: number) => void;
   setRestTime: (time: number) => void;
   
-  // History actions
-  addToHistory: (session: WorkoutSession) => void;
-  clearHistory: () => void;
+  // History actions - sessions live in the IndexedDB workout repository
+  addToHistory: (session: WorkoutSession) => Promise<void>;
+  clearHistory: () => Promise<void>;
+  importLegacyHistory: () => Promise<void>;
   
   // Computed data
-  getTrendData: () => TrendDataPoint[];
-  getExerciseHistory: (exercise: ExerciseType) => WorkoutSession[];
+  getTrendData: () => Promise<TrendDataPoint[]>;
+  getExerciseHistory: (exercise: ExerciseType) => Promise<WorkoutSession[]>;
 }
 
+// User settings - persisted to localStorage and included in backups.
+// Add new settings here and to pickSettings so both pick them up.
+export type WorkoutSettings = Pick<
+  WorkoutState,
+  'config' | 'cameraZoomLevel' | 'poseModel' | 'keypointFilter' | 'templates' | 'programs' | 'profile'
+>;
+
+const pickSettings = (state: WorkoutSettings): WorkoutSettings => ({
+  config: state.config,
+  cameraZoomLevel: state.cameraZoomLevel,
+  poseModel: state.poseModel,
+  keypointFilter: state.keypointFilter,
+  templates: state.templates,
+  programs: state.programs,
+  profile: state.profile,
+});
+
+// Saved state and backups may name exercises this build does not have.
+// Unknown blocks are dropped and an unknown exercise falls back to the
+// first remaining block's, else to `fallback`; templates naming one are
+// dropped whole (programs already skip days whose template is gone), as
+// are calibrations for them.
+const withRegisteredExercises = (settings: WorkoutSettings, fallback: ExerciseType): WorkoutSettings => {
+  const { config, templates, profile } = settings;
+  const blocks = config.blocks?.filter((block) => isRegisteredExercise(block.exercise));
+  const exercise = isRegisteredExercise(config.exercise)
+    ? config.exercise
+    : blocks?.[0]?.exercise ?? fallback;
+  const knownTemplates = templates.filter((template) =>
+    getConfigExercises(template.config).every(isRegisteredExercise)
+  );
+  if (knownTemplates.length < templates.length) {
+    console.warn(`Dropped ${templates.length - knownTemplates.length} template(s) with unknown exercises`);
+  }
+
+  return {
+    ...settings,
+    config: { ...config, exercise, blocks: blocks?.length ? blocks : undefined },
+    templates: knownTemplates,
+    profile: {
+      ...profile,
+      calibrations: Object.fromEntries(
+        Object.entries(profile.calibrations).filter(([id]) => isRegisteredExercise(id))
+      ),
+    },
+  };
+};
+
+// State saved to localStorage
+type PersistedState = WorkoutSettings & Pick<WorkoutState, 'pendingHistoryImport'>;
+
+// Saved state before history moved to IndexedDB (persist version 0)
+type PersistedStateV0 = Omit<PersistedState, 'pendingHistoryImport'> & {
+  workoutHistory?: WorkoutSession[];
+};
+
 export const useWorkoutStore = create<WorkoutState>()(
   persist(
     (set, get) => ({
@@ -78,11 +214,15 @@ export const useWorkoutStore = create<WorkoutState>()(
         sets: 3,
         targetReps: 10,
         restPeriod: 60,
+        targetHoldTime: DEFAULT_TARGET_HOLD_TIME,
+        unilateralMode: DEFAULT_UNILATERAL_MODE,
       },
       
       currentSession: null,
+      workoutPlan: [],
       currentSetIndex: 0,
       currentReps: [],
+      currentHold: null,
       
       phase: 'setup',
       
@@ -91,7 +231,7 @@ export const useWorkoutStore = create<WorkoutState>()(
       workoutStartTime: null,
       setStartTime: null,
       
-      workoutHistory: [],
+      pendingHistoryImport: null,
       
       isCameraReady: false,
       isPoseDetectionReady: false,
@@ -99,6 +239,14 @@ export const useWorkoutStore = create<WorkoutState>()(
       
       cameraZoomLevel: 1,
       
+      poseModel: DEFAULT_POSE_MODEL,
+      keypointFilter: DEFAULT_KEYPOINT_FILTER,
+      
+      templates: [],
+      programs: [],
+      
+      profile: { calibrations: {} },
+      
       // Actions
       setConfig: (config) => set((state) => ({
         config: { ...state.config, ...config },
@@ -114,27 +262,107 @@ export const useWorkoutStore = create<WorkoutState>()(
       
       setCameraZoomLevel: (level) => set({ cameraZoomLevel: level }),
       
-      startWorkout: () => {
+      setPoseModel: (model) => set({ poseModel: model }),
+      
+      setKeypointFilter: (filter) => set({ keypointFilter: filter }),
+      
+      getSettings: () => pickSettings(get()),
+      
+      applySettings: (settings) => {
+        set(withRegisteredExercises(pickSettings(settings), get().config.exercise));
+      },
+      
+      saveTemplate: (name) => set((state) => ({
+        templates: [
+          ...state.templates,
+          { id: Date.now().toString(), name, config: state.config, createdAt: Date.now() },
+        ],
+      })),
+      
+      loadTemplate: (id) => {
+        const template = get().templates.find((t) => t.id === id);
+        if (template) set({ config: template.config });
+      },
+      
+      // Programs skip schedule entries of deleted templates
+      deleteTemplate: (id) => set((state) => ({
+        templates: state.templates.filter((t) => t.id !== id),
+      })),
+      
+      saveProgram: (program) => set((state) => ({
+        programs: state.programs.some((p) => p.id === program.id)
+          ? state.programs.map((p) => (p.id === program.id ? program : p))
+          : [...state.programs, program],
+      })),
+      
+      deleteProgram: (id) => set((state) => ({
+        programs: state.programs.filter((p) => p.id !== id),
+      })),
+      
+      // One calibration per exercise - recalibrating replaces it
+      saveCalibration: (calibration) => set((state) => ({
+        profile: {
+          ...state.profile,
+          calibrations: { ...state.profile.calibrations, [calibration.exercise]: calibration },
+        },
+      })),
+      
+      clearCalibration: (exercise) => set((state) => {
+        const calibrations = { ...state.profile.calibrations };
+        delete calibrations[exercise];
+        return { profile: { ...state.profile, calibrations } };
+      }),
+      
+      getPlannedWorkouts: async (date = Date.now()) => {
+        const { programs, templates } = get();
+        if (programs.length === 0) return [];
+        
+        // Progression looks back over the programs' own sessions
+        const sessions = (
+          await Promise.all(programs.map((program) => workoutRepository.getSessions({ programId: program.id })))
+        ).flat();
+        return getPlannedWorkouts(programs, templates, sessions, date);
+      },
+      
+      // The planned config becomes the current config, so it shows when
+      // the user comes back to set up the next workout
+      startPlannedWorkout: (planned) => {
+        set({ config: planned.config });
+        get().startWorkout({
+          programId: planned.program.id,
+          templateId: planned.template.id,
+          week: planned.week,
+        });
+      },
+      
+      startWorkout: (program) => {
         const { config } = get();
+        const blocks = getWorkoutBlocks(config);
+        const exercises = Array.from(new Set(blocks.map((block) => block.exercise)));
         const session: WorkoutSession = {
           id: Date.now().toString(),
           date: Date.now(),
-          exercise: config.exercise,
+          exercise: blocks[0].exercise,
+          exercises: exercises.length > 1 ? exercises : undefined,
           config,
           sets: [],
           totalReps: 0,
           totalValidReps: 0,
+          totalPartialReps: 0,
           averageFormScore: 0,
           averageROM: 0,
           totalDuration: 0,
           caloriesEstimate: 0,
           recommendations: [],
+          program,
         };
         
         set({
           currentSession: session,
+          workoutPlan: buildWorkoutPlan(config),
           currentSetIndex: 0,
           currentReps: [],
+          currentHold: null,
           workoutStartTime: Date.now(),
           setStartTime: Date.now(),
           phase: 'countdown',
@@ -142,30 +370,61 @@ export const useWorkoutStore = create<WorkoutState>()(
         });
       },
       
+      // Swap the exercise of a single-exercise workout before its first set
+      // is done, e.g. when the movement was recognised as another exercise.
+      // The set starts over.
+      switchExercise: (exercise) => {
+        const { currentSession, config } = get();
+        if (!currentSession || currentSession.sets.length > 0 || currentSession.config.blocks?.length) return;
+
+        const sessionConfig = { ...currentSession.config, exercise };
+        set({
+          config: { ...config, exercise },
+          currentSession: { ...currentSession, exercise, config: sessionConfig },
+          workoutPlan: buildWorkoutPlan(sessionConfig),
+          currentReps: [],
+          currentHold: null,
+          setStartTime: Date.now(),
+        });
+      },
+      
       addRep: (rep) => set((state) => ({
         currentReps: [...state.currentReps, rep],
       })),
       
+      updateHold: (progress) => set({ currentHold: progress }),
+      
       completeSet: () => {
-        const { currentReps, currentSetIndex, currentSession, config } = get();
+        const { currentReps, currentHold, currentSetIndex, currentSession, workoutPlan } = get();
+        const current = get().getCurrentBlock();
         
-        if (!currentSession) return;
+        if (!currentSession || !current) return;
         
+        const { block, step } = current;
         const validReps = currentReps.filter((r) => r.isValid);
+        const holdStats = isHoldExercise(block.exercise) ? getHoldSetStats(currentHold) : {};
+        const sideStats = isUnilateralExercise(block.exercise)
+          ? getSideSetStats(currentReps, block.unilateralMode ?? DEFAULT_UNILATERAL_MODE, step.setIndex)
+          : {};
         const setData: SetData = {
-          setNumber: currentSetIndex + 1,
+          setNumber: step.setIndex + 1,
+          exercise: currentSession.exercises ? block.exercise : undefined,
           reps: currentReps,
           totalReps: currentReps.length,
           validReps: validReps.length,
+          partialReps: countPartialReps(currentReps),
           averageFormScore: currentReps.length > 0
             ? currentReps.reduce((sum, r) => sum + r.formScore, 0) / currentReps.length
             : 0,
           averageROM: currentReps.length > 0
             ? currentReps.reduce((sum, r) => sum + r.rangeOfMotion, 0) / currentReps.length
             : 0,
+          timeUnderTension: currentReps.reduce((sum, r) => sum + (r.timeUnderTension ?? 0), 0),
           duration: Date.now() - (get().setStartTime || Date.now()),
           startTime: get().setStartTime || Date.now(),
           endTime: Date.now(),
+          ...holdStats,
+          ...sideStats,
         };
         
         const updatedSession: WorkoutSession = {
@@ -173,53 +432,85 @@ export const useWorkoutStore = create<WorkoutState>()(
           sets: [...currentSession.sets, setData],
           totalReps: currentSession.totalReps + setData.totalReps,
           totalValidReps: currentSession.totalValidReps + setData.validReps,
+          totalPartialReps: (currentSession.totalPartialReps ?? 0) + (setData.partialReps ?? 0),
         };
         
         // Check if workout is complete
-        if (currentSetIndex + 1 >= config.sets) {
+        if (currentSetIndex + 1 >= workoutPlan.length) {
           set({
             currentSession: updatedSession,
             phase: 'workoutComplete',
           });
-        } else {
+        } else if (step.restAfter > 0) {
           set({
             currentSession: updatedSession,
             phase: 'resting',
-            restTime: config.restPeriod,
+            restTime: step.restAfter,
             currentReps: [],
+            currentHold: null,
           });
+        } else {
+          // Next exercise of a circuit or superset round - no rest
+          set({ currentSession: updatedSession });
+          get().startNextSet();
         }
       },
       
       startNextSet: () => {
-        const { currentSetIndex } = get();
+        const { currentSetIndex, workoutPlan } = get();
+        // Interval formats keep the clock going - only the first set has a countdown
+        const isTimed = workoutPlan[currentSetIndex + 1]?.workSeconds !== undefined;
         set({
           currentSetIndex: currentSetIndex + 1,
           setStartTime: Date.now(),
           currentReps: [],
-          phase: 'countdown',
+          currentHold: null,
+          phase: isTimed ? 'exercising' : 'countdown',
           countdownTime: 5,
         });
       },
       
-      completeWorkout: () => {
+      completeWorkout: async () => {
         const { currentSession, workoutStartTime } = get();
         
         if (!currentSession) return;
         
         const totalDuration = Date.now() - (workoutStartTime || Date.now());
         const allReps = currentSession.sets.flatMap((s) => s.reps);
+        const holdSets = currentSession.sets.filter((s) => s.holdTime !== undefined);
+        const isHold = holdSets.length > 0;
+        const isUnilateral = currentSession.sets.some((s) => s.leftReps !== undefined);
+        const holdTime = holdSets.reduce((sum, s) => sum + (s.holdTime ?? 0), 0);
+        // Holds have no reps - their sets carry the hold quality as the form score
+        const formScores = [
+          ...allReps.map((r) => r.formScore),
+          ...holdSets.map((s) => s.averageFormScore),
+        ];
         
         const finalSession: WorkoutSession = {
           ...currentSession,
           totalDuration,
-          averageFormScore: allReps.length > 0
-            ? allReps.reduce((sum, r) => sum + r.formScore, 0) / allReps.length
+          averageFormScore: formScores.length > 0
+            ? formScores.reduce((sum, score) => sum + score, 0) / formScores.length
             : 0,
           averageROM: allReps.length > 0
             ? allReps.reduce((sum, r) => sum + r.rangeOfMotion, 0) / allReps.length
             : 0,
-          caloriesEstimate: Math.round(allReps.length * 0.5 * (totalDuration / 60000)),
+          totalTimeUnderTension: currentSession.sets.reduce(
+            (sum, s) => sum + (s.timeUnderTension ?? 0),
+            0
+          ),
+          totalHoldTime: isHold ? holdTime : undefined,
+          totalLeftReps: isUnilateral
+            ? currentSession.sets.reduce((sum, s) => sum + (s.leftReps ?? 0), 0)
+            : undefined,
+          totalRightReps: isUnilateral
+            ? currentSession.sets.reduce((sum, s) => sum + (s.rightReps ?? 0), 0)
+            : undefined,
+          // Holds burn roughly 4 kcal per minute held
+          caloriesEstimate: Math.round(
+            (holdTime / 60000) * 4 + allReps.length * 0.5 * (totalDuration / 60000)
+          ),
           recommendations: generateRecommendations(currentSession),
         };
         
@@ -228,14 +519,55 @@ export const useWorkoutStore = create<WorkoutState>()(
           phase: 'summary',
         });
         
+        // Records and progression compare against the saved history, so
+        // they are worked out before the session joins it
+        let savedSession = finalSession;
+        try {
+          // Records are per exercise, so only sessions that include one of
+          // this session's exercises can hold them
+          const exerciseHistories = await Promise.all(
+            getSessionExercises(finalSession).map((exercise) =>
+              workoutRepository.getSessions({ exercise, to: finalSession.date })
+            )
+          );
+          const history = Array.from(
+            new Map(exerciseHistories.flat().map((session) => [session.id, session])).values()
+          );
+          const recentSessions = await workoutRepository.getSessions({
+            exercise: finalSession.exercise,
+            to: finalSession.date,
+            limit: PROGRESSION_LOOKBACK,
+            newestFirst: true,
+            where: isProgressable,
+          });
+          const records = detectPersonalRecords(finalSession, history);
+          const suggestion = suggestProgression(finalSession, recentSessions) ?? undefined;
+          savedSession = {
+            ...finalSession,
+            personalRecords: records.length > 0 ? records : undefined,
+            suggestedProgression: suggestion,
+            recommendations: suggestion
+              ? [...finalSession.recommendations, `Next workout: ${describeProgressionConfig(suggestion)}.`]
+              : finalSession.recommendations,
+          };
+        } catch (err) {
+          console.error('Failed to check workout history:', err);
+        }
+        
+        if (get().currentSession?.id === finalSession.id) {
+          set({ currentSession: savedSession });
+        }
+        
         // Add to history
-        get().addToHistory(finalSession);
+        await get().addToHistory(savedSession);
       },
       
       resetWorkout: () => set({
         currentSession: null,
+        workoutPlan: [],
         currentSetIndex: 0,
         currentReps: [],
+        currentHold: null,
         phase: 'setup',
         workoutStartTime: null,
         setStartTime: null,
@@ -243,18 +575,55 @@ export const useWorkoutStore = create<WorkoutState>()(
         restTime: 0,
       }),
       
+      // Next workout repeats the finished one with the suggested targets
+      acceptProgression: () => {
+        const { currentSession } = get();
+        const suggestion = currentSession?.suggestedProgression;
+        if (!suggestion) return;
+        
+        set({ config: { ...currentSession.config, ...suggestion.config } });
+      },
+      
+      getCurrentBlock: () => {
+        const { currentSession, workoutPlan, currentSetIndex } = get();
+        const step = workoutPlan[currentSetIndex];
+        if (!currentSession || !step) return null;
+        
+        const blocks = getWorkoutBlocks(currentSession.config);
+        const nextStep = workoutPlan[currentSetIndex + 1];
+        return {
+          block: blocks[step.blockIndex],
+          step,
+          next: nextStep ? blocks[nextStep.blockIndex] : null,
+        };
+      },
+      
       setCountdownTime: (time) => set({ countdownTime: time }),
       
       setRestTime: (time) => set({ restTime: time }),
       
-      addToHistory: (session) => set((state) => ({
-        workoutHistory: [session, ...state.workoutHistory].slice(0, 100), // Keep last 100 sessions
-      })),
+      addToHistory: async (session) => {
+        try {
+          await workoutRepository.addSession(session);
+        } catch (err) {
+          console.error('Failed to save workout to history:', err);
+        }
+      },
       
-      clearHistory: () => set({ workoutHistory: [] }),
+      clearHistory: () => workoutRepository.clear(),
       
-      getTrendData: () => {
-        const { workoutHistory } = get();
+      // Sessions are put by id, so an import interrupted by a reload
+      // is simply repeated on the next start
+      importLegacyHistory: async () => {
+        const { pendingHistoryImport } = get();
+        if (!pendingHistoryImport) return;
+        
+        await workoutRepository.putSessions(pendingHistoryImport);
+        set({ pendingHistoryImport: null });
+      },
+      
+      getTrendData: async () => {
+        const workoutHistory = await workoutRepository.getSessions({ newestFirst: true });
         
         // Group by date and calculate averages
         const groupedByDate = workoutHistory.reduce((acc, session) => {
@@ -271,31 +640,105 @@ export const useWorkoutStore = create<WorkoutState>()(
             date,
             totalReps: sessions.reduce((sum, s) => sum + s.totalReps, 0),
             validReps: sessions.reduce((sum, s) => sum + s.totalValidReps, 0),
+            partialReps: sessions.reduce((sum, s) => sum + (s.totalPartialReps ?? 0), 0),
             formScore: sessions.reduce((sum, s) => sum + s.averageFormScore, 0) / sessions.length,
             rom: sessions.reduce((sum, s) => sum + s.averageROM, 0) / sessions.length,
+            timeUnderTension: sessions.reduce((sum, s) => sum + (s.totalTimeUnderTension ?? 0), 0) / 1000,
           }))
           .reverse()
           .slice(0, 30); // Last 30 days
       },
       
       getExerciseHistory: (exercise) => {
-        const { workoutHistory } = get();
-        return workoutHistory.filter((s) => s.exercise === exercise);
+        return workoutRepository.getSessions({ exercise, newestFirst: true });
       },
     }),
     {
       name: 'fitness-workout-storage',
-      partialize: (state) => ({
-        workoutHistory: state.workoutHistory,
-        config: state.config,
-        cameraZoomLevel: state.cameraZoomLevel,
+      // v1 moved workoutHistory out of localStorage into IndexedDB
+      version: 1,
+      migrate: (persistedState, version) => {
+        if (version < 1) {
+          const { workoutHistory, ...rest } = persistedState as PersistedStateV0;
+          return { ...rest, pendingHistoryImport: workoutHistory?.length ? workoutHistory : null };
+        }
+        return persistedState as PersistedState;
+      },
+      // Runs on every load, unlike migrate, so ids dropped from the
+      // registry since the state was saved are caught too
+      merge: (persistedState, currentState) => {
+        const state = { ...currentState, ...(persistedState as Partial<PersistedState>) };
+        return { ...state, ...withRegisteredExercises(pickSettings(state), currentState.config.exercise) };
+      },
+      partialize: (state): PersistedState => ({
+        pendingHistoryImport: state.pendingHistoryImport,
+        ...pickSettings(state),
       }),
     }
   )
 );
 
+// Hold time, breaks and hold quality (share of the hold spent in position)
+function getHoldSetStats(hold: HoldProgress | null): Partial<SetData> {
+  const holdTime = hold?.holdTime ?? 0;
+  const breaks = hold?.breaks ?? [];
+  const breakTime = breaks.reduce((sum, b) => sum + b.duration, 0);
+
+  return {
+    holdTime,
+    holdBreaks: breaks,
+    averageFormScore: holdTime > 0 ? (holdTime / (holdTime + breakTime)) * 100 : 0,
+  };
+}
+
+// Valid reps per side, and the side a same-side set worked
+function getSideSetStats(reps: RepData[], mode: UnilateralMode, setIndex: number): Partial<SetData> {
+  return {
+    side: getSetSide(mode, setIndex) ?? undefined,
+    leftReps: getSideStats(reps, 'left').validReps,
+    rightReps: getSideStats(reps, 'right').validReps,
+  };
+}
+
+// The sets of one exercise of a multi-exercise session, as a session of its own
+function getExerciseSession(session: WorkoutSession, block: WorkoutBlock): WorkoutSession {
+  const sets = session.sets.filter((s) => getSetExercise(session, s) === block.exercise);
+  const holdSets = sets.filter((s) => s.holdTime !== undefined);
+  return {
+    ...session,
+    exercise: block.exercise,
+    exercises: undefined,
+    config: { ...session.config, ...block, blocks: undefined, structure: undefined },
+    sets,
+    totalReps: sets.reduce((sum, s) => sum + s.totalReps, 0),
+    totalValidReps: sets.reduce((sum, s) => sum + s.validReps, 0),
+    totalPartialReps: sets.reduce((sum, s) => sum + (s.partialReps ?? 0), 0),
+    averageFormScore: holdSets.length > 0
+      ? holdSets.reduce((sum, s) => sum + s.averageFormScore, 0) / holdSets.length
+      : 0,
+  };
+}
+
 // Helper function to generate recommendations
 function generateRecommendations(session: WorkoutSession): string[] {
+  // Multi-exercise workouts get the recommendations of each exercise
+  if (session.exercises) {
+    const blocks = getWorkoutBlocks(session.config);
+    return session.exercises.flatMap((exercise) => {
+      const block = blocks.find((b) => b.exercise === exercise) ?? {
+        ...toWorkoutBlock(session.config),
+        exercise,
+      };
+      return generateRecommendations(getExerciseSession(session, block)).map(
+        (recommendation) => `${getExerciseName(exercise)}: ${recommendation}`
+      );
+    });
+  }
+
+  if (isHoldExercise(session.exercise)) {
+    return generateHoldRecommendations(session);
+  }
+
   const recommendations: string[] = [];
   
   const avgFormScore = session.sets.length > 0
@@ -343,40 +786,64 @@ function generateRecommendations(session: WorkoutSession): string[] {
     );
   }
   
-  // Exercise-specific recommendations
-  switch (session.exercise) {
-    case 'pushups':
-      if (avgFormScore < 75) {
-        recommendations.push(
-          'Keep your core engaged throughout the movement to maintain a straight body line.'
-        );
-      }
-      break;
-    case 'squats':
-      if (avgROM < 80) {
-        recommendations.push(
-          'Try to reach parallel or below. Work on hip and ankle mobility.'
-        );
-      }
-      break;
-    case 'deadlift':
+  // Side imbalance recommendations
+  if (isUnilateralExercise(session.exercise)) {
+    const left = session.sets.reduce((sum, s) => sum + (s.leftReps ?? 0), 0);
+    const right = session.sets.reduce((sum, s) => sum + (s.rightReps ?? 0), 0);
+    const weakerSide = getWeakerSide(left, right);
+    if (weakerSide) {
       recommendations.push(
-        'Always prioritize a neutral spine. Consider using lighter weight if form breaks down.'
+        `Your ${SIDE_LABELS[weakerSide].toLowerCase()} side is lagging (${left} left vs ${right} right valid reps). Start sets on that side and match its reps on the other.`
       );
-      break;
-    case 'pullups':
-      if (validRepRatio < 0.8) {
-        recommendations.push(
-          'Ensure full extension at bottom and chin above bar at top for valid reps.'
-        );
-      }
-      break;
+    }
   }
   
-  // General improvement
+  // Exercise-specific recommendations
+  if (isRegisteredExercise(session.exercise)) {
+    const definition = getExerciseDefinition(session.exercise);
+    recommendations.push(
+      ...(definition.recommendations?.({ avgFormScore, avgROM, validRepRatio }) ?? [])
+    );
+  }
+  
+  return recommendations;
+}
+
+function generateHoldRecommendations(session: WorkoutSession): string[] {
+  const recommendations: string[] = [];
+  const targetHoldTime = session.config.targetHoldTime ?? DEFAULT_TARGET_HOLD_TIME;
+  const breaks = session.sets.reduce((sum, s) => sum + (s.holdBreaks?.length ?? 0), 0);
+  const longestHold = Math.max(0, ...session.sets.map((s) => (s.holdTime ?? 0) / 1000));
+  // The session's average isn't filled in until completeWorkout has the recommendations
+  const avgFormScore = session.sets.length > 0
+    ? session.sets.reduce((sum, s) => sum + s.averageFormScore, 0) / session.sets.length
+    : 0;
+
+  if (breaks > session.sets.length) {
+    recommendations.push(
+      'Your position broke several times. Shorten the hold and keep it clean before adding time.'
+    );
+  } else if (breaks === 0 && longestHold >= targetHoldTime) {
+    recommendations.push(
+      'Solid holds with no breaks! You are ready for a longer hold or a harder variation.'
+    );
+  }
+
+  if (isRegisteredExercise(session.exercise)) {
+    const definition = getExerciseDefinition(session.exercise);
+    recommendations.push(
+      ...(definition.recommendations?.({
+        avgFormScore,
+        // Holds have no reps to fall short of full range or be invalid
+        avgROM: 100,
+        validRepRatio: 1,
+      }) ?? [])
+    );
+  }
+
   recommendations.push(
-    `Next workout: Try to complete ${Math.ceil(session.totalValidReps * 1.05)} valid reps with improved form.`
+    `Next workout: Try to hold for ${Math.ceil(Math.max(longestHold, targetHoldTime) * 1.1)} seconds per set.`
   );
-  
+
   return recommendations;
 }
@@ -1,12 +1,7 @@
 // Exercise Types
-export type ExerciseType = 
-  | 'pushups'
-  | 'pullups'
-  | 'situps'
-  | 'squats'
-  | 'deadlift'
-  | 'muscleup'
-  | 'dips';
+// Identifier of an exercise registered in `src/data/exercises`
+// (e.g. 'pushups', 'squats'). New movements only need a registry entry.
+export type ExerciseType = string;
 
 export interface Exercise {
   id: ExerciseType;
@@ -17,34 +12,311 @@ export interface Exercise {
   keyPoints: string[];
 }
 
+// Body joints shared by both sides of the body
+export type BodyJoint = 'shoulder' | 'elbow' | 'wrist' | 'hip' | 'knee' | 'ankle';
+
+// Side of the body worked by a unilateral rep
+export type BodySide = 'left' | 'right';
+
+// Three joints forming an angle; the middle joint is the vertex
+export type JointTriplet = [BodyJoint, BodyJoint, BodyJoint];
+
+// Phase of a rep (the position of the body, not the joint angle)
+export type ExercisePhase = 'up' | 'down' | 'neutral';
+
+// Angle thresholds used for rep counting
+export interface ExerciseThresholds {
+  upAngle: number; // Primary angle at the "up" position
+  downAngle: number; // Primary angle at the "down" position
+  minROM: number; // Minimum range of motion percentage for a valid rep
+  [key: string]: number; // Exercise-specific extras
+}
+
+// Guards against pose noise in rep counting
+export interface RepDebounce {
+  // Degrees the angle may fall back across a threshold without cancelling
+  // a phase change in progress
+  hysteresis: number;
+  dwellMs: number; // Time the angle must spend past a threshold before the phase changes
+  minRepMs: number; // Faster reps are rejected as noise
+  maxRepMs: number; // Slower reps are rejected as unrelated movement
+}
+
+// Rep quality tier: a full rep between both thresholds, a partial rep
+// that turned back short of one of them, or a no-rep
+export type RepQuality = 'full' | 'partial' | 'noRep';
+
+// Why a rep is partial or a no-rep
+export type RepQualityReason =
+  | 'shortOfTop' // Partial - turned back before the up position
+  | 'shortOfBottom' // Partial - turned back before the down position
+  | 'majorFormIssue'
+  | 'lowFormScore'
+  | 'shortROM'; // Range of motion under the exercise's minimum
+
+// Why a rep was not counted
+export type RepRejectionReason = 'bounce' | 'tooFast' | 'tooSlow';
+
+// A threshold crossing or completed rep that rep counting rejected
+export interface RepDiagnostic {
+  reason: RepRejectionReason;
+  timestamp: number;
+  angle: number; // Primary angle when it was rejected
+  duration: number; // ms - time since the crossing for bounces, the rep's duration otherwise
+  phase?: ExercisePhase; // Phase a bounced crossing was heading to
+  stage?: string; // Stage a bounced crossing was heading to (staged reps only)
+  side?: BodySide; // Unilateral exercises only
+}
+
+// Thresholds a calibration replaces for one user
+export type CalibratedThresholds = Pick<ExerciseThresholds, 'upAngle' | 'downAngle' | 'minROM'>;
+
+// Primary angles at the ends of one calibration rep
+export interface CalibrationRep {
+  upAngle: number;
+  downAngle: number;
+}
+
+// Personal thresholds measured from a few slow reps
+export interface ExerciseCalibration {
+  exercise: ExerciseType;
+  thresholds: CalibratedThresholds;
+  reps: CalibrationRep[]; // The reps the thresholds were derived from
+  date: number;
+}
+
+export type ExerciseCalibrations = Partial<Record<ExerciseType, ExerciseCalibration>>;
+
+// Per-user adjustments to detection, kept with the other settings
+export interface UserProfile {
+  calibrations: ExerciseCalibrations;
+}
+
+// Data available to form rules on every frame
+export interface FormCheckContext {
+  keypoints: Keypoint[];
+  previousKeypoints: Keypoint[] | null;
+  cameraView: CameraView;
+  bodyScale: number | null; // Torso length in pixels - distance thresholds are fractions of it
+  side?: BodySide; // Side being counted, unilateral exercises only
+  getKeypoint: (name: KeypointName) => Keypoint | null;
+  getPreviousKeypoint: (name: KeypointName) => Keypoint | null;
+}
+
+// A single form check - returns an issue when the check fails
+export type FormRule = (context: FormCheckContext) => FormIssue | null;
+
+// Data available to rep stages and holds on every frame
+export interface RepStageContext {
+  angle: number; // Current primary angle
+  keypoints: Keypoint[];
+  bodyScale: number | null; // Torso length in pixels, see getBodyScale
+  getKeypoint: (name: KeypointName) => Keypoint | null;
+}
+
+// One stage of a multi-stage rep (e.g. the transition of a muscle-up)
+export interface RepStage {
+  name: string;
+  // True once the stage has been reached
+  isReached: (context: RepStageContext) => boolean;
+  // Reported when an attempt goes back to the start before reaching this stage
+  failureIssue: FormIssue;
+}
+
+// Multi-stage rep: every stage must be reached in order for the rep to count
+export interface StagedRep {
+  stages: RepStage[];
+  // True when the body is back in the start position between attempts
+  isAtStart: (context: RepStageContext) => boolean;
+}
+
+// Isometric hold: the set is timed while a posture is held instead of counting reps
+export interface HoldPosture {
+  // True while the target posture is held
+  isHeld: (context: RepStageContext) => boolean;
+  // Recorded when the posture breaks once the hold has started
+  breakIssue: FormIssue;
+}
+
+// Data available when deciding which side a unilateral exercise is working
+export interface UnilateralContext {
+  keypoints: Keypoint[];
+  getKeypoint: (name: KeypointName) => Keypoint | null;
+  // Primary angle measured on one side of the body
+  getSideAngle: (side: BodySide) => number | null;
+}
+
+// Single-arm or single-leg movement: each side is counted on its own
+export interface UnilateralMovement {
+  // Side doing the work this frame, or null when it can't be told
+  // apart (e.g. standing between reps) and the last side still applies
+  getWorkingSide: (context: UnilateralContext) => BodySide | null;
+}
+
+// Session-level stats handed to exercise-specific recommendations
+export interface RecommendationContext {
+  avgFormScore: number;
+  avgROM: number;
+  validRepRatio: number;
+}
+
+// Overall position of the body in a frame: torso near vertical, tilted,
+// near horizontal, or upright with the hands above the head
+export type BodyPosture = 'upright' | 'bent' | 'horizontal' | 'hanging';
+
+// Feet of a standing body seen from the side: side by side, one in front
+// of the other, or one raised off the floor
+export type Stance = 'level' | 'split' | 'raised';
+
+// What an exercise looks like from the outside, for recognising it
+export interface ExerciseSignature {
+  postures: BodyPosture[]; // Every posture the body passes through
+  stances?: Stance[]; // Stances it is done in, when they tell it apart
+  // Joints that barely move while the primary angle does (e.g. the knees of a deadlift)
+  stillJoints?: BodyJoint[];
+  // Angles other joints stay within, degrees (e.g. the straight knees of an L-sit)
+  jointAngles?: Partial<Record<BodyJoint, [number, number]>>;
+}
+
+// Self-contained exercise definition: metadata plus everything
+// the detection core needs to count and score reps
+export interface ExerciseDefinition extends Exercise {
+  // Joints used for the primary angle (e.g. shoulder-elbow-wrist for push-ups)
+  primaryJoint: JointTriplet;
+  // Phase the body is in between reps; a rep leaves it and comes back
+  startPhase: 'up' | 'down';
+  thresholds: ExerciseThresholds;
+  // Replaces the single up/down threshold cycle with ordered stages
+  stagedRep?: StagedRep;
+  // Makes this a timed hold - no reps are counted
+  hold?: HoldPosture;
+  // Counts each side separately with the primary angle of that side
+  unilateral?: UnilateralMovement;
+  // Overrides of the default rep counting guards
+  debounce?: Partial<RepDebounce>;
+  // Continuous form checks run on every frame
+  formRules?: FormRule[];
+  // Extra form score deduction applied when a rep completes
+  formScorePenalty?: (keypoints: Keypoint[], angles: JointAngles) => number;
+  // Posture check before the first rep (e.g. plank line for push-ups)
+  setupCheck?: {
+    isReady: (keypoints: Keypoint[]) => boolean;
+    message: string;
+  };
+  // Exercise-specific coaching tips for the workout summary
+  recommendations?: (context: RecommendationContext) => string[];
+  // Lets the exercise be recognised from movement alone
+  recognition?: ExerciseSignature;
+}
+
 // Workout Configuration
 export interface WorkoutConfig {
   exercise: ExerciseType;
   sets: number;
   targetReps: number;
   restPeriod: number; // in seconds
+  targetHoldTime?: number; // in seconds, replaces targetReps for hold exercises
+  targetTempo?: string; // e.g. "3-1-1-0" - eccentric, bottom pause, concentric, top pause (seconds)
+  unilateralMode?: UnilateralMode; // Unilateral exercises only
+  // Multi-exercise workouts - when set, these run instead of the single
+  // exercise above, ordered by `structure`
+  blocks?: WorkoutBlock[];
+  structure?: WorkoutStructure;
+  // Timed interval format - single-exercise rep workouts only
+  format?: WorkoutFormat;
+  timeCap?: number; // in seconds, AMRAP only
+  velocityLossLimit?: number; // %, cue to end a set once reps slow this much - unset for no cue
 }
 
+// How sets are timed: fixed sets with rest, EMOM (the target reps at the
+// start of every minute, resting for what is left of it), AMRAP (as many
+// reps as possible within a time cap) or Tabata (20 s on, 10 s off, 8 rounds).
+// EMOM uses `sets` as its number of minutes.
+export type WorkoutFormat = 'sets' | 'emom' | 'amrap' | 'tabata';
+
+// One exercise of a multi-exercise workout with its own sets, target and rest
+export type WorkoutBlock = Pick<
+  WorkoutConfig,
+  'exercise' | 'sets' | 'targetReps' | 'restPeriod' | 'targetHoldTime' | 'targetTempo' | 'unilateralMode'
+>;
+
+// Order of the sets of a multi-exercise workout: straight finishes every
+// set of a block before the next, circuit rotates through all blocks one
+// set at a time, superset alternates between pairs of blocks
+export type WorkoutStructure = 'straight' | 'circuit' | 'superset';
+
+// One set of a workout, in the order the sets are performed
+export interface WorkoutStep {
+  blockIndex: number;
+  setIndex: number; // Set within its block
+  restAfter: number; // seconds - 0 moves straight on to the next exercise
+  workSeconds?: number; // Time cap that ends the set, interval formats only
+}
+
+// Alternating works both sides within a set; same-side works one
+// side per set, switching sides every set (left first)
+export type UnilateralMode = 'alternating' | 'sameSide';
+
+// Rep Tempo - time spent in each part of a rep, in ms
+export interface RepTempo {
+  eccentric: number;
+  bottomPause: number;
+  concentric: number;
+  topPause: number;
+}
+
+export type TempoPhase = keyof RepTempo;
+
 // Rep Data
 export interface RepData {
   repNumber: number;
   timestamp: number;
   duration: number;
-  isValid: boolean;
+  isValid: boolean; // Full reps only
+  quality?: RepQuality; // Missing on reps saved before quality tiers - see getRepQuality
+  qualityReason?: RepQualityReason; // Partial reps and no-reps
+  partialDepth?: number; // %, partial reps - share of the way to the missed position
   formScore: number; // 0-100
   jointAngles: JointAngles;
   rangeOfMotion: number; // percentage of ideal ROM
   issues: string[];
+  tempo?: RepTempo;
+  timeUnderTension?: number; // ms
+  offTempoPhases?: TempoPhase[]; // Only set when training to a target tempo
+  side?: BodySide; // Unilateral exercises only
+}
+
+// Hold Break - a period where the posture of a hold was lost
+export interface HoldBreak {
+  timestamp: number; // When the posture broke
+  duration: number; // ms until it was held again (or the set ended)
+  issue: string;
+}
+
+// Live progress of a hold set
+export interface HoldProgress {
+  holdTime: number; // ms of valid hold time - the clock pauses during breaks
+  isHolding: boolean;
+  breaks: HoldBreak[];
 }
 
 // Set Data
 export interface SetData {
-  setNumber: number;
+  setNumber: number; // Within its block for multi-exercise workouts
+  exercise?: ExerciseType; // Multi-exercise workouts only
   reps: RepData[];
   totalReps: number;
-  validReps: number;
+  validReps: number; // Full reps
+  partialReps?: number;
   averageFormScore: number;
   averageROM: number;
+  timeUnderTension?: number; // ms
+  holdTime?: number; // ms, hold exercises only
+  holdBreaks?: HoldBreak[];
+  // Unilateral exercises only
+  side?: BodySide; // Worked side of a same-side set
+  leftReps?: number; // Valid reps per side
+  rightReps?: number;
   duration: number;
   startTime: number;
   endTime: number;
@@ -54,16 +326,113 @@ export interface SetData {
 export interface WorkoutSession {
   id: string;
   date: number;
-  exercise: ExerciseType;
+  exercise: ExerciseType; // First exercise of a multi-exercise workout
+  exercises?: ExerciseType[]; // Every exercise, multi-exercise workouts only
   config: WorkoutConfig;
   sets: SetData[];
   totalReps: number;
-  totalValidReps: number;
+  totalValidReps: number; // Full reps
+  totalPartialReps?: number;
   averageFormScore: number;
   averageROM: number;
+  totalTimeUnderTension?: number; // ms
+  totalHoldTime?: number; // ms, hold exercises only
+  totalLeftReps?: number; // Valid reps per side, unilateral exercises only
+  totalRightReps?: number;
   totalDuration: number;
   caloriesEstimate: number;
   recommendations: string[];
+  program?: ProgramWorkoutRef; // Set when started from a training program
+  personalRecords?: PersonalRecord[]; // Records this session broke
+  suggestedProgression?: ProgressionSuggestion; // Proposed next session of the exercise
+}
+
+// Progressive Overload - what the recent sessions of an exercise suggest
+// for the next one
+export type ProgressionDecision = 'progress' | 'maintain' | 'deload';
+
+export interface ProgressionSignals {
+  sessions: number; // Recent sessions the signals were read from
+  validRepRatio: number; // 0-1, over those sessions
+  targetHitRatio: number; // 0-1, sets of the latest session that reached the target
+  formTrend: number; // Form score points gained per session (negative when declining)
+  repSlowdown: number; // How much slower the last reps of a set were than the first, 0.2 = 20%
+}
+
+export interface ProgressionSuggestion {
+  exercise: ExerciseType;
+  decision: ProgressionDecision;
+  config: Pick<WorkoutConfig, 'sets' | 'targetReps' | 'restPeriod'>;
+  reasons: string[];
+  signals: ProgressionSignals;
+}
+
+// Personal Records - bests tracked per exercise
+export type PersonalRecordType =
+  | 'setValidReps' // Most valid reps in one set
+  | 'sessionValidReps' // Most valid reps in one workout
+  | 'formScore' // Best average form score over enough reps
+  | 'rangeOfMotion' // Best average range of motion over enough reps
+  | 'holdTime'; // Longest single hold, ms
+
+export interface PersonalRecord {
+  exercise: ExerciseType;
+  type: PersonalRecordType;
+  value: number;
+  previous?: number; // The best it beat
+  sessionId: string;
+  date: number;
+}
+
+// Workout Template - a named config that can be loaded or scheduled
+export interface WorkoutTemplate {
+  id: string;
+  name: string;
+  config: WorkoutConfig;
+  createdAt: number;
+}
+
+// Progression of a program - what changes week to week, and whether it
+// only happens after a week where every rep of the workout was valid
+export type ProgressionRuleType = 'addReps' | 'addSets' | 'addHoldTime';
+export type ProgressionCondition = 'always' | 'allRepsValid';
+
+export interface ProgressionRule {
+  type: ProgressionRuleType;
+  amount: number; // Reps per set, sets, or seconds of hold
+  condition: ProgressionCondition;
+}
+
+// A template the program runs on one day of every week
+export interface ProgramScheduleEntry {
+  dayOfWeek: number; // 0 = Sunday, as Date.getDay()
+  templateId: string;
+}
+
+// Training Program - templates scheduled over a number of weeks
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  startDate: number; // epoch ms, start of the first day
+  weeks: number;
+  schedule: ProgramScheduleEntry[];
+  progression: ProgressionRule[];
+}
+
+// Which program workout a session was
+export interface ProgramWorkoutRef {
+  programId: string;
+  templateId: string;
+  week: number; // 0-based week of the program
+}
+
+// A program workout due on a given day, with progression applied
+export interface PlannedWorkout {
+  program: TrainingProgram;
+  template: WorkoutTemplate;
+  week: number;
+  config: WorkoutConfig;
+  completed: boolean; // Already done that day
 }
 
 // Joint Angles for Analysis
@@ -80,6 +449,56 @@ export interface JointAngles {
   neck?: number;
 }
 
+// Named pose keypoints
+export type KeypointName =
+  | 'nose'
+  | 'leftEye'
+  | 'rightEye'
+  | 'leftEar'
+  | 'rightEar'
+  | 'leftShoulder'
+  | 'rightShoulder'
+  | 'leftElbow'
+  | 'rightElbow'
+  | 'leftWrist'
+  | 'rightWrist'
+  | 'leftHip'
+  | 'rightHip'
+  | 'leftKnee'
+  | 'rightKnee'
+  | 'leftAnkle'
+  | 'rightAnkle'
+  // Foot and hand keypoints (BlazePose only)
+  | 'leftHeel'
+  | 'rightHeel'
+  | 'leftFootIndex'
+  | 'rightFootIndex'
+  | 'leftPinky'
+  | 'rightPinky'
+  | 'leftIndex'
+  | 'rightIndex'
+  | 'leftThumb'
+  | 'rightThumb';
+
+// Keypoint name -> index in a model's keypoint array
+export type KeypointIndices = Partial<Record<KeypointName, number>>;
+
+// Supported pose estimation models
+export type PoseModelType =
+  | 'movenetLightning'
+  | 'movenetThunder'
+  | 'movenetMultipose'
+  | 'blazepose';
+
+// Temporal smoothing applied to keypoints before rep detection
+export type KeypointFilterType = 'off' | 'oneEuro' | 'kalman';
+
+// TensorFlow.js backends in order of preference
+export type PoseBackend = 'webgl' | 'wasm' | 'cpu';
+
+// Camera view types
+export type CameraView = 'side' | 'front' | 'oblique' | 'unknown';
+
 // Pose Keypoint
 export interface Keypoint {
   x: number;
@@ -94,6 +513,29 @@ export interface PoseResult {
   score: number;
 }
 
+// Pose Recording - a captured pose stream that can be replayed through
+// rep detection. Frames are positional to keep files small:
+// [ms since startedAt, pose score, x0, y0, score0, x1, y1, score1, ...]
+export type RecordedPoseFrame = number[];
+
+export type PoseRecordingSource = 'live' | 'video';
+
+export interface PoseRecording {
+  version: number;
+  exercise: ExerciseType;
+  model: PoseModelType; // Keypoint layout the frames were captured with
+  source: PoseRecordingSource;
+  startedAt: number; // Time origin of the frame offsets - epoch ms live, 0 for video
+  side?: BodySide; // Side a same-side unilateral set was pinned to
+  keypointFilter?: KeypointFilterType; // Smoothing the detector applied - absent for unfiltered recordings
+  calibration?: ExerciseCalibration; // Personal thresholds the detector used - absent for the defaults
+  targetTempo?: RepTempo; // Tempo reps were checked against - absent when none was set
+  frames: RecordedPoseFrame[];
+  // Annotations for regression recordings
+  expectedReps?: number;
+  notes?: string;
+}
+
 // App State Types
 export type WorkoutPhase = 
   | 'setup'
@@ -109,8 +551,10 @@ export interface TrendDataPoint {
   date: string;
   totalReps: number;
   validReps: number;
+  partialReps: number;
   formScore: number;
   rom: number;
+  timeUnderTension: number; // seconds
 }
 
 export interface JointAngleHistory {
@@ -1,5 +1,5 @@
-import { Keypoint, JointAngles } from '../types';
-import { poseDetectionService, KEYPOINT_INDICES } from '../services/poseDetection';
+import { Keypoint, KeypointName, JointAngles, BodyJoint, BodySide, CameraView } from '../types';
+import { poseDetectionService } from '../services/poseDetection';
 
 // Calculate angle between three points (in degrees)
 export const calculateAngle = (
@@ -33,9 +33,59 @@ export const getMidpoint = (point1: Keypoint, point2: Keypoint): Keypoint => {
   };
 };
 
+// Get a joint keypoint, preferring the right side and falling back to the left
+export const getJointKeypoint = (keypoints: Keypoint[], joint: BodyJoint): Keypoint | null => {
+  const capitalized = joint.charAt(0).toUpperCase() + joint.slice(1);
+  const right = `right${capitalized}` as KeypointName;
+  const left = `left${capitalized}` as KeypointName;
+  return (
+    poseDetectionService.getKeypoint(keypoints, right) ||
+    poseDetectionService.getKeypoint(keypoints, left)
+  );
+};
+
+// Get a joint keypoint on one side of the body only
+export const getSideJointKeypoint = (
+  keypoints: Keypoint[],
+  joint: BodyJoint,
+  side: BodySide
+): Keypoint | null => {
+  const capitalized = joint.charAt(0).toUpperCase() + joint.slice(1);
+  return poseDetectionService.getKeypoint(keypoints, `${side}${capitalized}` as KeypointName);
+};
+
+// Typical segment lengths as a share of torso length (shoulder to hip),
+// for estimating the torso when it is out of frame
+const SEGMENT_TORSO_RATIOS: [BodyJoint, BodyJoint, number][] = [
+  ['shoulder', 'hip', 1],
+  ['hip', 'knee', 0.85], // Femur
+  ['knee', 'ankle', 0.85], // Shin
+  ['shoulder', 'elbow', 0.65], // Upper arm
+];
+
+/**
+ * Body scale in pixels - the torso length, estimated from the femur, shin
+ * or upper arm when the torso is not visible. Distance thresholds are
+ * expressed as a fraction of it so they hold at any camera resolution,
+ * zoom level or distance from the camera. Segments pointing toward the
+ * camera look shorter than they are, so the longest estimate wins.
+ * Null when no segment is visible.
+ */
+export const getBodyScale = (keypoints: Keypoint[]): number | null => {
+  const estimates = SEGMENT_TORSO_RATIOS.flatMap(([from, to, ratio]) =>
+    (['left', 'right'] as BodySide[]).flatMap((side) => {
+      const start = getSideJointKeypoint(keypoints, from, side);
+      const end = getSideJointKeypoint(keypoints, to, side);
+      return start && end ? [calculateDistance(start, end) / ratio] : [];
+    })
+  );
+  const scale = Math.max(0, ...estimates);
+  return scale > 0 ? scale : null;
+};
+
 // Get all relevant joint angles from keypoints
 export const getJointAngles = (keypoints: Keypoint[]): JointAngles => {
-  const getKP = (name: keyof typeof KEYPOINT_INDICES) =>
+  const getKP = (name: KeypointName) =>
     poseDetectionService.getKeypoint(keypoints, name);
 
   const angles: JointAngles = {};
@@ -114,7 +164,7 @@ export const getJointAngles = (keypoints: Keypoint[]): JointAngles => {
 
 // Check if body is in a straight line (for push-ups, planks)
 export const checkBodyAlignment = (keypoints: Keypoint[]): number => {
-  const getKP = (name: keyof typeof KEYPOINT_INDICES) =>
+  const getKP = (name: KeypointName) =>
     poseDetectionService.getKeypoint(keypoints, name);
 
   const shoulder = getKP('leftShoulder') || getKP('rightShoulder');
@@ -131,11 +181,39 @@ export const checkBodyAlignment = (keypoints: Keypoint[]): number => {
   return alignmentScore;
 };
 
+// How far the hips may drop below the shoulder-ankle line, in torso lengths
+const HIP_SAG_TOLERANCE = 0.08;
+
+/**
+ * Detect if hips are sagging (below the shoulder-ankle line).
+ * Returns true if sagging, false if piking or aligned.
+ */
+export const detectHipSag = (keypoints: Keypoint[]): boolean => {
+  const getKP = (name: KeypointName) =>
+    poseDetectionService.getKeypoint(keypoints, name);
+
+  const shoulder = getKP('leftShoulder') || getKP('rightShoulder');
+  const hip = getKP('leftHip') || getKP('rightHip');
+  const ankle = getKP('leftAnkle') || getKP('rightAnkle');
+
+  const bodyScale = getBodyScale(keypoints);
+  if (!shoulder || !hip || !ankle || !bodyScale) return false;
+
+  // In a proper plank, the hip should be on or slightly above
+  // the line between shoulder and ankle.
+  // Calculate expected hip Y position on the shoulder-ankle line.
+  const t = (hip.x - shoulder.x) / (ankle.x - shoulder.x || 1);
+  const expectedHipY = shoulder.y + t * (ankle.y - shoulder.y);
+
+  // If actual hip Y is greater (lower on screen) than expected, hips are sagging
+  return hip.y > expectedHipY + bodyScale * HIP_SAG_TOLERANCE;
+};
+
 // Calculate vertical displacement
 export const getVerticalDisplacement = (
   keypoints1: Keypoint[],
   keypoints2: Keypoint[],
-  keypointName: keyof typeof KEYPOINT_INDICES
+  keypointName: KeypointName
 ): number => {
   const kp1 = poseDetectionService.getKeypoint(keypoints1, keypointName);
   const kp2 = poseDetectionService.getKeypoint(keypoints2, keypointName);
@@ -146,58 +224,35 @@ export const getVerticalDisplacement = (
 };
 
 // Camera view types
-export type CameraView = 'side' | 'front' | 'oblique' | 'unknown';
+export type { CameraView };
 
 /**
  * Detect camera view based on shoulder width ratio.
- * - Side view: shoulders appear very close together (width ratio < 0.1)
- * - Front view: shoulders at maximum apparent width (width ratio > 0.25)
+ * - Side view: shoulders appear very close together
+ * - Front view: shoulders at maximum apparent width
  * - Oblique: somewhere in between
  *
  * The ratio is computed as the horizontal distance between shoulders
- * divided by the frame width (approximated by using the video/canvas dimensions
- * or normalized coordinates if using 0-1 range).
+ * divided by the body scale (torso length), which stays relatively
+ * constant regardless of camera angle.
  */
 export const detectCameraView = (keypoints: Keypoint[]): CameraView => {
-  const getKP = (name: keyof typeof KEYPOINT_INDICES) =>
+  const getKP = (name: KeypointName) =>
     poseDetectionService.getKeypoint(keypoints, name);
 
   const leftShoulder = getKP('leftShoulder');
   const rightShoulder = getKP('rightShoulder');
+  const bodyScale = getBodyScale(keypoints);
 
-  if (!leftShoulder || !rightShoulder) {
-    return 'unknown';
-  }
-
-  // Compute horizontal distance between shoulders
-  const shoulderWidthX = Math.abs(rightShoulder.x - leftShoulder.x);
-
-  // We also need a reference for scale. Use the vertical torso length
-  // (shoulder to hip) as a normalizer since it's relatively constant
-  // regardless of camera angle.
-  const leftHip = getKP('leftHip');
-  const rightHip = getKP('rightHip');
-  const hip = leftHip || rightHip;
-  const shoulder = leftShoulder; // use one shoulder for torso length
-
-  if (!hip) {
-    // Fallback: just use raw shoulder width thresholds (assuming ~640px frame)
-    if (shoulderWidthX < 40) return 'side';
-    if (shoulderWidthX > 150) return 'front';
-    return 'oblique';
-  }
-
-  const torsoLength = Math.abs(hip.y - shoulder.y);
-  if (torsoLength < 10) {
-    // Torso not visible enough
+  if (!leftShoulder || !rightShoulder || !bodyScale) {
     return 'unknown';
   }
 
-  // Ratio of shoulder width to torso length
+  // Ratio of horizontal shoulder width to torso length
   // Side view: ratio ~0 to 0.3
   // Oblique: ratio ~0.3 to 0.7
   // Front view: ratio ~0.7+
-  const ratio = shoulderWidthX / torsoLength;
+  const ratio = Math.abs(rightShoulder.x - leftShoulder.x) / bodyScale;
 
   if (ratio < 0.3) return 'side';
   if (ratio > 0.7) return 'front';
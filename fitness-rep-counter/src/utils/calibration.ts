@@ -0,0 +1,142 @@
+import { CalibrationRep, ExerciseCalibration, ExerciseType } from '../types';
+import { getExerciseDefinition, isRegisteredExercise } from '../data/exercises';
+
+// Slow reps the wizard records, and the fewest it can derive thresholds from
+export const CALIBRATION_REPS = 3;
+export const MIN_CALIBRATION_REPS = 2;
+
+// Degrees the angle must come back from an extreme before it counts as a turn
+const MIN_SWING = 20;
+// Smallest rep range, in degrees, that counts as a calibration rep
+const MIN_CALIBRATION_RANGE = 30;
+// Thresholds sit this share of the measured range inside the angles the
+// user reached, so every rep at their own depth crosses them
+const CALIBRATION_MARGIN = 0.15;
+// Lowest minimum ROM a calibration can set, %
+const MIN_CALIBRATED_ROM = 50;
+
+interface TurningPoint {
+  angle: number;
+  isMax: boolean;
+}
+
+// Rep exercises with a single up/down cycle - holds have no reps and
+// staged reps count stages rather than angle thresholds
+export const isCalibratable = (exercise: ExerciseType): boolean => {
+  if (!isRegisteredExercise(exercise)) return false;
+  const definition = getExerciseDefinition(exercise);
+  return !definition.hold && !definition.stagedRep;
+};
+
+// Whether the "up" position is the open end of the primary angle
+const isUpOpen = (exercise: ExerciseType): boolean => {
+  const { upAngle, downAngle } = getExerciseDefinition(exercise).thresholds;
+  return upAngle > downAngle;
+};
+
+// Extremes of a trajectory, alternating between maxima and minima. The
+// swing in progress ends at its furthest angle so far.
+const getTurningPoints = (angles: number[]): TurningPoint[] => {
+  const points: TurningPoint[] = [];
+  if (angles.length === 0) return points;
+
+  let rising: boolean | null = null;
+  let extreme = angles[0];
+  let low = angles[0];
+  let high = angles[0];
+
+  for (const angle of angles) {
+    if (rising === null) {
+      low = Math.min(low, angle);
+      high = Math.max(high, angle);
+      if (angle - low >= MIN_SWING) {
+        points.push({ angle: low, isMax: false });
+        rising = true;
+        extreme = angle;
+      } else if (high - angle >= MIN_SWING) {
+        points.push({ angle: high, isMax: true });
+        rising = false;
+        extreme = angle;
+      }
+    } else if (rising ? angle > extreme : angle < extreme) {
+      extreme = angle;
+    } else if (Math.abs(angle - extreme) >= MIN_SWING) {
+      points.push({ angle: extreme, isMax: rising });
+      rising = !rising;
+      extreme = angle;
+    }
+  }
+
+  if (rising !== null) {
+    points.push({ angle: extreme, isMax: rising });
+  }
+  return points;
+};
+
+/**
+ * Splits a primary-angle trajectory into reps - start position, turn and
+ * back to the start. Each rep keeps the angles it reached at the up and
+ * down positions; at the start position that is the shallower of the two
+ * ends, so a rep is only as deep as both of them. Movement smaller than
+ * MIN_CALIBRATION_RANGE is ignored.
+ */
+export const getCalibrationReps = (exercise: ExerciseType, angles: number[]): CalibrationRep[] => {
+  const { startPhase } = getExerciseDefinition(exercise);
+  const upOpen = isUpOpen(exercise);
+  const startIsMax = (startPhase === 'up') === upOpen;
+  const points = getTurningPoints(angles);
+  const reps: CalibrationRep[] = [];
+
+  for (let i = 0; i + 2 < points.length; i++) {
+    if (points[i].isMax !== startIsMax) continue;
+
+    // Whole degrees - finer than pose estimation can measure
+    const start = Math.round(
+      startIsMax
+        ? Math.min(points[i].angle, points[i + 2].angle)
+        : Math.max(points[i].angle, points[i + 2].angle)
+    );
+    const turn = Math.round(points[i + 1].angle);
+    if (Math.abs(start - turn) < MIN_CALIBRATION_RANGE) continue;
+
+    reps.push(startPhase === 'up' ? { upAngle: start, downAngle: turn } : { upAngle: turn, downAngle: start });
+    i++; // The rep's return is the next rep's start
+  }
+
+  return reps;
+};
+
+/**
+ * Personal thresholds from calibration reps. Up and down thresholds sit
+ * CALIBRATION_MARGIN of the range inside the shallowest angles reached,
+ * and the minimum ROM is the exercise's own, eased by how much shallower
+ * the shallowest rep was than the average. Null with too few reps.
+ */
+export const deriveCalibration = (
+  exercise: ExerciseType,
+  reps: CalibrationRep[],
+  date: number = Date.now()
+): ExerciseCalibration | null => {
+  if (reps.length < MIN_CALIBRATION_REPS) return null;
+
+  const { minROM } = getExerciseDefinition(exercise).thresholds;
+  const upOpen = isUpOpen(exercise);
+  const shallowest = (values: number[], isMax: boolean) => (isMax ? Math.min(...values) : Math.max(...values));
+  const upReach = shallowest(reps.map((rep) => rep.upAngle), upOpen);
+  const downReach = shallowest(reps.map((rep) => rep.downAngle), !upOpen);
+
+  const ranges = reps.map((rep) => Math.abs(rep.upAngle - rep.downAngle));
+  const averageRange = ranges.reduce((sum, range) => sum + range, 0) / ranges.length;
+  const consistency = Math.min(...ranges) / averageRange;
+
+  return {
+    exercise,
+    thresholds: {
+      upAngle: Math.round(upReach + (downReach - upReach) * CALIBRATION_MARGIN),
+      downAngle: Math.round(downReach + (upReach - downReach) * CALIBRATION_MARGIN),
+      minROM: Math.max(MIN_CALIBRATED_ROM, Math.round(minROM * consistency)),
+    },
+    reps,
+    date,
+  };
+};
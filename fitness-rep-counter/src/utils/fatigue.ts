@@ -0,0 +1,88 @@
+import { RepData } from '../types';
+import { getRepQuality } from './repQuality';
+
+// Reps at the start of a set the loss is measured against - the fastest
+// of them is the set's peak velocity
+export const FATIGUE_BASELINE_REPS = 3;
+// Recent reps averaged for the current velocity, to smooth out one slow rep
+const FATIGUE_WINDOW_REPS = 2;
+
+// Velocity loss cue choices, %
+export const VELOCITY_LOSS_LIMITS = [10, 20, 30, 40];
+
+// One rep of a set's fatigue curve
+export interface FatiguePoint {
+  repNumber: number; // Among the set's measured reps
+  velocityLoss: number; // %, against the set's peak velocity
+  formScore: number;
+  rangeOfMotion: number;
+}
+
+export interface SetFatigue {
+  curve: FatiguePoint[];
+  velocityLoss: number; // % at the end of the set
+  formDecay: number; // Form score points lost from the start of the set to its end
+  romDecay: number; // Range of motion points lost
+}
+
+const average = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+// Reps a set's fatigue is measured on: full reps only, since a partial
+// or no-rep is quick without being fast, and for unilateral sets only
+// those of the latest full rep's side, so one limb is compared with itself
+const getMeasuredReps = (reps: RepData[]): RepData[] => {
+  const fullReps = reps.filter((rep) => getRepQuality(rep) === 'full');
+  const side = fullReps[fullReps.length - 1]?.side;
+  return side ? fullReps.filter((rep) => rep.side === side) : fullReps;
+};
+
+// Time the rep took to move - its concentric phase when the tempo was
+// measured, so pauses at either end don't read as slowing down
+const getMovingTime = (rep: RepData): number => {
+  return rep.tempo && rep.tempo.concentric > 0 ? rep.tempo.concentric : rep.duration;
+};
+
+// Rep speed is distance over time and the distance of a rep barely
+// changes, so velocity falls as 1 / time
+const velocityLossOf = (peakTime: number, time: number): number => {
+  return time > 0 ? Math.max(0, (1 - peakTime / time) * 100) : 0;
+};
+
+const getPeakTime = (reps: RepData[]): number => {
+  return Math.min(...reps.slice(0, FATIGUE_BASELINE_REPS).map(getMovingTime));
+};
+
+// Velocity loss of the latest reps of a set, or null until the set has
+// enough measured reps to have a baseline and something after it
+export const getVelocityLoss = (setReps: RepData[]): number | null => {
+  const reps = getMeasuredReps(setReps);
+  if (reps.length <= FATIGUE_BASELINE_REPS) return null;
+  const current = average(reps.slice(-FATIGUE_WINDOW_REPS).map(getMovingTime));
+  return velocityLossOf(getPeakTime(reps), current);
+};
+
+// Rep-by-rep velocity loss and form of a set's measured reps, with how
+// much each decayed from its first reps to its last. Null for sets too
+// short to compare.
+export const getSetFatigue = (setReps: RepData[]): SetFatigue | null => {
+  const reps = getMeasuredReps(setReps);
+  if (reps.length <= FATIGUE_BASELINE_REPS) return null;
+
+  const peak = getPeakTime(reps);
+  const start = reps.slice(0, FATIGUE_BASELINE_REPS);
+  const end = reps.slice(-FATIGUE_WINDOW_REPS);
+
+  return {
+    curve: reps.map((rep, index) => ({
+      repNumber: index + 1,
+      velocityLoss: velocityLossOf(peak, getMovingTime(rep)),
+      formScore: rep.formScore,
+      rangeOfMotion: rep.rangeOfMotion,
+    })),
+    velocityLoss: velocityLossOf(peak, average(end.map(getMovingTime))),
+    formDecay: average(start.map((rep) => rep.formScore)) - average(end.map((rep) => rep.formScore)),
+    romDecay: average(start.map((rep) => rep.rangeOfMotion)) - average(end.map((rep) => rep.rangeOfMotion)),
+  };
+};
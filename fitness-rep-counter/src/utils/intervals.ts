@@ -0,0 +1,110 @@
+import { WorkoutBlock, WorkoutConfig, WorkoutFormat, WorkoutSession } from '../types';
+import { isHoldExercise } from '../data/exercises';
+
+export const EMOM_INTERVAL_SECONDS = 60;
+export const TABATA_WORK_SECONDS = 20;
+export const TABATA_REST_SECONDS = 10;
+export const TABATA_ROUNDS = 8;
+export const DEFAULT_AMRAP_TIME_CAP = 600;
+
+export const WORKOUT_FORMAT_LABELS: Record<WorkoutFormat, string> = {
+  sets: 'Sets',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+  tabata: 'Tabata',
+};
+
+// What a set of each format is called
+export const FORMAT_SET_LABELS: Record<WorkoutFormat, string> = {
+  sets: 'Set',
+  emom: 'Minute',
+  amrap: 'Round',
+  tabata: 'Round',
+};
+
+export type IntervalFormat = Exclude<WorkoutFormat, 'sets'>;
+
+// Format a workout runs in - multi-exercise workouts and holds (which are
+// timed already) always run as sets
+export const getWorkoutFormat = (config: WorkoutConfig): WorkoutFormat => {
+  if (config.blocks?.length || isHoldExercise(config.exercise)) return 'sets';
+  return config.format ?? 'sets';
+};
+
+export const isIntervalFormat = (format: WorkoutFormat): format is IntervalFormat => {
+  return format !== 'sets';
+};
+
+// Only EMOM sets end when the target is reached - the others run the clock out
+export const endsAtTarget = (format: WorkoutFormat): boolean => {
+  return format === 'sets' || format === 'emom';
+};
+
+// The block an interval workout runs, with the sets and rest its format fixes.
+// EMOM rests for whatever is left of the minute, so its rest is only an upper bound.
+export const getIntervalBlock = (config: WorkoutConfig, format: IntervalFormat): WorkoutBlock => {
+  const block: WorkoutBlock = {
+    exercise: config.exercise,
+    sets: config.sets,
+    targetReps: config.targetReps,
+    restPeriod: EMOM_INTERVAL_SECONDS,
+    targetTempo: config.targetTempo,
+    unilateralMode: config.unilateralMode,
+  };
+
+  switch (format) {
+    case 'emom':
+      return block;
+    case 'amrap':
+      return { ...block, sets: 1, restPeriod: 0 };
+    case 'tabata':
+      return { ...block, sets: TABATA_ROUNDS, restPeriod: TABATA_REST_SECONDS };
+  }
+};
+
+// Seconds of work per set
+export const getWorkSeconds = (config: WorkoutConfig, format: IntervalFormat): number => {
+  switch (format) {
+    case 'emom':
+      return EMOM_INTERVAL_SECONDS;
+    case 'amrap':
+      return config.timeCap ?? DEFAULT_AMRAP_TIME_CAP;
+    case 'tabata':
+      return TABATA_WORK_SECONDS;
+  }
+};
+
+export interface IntervalStats {
+  format: IntervalFormat;
+  rounds: number;
+  completedRounds: number; // EMOM minutes where the target was reached
+  totalValidReps: number;
+  repsPerMinute: number; // Valid reps per minute of work
+  bestRoundReps: number;
+  lowestRoundReps: number; // The Tabata score
+}
+
+// Format-specific summary of an interval session, or null for sets
+export const getIntervalStats = (session: WorkoutSession): IntervalStats | null => {
+  const format = getWorkoutFormat(session.config);
+  if (!isIntervalFormat(format) || session.sets.length === 0) return null;
+
+  const roundReps = session.sets.map((set) => set.validReps);
+  const workMinutes = (session.sets.length * getWorkSeconds(session.config, format)) / 60;
+
+  return {
+    format,
+    rounds: session.sets.length,
+    completedRounds: roundReps.filter((reps) => reps >= session.config.targetReps).length,
+    totalValidReps: session.totalValidReps,
+    repsPerMinute: workMinutes > 0 ? session.totalValidReps / workMinutes : 0,
+    bestRoundReps: Math.max(...roundReps),
+    lowestRoundReps: Math.min(...roundReps),
+  };
+};
+
+// Clock display, e.g. "1:05"
+export const formatClock = (seconds: number): string => {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,105 @@
+import { ExerciseType, PersonalRecord, PersonalRecordType, WorkoutSession } from '../types';
+import { getSessionExercises, getSetExercise } from './workoutPlan';
+
+// Reps a workout needs before its average form score or range of motion
+// counts towards a record, so a single clean rep cannot set one
+export const PR_MIN_REPS = 10;
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  setValidReps: 'Most valid reps in a set',
+  sessionValidReps: 'Most valid reps in a workout',
+  formScore: 'Best form score',
+  rangeOfMotion: 'Best range of motion',
+  holdTime: 'Longest hold',
+};
+
+export type RecordValues = Partial<Record<PersonalRecordType, number>>;
+export type PersonalBests = Map<ExerciseType, Partial<Record<PersonalRecordType, PersonalRecord>>>;
+
+export const formatRecordValue = (type: PersonalRecordType, value: number): string => {
+  switch (type) {
+    case 'setValidReps':
+    case 'sessionValidReps':
+      return `${value} reps`;
+    case 'formScore':
+    case 'rangeOfMotion':
+      return `${Math.round(value)}%`;
+    case 'holdTime':
+      return `${(value / 1000).toFixed(1)}s`;
+  }
+};
+
+// Record values of each exercise of a session. Values of zero are left
+// out - an empty set is nobody's record.
+export const getSessionRecordValues = (session: WorkoutSession): Map<ExerciseType, RecordValues> => {
+  return new Map(
+    getSessionExercises(session).map((exercise) => {
+      const sets = session.sets.filter((set) => getSetExercise(session, set) === exercise);
+      const reps = sets.flatMap((set) => set.reps);
+      const values: RecordValues = {};
+
+      const longestHold = Math.max(0, ...sets.map((set) => set.holdTime ?? 0));
+      if (longestHold > 0) values.holdTime = longestHold;
+
+      const bestSet = Math.max(0, ...sets.map((set) => set.validReps));
+      if (bestSet > 0) {
+        values.setValidReps = bestSet;
+        values.sessionValidReps = sets.reduce((sum, set) => sum + set.validReps, 0);
+      }
+
+      if (reps.length >= PR_MIN_REPS) {
+        values.formScore = reps.reduce((sum, rep) => sum + rep.formScore, 0) / reps.length;
+        values.rangeOfMotion = reps.reduce((sum, rep) => sum + rep.rangeOfMotion, 0) / reps.length;
+      }
+
+      return [exercise, values];
+    })
+  );
+};
+
+// Best of each record type per exercise. Ties keep the earlier record.
+export const getPersonalBests = (sessions: WorkoutSession[]): PersonalBests => {
+  const bests: PersonalBests = new Map();
+
+  [...sessions]
+    .sort((a, b) => a.date - b.date)
+    .forEach((session) => {
+      getSessionRecordValues(session).forEach((values, exercise) => {
+        const exerciseBests = bests.get(exercise) ?? {};
+        (Object.keys(values) as PersonalRecordType[]).forEach((type) => {
+          const value = values[type] as number;
+          if (value > (exerciseBests[type]?.value ?? 0)) {
+            exerciseBests[type] = { exercise, type, value, sessionId: session.id, date: session.date };
+          }
+        });
+        bests.set(exercise, exerciseBests);
+      });
+    });
+
+  return bests;
+};
+
+// Records a session broke against the rest of the history. The first
+// workout of an exercise only sets its baseline - there is nothing to beat.
+export const detectPersonalRecords = (
+  session: WorkoutSession,
+  history: WorkoutSession[]
+): PersonalRecord[] => {
+  const bests = getPersonalBests(history.filter((s) => s.id !== session.id && s.date <= session.date));
+  const records: PersonalRecord[] = [];
+
+  getSessionRecordValues(session).forEach((values, exercise) => {
+    const exerciseBests = bests.get(exercise);
+    if (!exerciseBests) return;
+
+    (Object.keys(values) as PersonalRecordType[]).forEach((type) => {
+      const value = values[type] as number;
+      const previous = exerciseBests[type]?.value;
+      if (previous !== undefined && value > previous) {
+        records.push({ exercise, type, value, previous, sessionId: session.id, date: session.date });
+      }
+    });
+  });
+
+  return records;
+};
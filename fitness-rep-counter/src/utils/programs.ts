@@ -0,0 +1,168 @@
+import { differenceInCalendarDays, isSameDay } from 'date-fns';
+import {
+  PlannedWorkout,
+  ProgressionCondition,
+  ProgressionRule,
+  ProgressionRuleType,
+  TrainingProgram,
+  WorkoutBlock,
+  WorkoutConfig,
+  WorkoutSession,
+  WorkoutTemplate,
+} from '../types';
+import { getExerciseName, isHoldExercise, isUnilateralExercise } from '../data/exercises';
+import { getWorkoutFormat, isIntervalFormat, WORKOUT_FORMAT_LABELS } from './intervals';
+import { DEFAULT_WORKOUT_STRUCTURE, WORKOUT_STRUCTURE_LABELS } from './workoutPlan';
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRuleType, string> = {
+  addReps: 'Reps per set',
+  addSets: 'Sets',
+  addHoldTime: 'Hold seconds',
+};
+
+export const PROGRESSION_CONDITION_LABELS: Record<ProgressionCondition, string> = {
+  always: 'Every week',
+  allRepsValid: 'After a clean week',
+};
+
+// Indexed by Date.getDay()
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_PROGRAM_WEEKS = 4;
+
+// 0-based week of the program a date falls in, or null outside the program
+export const getProgramWeek = (program: TrainingProgram, date: number): number | null => {
+  const days = differenceInCalendarDays(date, program.startDate);
+  if (days < 0 || days >= program.weeks * 7) return null;
+  return Math.floor(days / 7);
+};
+
+// Every rep valid, or for holds, held without a break
+const isCleanSession = (session: WorkoutSession): boolean => {
+  if (session.totalHoldTime !== undefined) {
+    return session.sets.every((set) => (set.holdBreaks?.length ?? 0) === 0);
+  }
+  return session.totalReps > 0 && session.totalValidReps === session.totalReps;
+};
+
+// Sessions of one template of a program, done in the given week
+const getWeekSessions = (
+  program: TrainingProgram,
+  templateId: string,
+  week: number,
+  sessions: WorkoutSession[]
+): WorkoutSession[] => {
+  return sessions.filter(
+    (session) =>
+      session.program?.programId === program.id &&
+      session.program.templateId === templateId &&
+      session.program.week === week
+  );
+};
+
+// Number of earlier weeks that earned a progression step. Conditional
+// rules need the template done and clean that week - a missed or
+// broken week repeats the same target.
+const getProgressionSteps = (
+  program: TrainingProgram,
+  templateId: string,
+  rule: ProgressionRule,
+  week: number,
+  sessions: WorkoutSession[]
+): number => {
+  if (rule.condition === 'always') return week;
+
+  let steps = 0;
+  for (let w = 0; w < week; w++) {
+    const weekSessions = getWeekSessions(program, templateId, w, sessions);
+    if (weekSessions.length > 0 && weekSessions.every(isCleanSession)) steps++;
+  }
+  return steps;
+};
+
+const progressBlock = <T extends WorkoutBlock>(block: T, rule: ProgressionRule, steps: number): T => {
+  const amount = rule.amount * steps;
+  switch (rule.type) {
+    case 'addReps':
+      return isHoldExercise(block.exercise) ? block : { ...block, targetReps: block.targetReps + amount };
+    case 'addSets':
+      return { ...block, sets: block.sets + amount };
+    case 'addHoldTime':
+      return isHoldExercise(block.exercise) && block.targetHoldTime !== undefined
+        ? { ...block, targetHoldTime: block.targetHoldTime + amount }
+        : block;
+  }
+};
+
+// Config with a rule applied the given number of times, to every block
+// of a multi-exercise workout
+export const applyProgression = (config: WorkoutConfig, rule: ProgressionRule, steps: number): WorkoutConfig => {
+  if (steps <= 0) return config;
+  return {
+    ...progressBlock(config, rule, steps),
+    blocks: config.blocks?.map((block) => progressBlock(block, rule, steps)),
+  };
+};
+
+// A template's config for a week of the program, after progression
+export const getProgramConfig = (
+  program: TrainingProgram,
+  template: WorkoutTemplate,
+  week: number,
+  sessions: WorkoutSession[]
+): WorkoutConfig => {
+  return program.progression.reduce(
+    (config, rule) =>
+      applyProgression(config, rule, getProgressionSteps(program, template.id, rule, week, sessions)),
+    template.config
+  );
+};
+
+// Program workouts scheduled on the day of a date. Schedule entries
+// whose template has been deleted are skipped.
+export const getPlannedWorkouts = (
+  programs: TrainingProgram[],
+  templates: WorkoutTemplate[],
+  sessions: WorkoutSession[],
+  date: number
+): PlannedWorkout[] => {
+  const dayOfWeek = new Date(date).getDay();
+
+  return programs.flatMap((program) => {
+    const week = getProgramWeek(program, date);
+    if (week === null) return [];
+
+    return program.schedule.flatMap((entry) => {
+      const template = templates.find((t) => t.id === entry.templateId);
+      if (entry.dayOfWeek !== dayOfWeek || !template) return [];
+
+      return [{
+        program,
+        template,
+        week,
+        config: getProgramConfig(program, template, week, sessions),
+        completed: getWeekSessions(program, template.id, week, sessions).some((session) =>
+          isSameDay(session.date, date)
+        ),
+      }];
+    });
+  });
+};
+
+// One-line description of a workout, e.g. "Push-ups • 3 × 10"
+export const describeWorkout = (config: WorkoutConfig): string => {
+  if (config.blocks && config.blocks.length > 0) {
+    const names = Array.from(new Set(config.blocks.map((block) => getExerciseName(block.exercise))));
+    const structure = WORKOUT_STRUCTURE_LABELS[config.structure ?? DEFAULT_WORKOUT_STRUCTURE];
+    return `${names.join(', ')} • ${structure}`;
+  }
+
+  const name = getExerciseName(config.exercise);
+  const format = getWorkoutFormat(config);
+  if (isIntervalFormat(format)) return `${name} • ${WORKOUT_FORMAT_LABELS[format]}`;
+
+  const target = isHoldExercise(config.exercise)
+    ? `${config.targetHoldTime ?? 0}s`
+    : `${config.targetReps}${isUnilateralExercise(config.exercise) ? '/side' : ''}`;
+  return `${name} • ${config.sets} × ${target}`;
+};
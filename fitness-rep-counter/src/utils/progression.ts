@@ -0,0 +1,208 @@
+import {
+  ProgressionDecision,
+  ProgressionSignals,
+  ProgressionSuggestion,
+  RepData,
+  WorkoutSession,
+} from '../types';
+import { isHoldExercise, isUnilateralExercise } from '../data/exercises';
+import { getWorkoutFormat } from './intervals';
+
+// Sessions of an exercise the engine looks back over, latest included
+export const PROGRESSION_LOOKBACK = 5;
+
+export const PROGRESSION_DECISION_LABELS: Record<ProgressionDecision, string> = {
+  progress: 'Progress',
+  maintain: 'Consolidate',
+  deload: 'Back Off',
+};
+
+// Signal thresholds
+const PROGRESS_VALID_RATIO = 0.9;
+const DELOAD_VALID_RATIO = 0.6;
+const DELOAD_TARGET_HIT_RATIO = 0.5;
+const DECLINING_FORM_TREND = -3; // points per session
+const FATIGUE_SLOWDOWN = 0.25;
+const PROGRESS_MAX_SLOWDOWN = 0.15;
+
+// Limits of the proposed config
+const MAX_TARGET_REPS = 20; // Past this, add a set instead of reps
+const MAX_SETS = 6;
+const REST_STEP = 15; // seconds
+const MAX_REST = 300;
+
+const average = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+// Least-squares slope of values over their index
+const slope = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const meanX = (values.length - 1) / 2;
+  const meanY = average(values);
+  const numerator = values.reduce((sum, y, x) => sum + (x - meanX) * (y - meanY), 0);
+  const denominator = values.reduce((sum, _, x) => sum + (x - meanX) ** 2, 0);
+  return numerator / denominator;
+};
+
+// Relative slowdown of the last third of a set's reps against its first
+// third, or null for sets too short to tell
+const getSetSlowdown = (reps: RepData[]): number | null => {
+  if (reps.length < 3) return null;
+  const third = Math.floor(reps.length / 3);
+  const first = average(reps.slice(0, third).map((rep) => rep.duration));
+  const last = average(reps.slice(-third).map((rep) => rep.duration));
+  return first > 0 ? last / first - 1 : null;
+};
+
+// Reps a set needs to reach its target - alternating unilateral sets work both sides
+const getSetTarget = (session: WorkoutSession): number => {
+  const { exercise, targetReps, unilateralMode } = session.config;
+  return isUnilateralExercise(exercise) && unilateralMode !== 'sameSide' ? targetReps * 2 : targetReps;
+};
+
+// Straight sets of one rep exercise - the only sessions whose sets,
+// reps and rest the engine can tune. Program workouts follow their
+// program's own progression.
+export const isProgressable = (session: WorkoutSession): boolean => {
+  return (
+    !session.exercises &&
+    !session.program &&
+    !isHoldExercise(session.exercise) &&
+    getWorkoutFormat(session.config) === 'sets' &&
+    session.totalReps > 0
+  );
+};
+
+export const getProgressionSignals = (recent: WorkoutSession[]): ProgressionSignals => {
+  const latest = recent[0];
+  const target = getSetTarget(latest);
+  const totalReps = recent.reduce((sum, session) => sum + session.totalReps, 0);
+  const slowdowns = latest.sets.flatMap((set) => getSetSlowdown(set.reps) ?? []);
+  // Sets skipped by stopping early count as missed
+  const plannedSets = Math.max(latest.config.sets, latest.sets.length);
+
+  return {
+    sessions: recent.length,
+    validRepRatio: totalReps > 0 ? recent.reduce((sum, s) => sum + s.totalValidReps, 0) / totalReps : 0,
+    targetHitRatio: plannedSets > 0
+      ? latest.sets.filter((set) => set.validReps >= target).length / plannedSets
+      : 0,
+    // Oldest to newest, so a positive trend is improving form
+    formTrend: recent.length >= 3 ? slope(recent.map((s) => s.averageFormScore).reverse()) : 0,
+    repSlowdown: Math.max(0, average(slowdowns)),
+  };
+};
+
+/**
+ * Next-session sets, reps and rest for the exercise of a finished session,
+ * read from it and the sessions of the same exercise before it. Progress
+ * adds reps (or a set once the reps are high), a deload cuts reps and adds
+ * rest, and otherwise the targets hold - with more rest when reps slowed
+ * down through the sets. Null for sessions it cannot tune.
+ */
+export const suggestProgression = (
+  session: WorkoutSession,
+  history: WorkoutSession[]
+): ProgressionSuggestion | null => {
+  if (!isProgressable(session)) return null;
+
+  const recent = [
+    session,
+    ...history
+      .filter((s) => s.id !== session.id && s.exercise === session.exercise && s.date <= session.date)
+      .filter(isProgressable)
+      .sort((a, b) => b.date - a.date),
+  ].slice(0, PROGRESSION_LOOKBACK);
+
+  const signals = getProgressionSignals(recent);
+  const { sets, targetReps, restPeriod } = session.config;
+  const reasons: string[] = [];
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const isFatigued = signals.repSlowdown >= FATIGUE_SLOWDOWN;
+  const fatigueReason = `Reps slowed ${percent(signals.repSlowdown)} by the end of your sets.`;
+
+  if (
+    signals.validRepRatio < DELOAD_VALID_RATIO ||
+    signals.targetHitRatio < DELOAD_TARGET_HIT_RATIO ||
+    signals.formTrend <= DECLINING_FORM_TREND
+  ) {
+    if (signals.validRepRatio < DELOAD_VALID_RATIO) {
+      reasons.push(`Only ${percent(signals.validRepRatio)} of reps were valid over your last ${signals.sessions} sessions.`);
+    }
+    if (signals.targetHitRatio < DELOAD_TARGET_HIT_RATIO) {
+      reasons.push(`You reached the target in ${percent(signals.targetHitRatio)} of sets.`);
+    }
+    if (signals.formTrend <= DECLINING_FORM_TREND) {
+      reasons.push(`Form score has been dropping about ${Math.round(-signals.formTrend)} points per session.`);
+    }
+    if (isFatigued) reasons.push(fatigueReason);
+
+    return {
+      exercise: session.exercise,
+      decision: 'deload',
+      config: {
+        sets,
+        targetReps: Math.max(1, Math.round(targetReps * 0.85)),
+        restPeriod: Math.min(MAX_REST, restPeriod + REST_STEP),
+      },
+      reasons,
+      signals,
+    };
+  }
+
+  if (
+    signals.validRepRatio >= PROGRESS_VALID_RATIO &&
+    signals.targetHitRatio === 1 &&
+    signals.repSlowdown < PROGRESS_MAX_SLOWDOWN
+  ) {
+    reasons.push(
+      `${percent(signals.validRepRatio)} of reps were valid and every set reached the target.`,
+      signals.formTrend > 0
+        ? 'Your form is still improving.'
+        : 'Rep speed held steady to the end of each set.'
+    );
+
+    const repStep = Math.max(1, Math.round(targetReps * 0.1));
+    const addSet = targetReps + repStep > MAX_TARGET_REPS && sets < MAX_SETS;
+    return {
+      exercise: session.exercise,
+      decision: 'progress',
+      config: {
+        sets: addSet ? sets + 1 : sets,
+        targetReps: addSet ? targetReps : targetReps + repStep,
+        restPeriod,
+      },
+      reasons,
+      signals,
+    };
+  }
+
+  if (signals.validRepRatio < PROGRESS_VALID_RATIO) {
+    reasons.push(`${percent(signals.validRepRatio)} of reps were valid - aim for ${percent(PROGRESS_VALID_RATIO)} before adding more.`);
+  }
+  if (signals.targetHitRatio < 1) {
+    reasons.push(`You reached the target in ${percent(signals.targetHitRatio)} of sets.`);
+  }
+  if (isFatigued) reasons.push(`${fatigueReason} Take a little more rest.`);
+  else if (signals.repSlowdown >= PROGRESS_MAX_SLOWDOWN) reasons.push(fatigueReason);
+
+  return {
+    exercise: session.exercise,
+    decision: 'maintain',
+    config: {
+      sets,
+      targetReps,
+      restPeriod: isFatigued ? Math.min(MAX_REST, restPeriod + REST_STEP) : restPeriod,
+    },
+    reasons,
+    signals,
+  };
+};
+
+// e.g. "3 × 11 reps, 60s rest"
+export const describeProgressionConfig = (suggestion: ProgressionSuggestion): string => {
+  const { sets, targetReps, restPeriod } = suggestion.config;
+  const perSide = isUnilateralExercise(suggestion.exercise) ? '/side' : '';
+  return `${sets} × ${targetReps} reps${perSide}, ${restPeriod}s rest`;
+};
@@ -0,0 +1,10 @@
+import { RepData, RepQuality } from '../types';
+
+// Reps saved before quality tiers were only valid or not
+export const getRepQuality = (rep: RepData): RepQuality => {
+  return rep.quality ?? (rep.isValid ? 'full' : 'noRep');
+};
+
+export const countPartialReps = (reps: RepData[]): number => {
+  return reps.filter((rep) => getRepQuality(rep) === 'partial').length;
+};
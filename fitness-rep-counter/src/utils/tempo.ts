@@ -0,0 +1,129 @@
+import { ExercisePhase, RepTempo, TempoPhase } from '../types';
+
+// Primary-joint angle at a point in time (ms)
+export interface AngleSample {
+  angle: number;
+  time: number;
+}
+
+interface TempoOptions {
+  startPhase: Exclude<ExercisePhase, 'neutral'>;
+  closesTowardTurn: boolean; // Whether the angle decreases on the way out of the start position
+  pauseTolerance: number; // Degrees from an end position still counted as pausing there
+  includeStartPause: boolean; // False when there is no previous rep to measure the pause from
+}
+
+// A phase is on tempo within this many ms or this fraction of the target, whichever is larger
+const TEMPO_TOLERANCE_MS = 500;
+const TEMPO_TOLERANCE_RATIO = 0.25;
+
+export const TEMPO_PHASES: TempoPhase[] = ['eccentric', 'bottomPause', 'concentric', 'topPause'];
+
+export const TEMPO_PHASE_LABELS: Record<TempoPhase, string> = {
+  eccentric: 'Eccentric',
+  bottomPause: 'Bottom pause',
+  concentric: 'Concentric',
+  topPause: 'Top pause',
+};
+
+// Span of samples around `index` that stay within `tolerance` of its angle
+const findPauseAround = (
+  samples: AngleSample[],
+  index: number,
+  extreme: number,
+  tolerance: number
+): [number, number] => {
+  let first = index;
+  let last = index;
+  while (first > 0 && Math.abs(samples[first - 1].angle - extreme) <= tolerance) first--;
+  while (last < samples.length - 1 && Math.abs(samples[last + 1].angle - extreme) <= tolerance) last++;
+  return [first, last];
+};
+
+/**
+ * Split one rep's primary-angle trajectory into tempo phases. The rep runs
+ * from a pause in the start position, out to the turn (with a pause there)
+ * and back. Starting at the top, the way out is the eccentric; starting at
+ * the bottom (pull-ups, sit-ups) it is the concentric.
+ */
+export const calculateRepTempo = (
+  samples: AngleSample[],
+  { startPhase, closesTowardTurn, pauseTolerance, includeStartPause }: TempoOptions
+): RepTempo => {
+  if (samples.length < 2) {
+    return { eccentric: 0, bottomPause: 0, concentric: 0, topPause: 0 };
+  }
+
+  const isFurtherOut = (a: number, b: number) => (closesTowardTurn ? a < b : a > b);
+
+  // Turn position - furthest point from the start
+  let turnIndex = 0;
+  samples.forEach((sample, i) => {
+    if (isFurtherOut(sample.angle, samples[turnIndex].angle)) turnIndex = i;
+  });
+  const [turnPauseStart, turnPauseEnd] = findPauseAround(
+    samples,
+    turnIndex,
+    samples[turnIndex].angle,
+    pauseTolerance
+  );
+
+  // Start position - furthest point back before the turn
+  let startIndex = 0;
+  for (let i = 0; i <= turnPauseStart; i++) {
+    if (isFurtherOut(samples[startIndex].angle, samples[i].angle)) startIndex = i;
+  }
+  const [startPauseStart, startPauseEnd] = findPauseAround(
+    samples.slice(0, turnPauseStart + 1),
+    startIndex,
+    samples[startIndex].angle,
+    pauseTolerance
+  );
+
+  const time = (i: number) => samples[i].time;
+  const startPause = includeStartPause ? time(startPauseEnd) - time(startPauseStart) : 0;
+  const outbound = time(turnPauseStart) - time(startPauseEnd);
+  const turnPause = time(turnPauseEnd) - time(turnPauseStart);
+  const inbound = time(samples.length - 1) - time(turnPauseEnd);
+
+  return startPhase === 'up'
+    ? { topPause: startPause, eccentric: outbound, bottomPause: turnPause, concentric: inbound }
+    : { bottomPause: startPause, concentric: outbound, topPause: turnPause, eccentric: inbound };
+};
+
+// Time the muscles are loaded - everything except resting in the start position
+export const getTimeUnderTension = (tempo: RepTempo, startPhase: Exclude<ExercisePhase, 'neutral'>): number => {
+  const startPause = startPhase === 'up' ? tempo.topPause : tempo.bottomPause;
+  return tempo.eccentric + tempo.bottomPause + tempo.concentric + tempo.topPause - startPause;
+};
+
+// Parse tempo notation (eccentric-bottom-concentric-top seconds, e.g. "3-1-1-0") into ms
+export const parseTempo = (notation: string): RepTempo | null => {
+  const parts = notation.trim().split('-');
+  if (parts.length !== TEMPO_PHASES.length) return null;
+
+  const seconds = parts.map(Number);
+  if (parts.some((part) => part.trim() === '') || seconds.some((s) => !Number.isFinite(s) || s < 0)) {
+    return null;
+  }
+
+  return {
+    eccentric: seconds[0] * 1000,
+    bottomPause: seconds[1] * 1000,
+    concentric: seconds[2] * 1000,
+    topPause: seconds[3] * 1000,
+  };
+};
+
+// Format a tempo in seconds, e.g. "2.8-1.1-0.9-0.4"
+export const formatTempo = (tempo: RepTempo): string => {
+  return TEMPO_PHASES.map((phase) => (tempo[phase] / 1000).toFixed(1)).join('-');
+};
+
+// Phases that missed the target tempo
+export const getOffTempoPhases = (tempo: RepTempo, target: RepTempo): TempoPhase[] => {
+  return TEMPO_PHASES.filter((phase) => {
+    const tolerance = Math.max(TEMPO_TOLERANCE_MS, target[phase] * TEMPO_TOLERANCE_RATIO);
+    return Math.abs(tempo[phase] - target[phase]) > tolerance;
+  });
+};
@@ -0,0 +1,44 @@
+import { BodySide, RepData, UnilateralMode } from '../types';
+
+// Side imbalance above this share of the stronger side is flagged
+export const IMBALANCE_WARNING_PERCENT = 15;
+
+export const SIDE_LABELS: Record<BodySide, string> = {
+  left: 'Left',
+  right: 'Right',
+};
+
+export interface SideStats {
+  reps: number;
+  validReps: number;
+  formScore: number; // Average over the side's reps, 0 when there are none
+}
+
+// Side worked in a set - null when both sides alternate within the set
+export const getSetSide = (mode: UnilateralMode, setIndex: number): BodySide | null => {
+  if (mode === 'alternating') return null;
+  return setIndex % 2 === 0 ? 'left' : 'right';
+};
+
+export const getSideStats = (reps: RepData[], side: BodySide): SideStats => {
+  const sideReps = reps.filter((r) => r.side === side);
+  return {
+    reps: sideReps.length,
+    validReps: sideReps.filter((r) => r.isValid).length,
+    formScore: sideReps.length > 0
+      ? sideReps.reduce((sum, r) => sum + r.formScore, 0) / sideReps.length
+      : 0,
+  };
+};
+
+// Difference between the sides as a percentage of the stronger side
+export const getSideImbalance = (left: number, right: number): number => {
+  const stronger = Math.max(left, right);
+  return stronger > 0 ? (Math.abs(left - right) / stronger) * 100 : 0;
+};
+
+// Side with fewer valid reps, or null when they are balanced
+export const getWeakerSide = (left: number, right: number): BodySide | null => {
+  if (getSideImbalance(left, right) < IMBALANCE_WARNING_PERCENT) return null;
+  return left < right ? 'left' : 'right';
+};
@@ -0,0 +1,113 @@
+import {
+  ExerciseType,
+  SetData,
+  WorkoutBlock,
+  WorkoutConfig,
+  WorkoutSession,
+  WorkoutStep,
+  WorkoutStructure,
+} from '../types';
+import { getIntervalBlock, getWorkoutFormat, getWorkSeconds, isIntervalFormat } from './intervals';
+
+export const WORKOUT_STRUCTURE_LABELS: Record<WorkoutStructure, string> = {
+  straight: 'Straight Sets',
+  circuit: 'Circuit',
+  superset: 'Superset',
+};
+
+export const DEFAULT_WORKOUT_STRUCTURE: WorkoutStructure = 'straight';
+
+// Block with the exercise settings of a config
+export const toWorkoutBlock = (config: WorkoutConfig): WorkoutBlock => ({
+  exercise: config.exercise,
+  sets: config.sets,
+  targetReps: config.targetReps,
+  restPeriod: config.restPeriod,
+  targetHoldTime: config.targetHoldTime,
+  targetTempo: config.targetTempo,
+  unilateralMode: config.unilateralMode,
+});
+
+// Blocks a workout runs - a single-exercise config is one block, with
+// the sets and rest of its interval format if it has one
+export const getWorkoutBlocks = (config: WorkoutConfig): WorkoutBlock[] => {
+  const format = getWorkoutFormat(config);
+  if (isIntervalFormat(format)) return [getIntervalBlock(config, format)];
+  return config.blocks && config.blocks.length > 0 ? config.blocks : [toWorkoutBlock(config)];
+};
+
+// Exercises a config names - its own and each of its blocks'
+export const getConfigExercises = (config: WorkoutConfig): ExerciseType[] => {
+  return [config.exercise, ...(config.blocks ?? []).map((block) => block.exercise)];
+};
+
+// Sets of the given blocks one after another, each followed by its block's rest
+const straightSteps = (blocks: WorkoutBlock[], blockIndexes: number[]): WorkoutStep[] => {
+  return blockIndexes.flatMap((blockIndex) =>
+    Array.from({ length: blocks[blockIndex].sets }, (_, setIndex) => ({
+      blockIndex,
+      setIndex,
+      restAfter: blocks[blockIndex].restPeriod,
+    }))
+  );
+};
+
+// One set of every block per round. Exercises within a round follow each
+// other without rest; the round ends with the rest of its last block.
+// Blocks with fewer sets drop out of the later rounds.
+const roundSteps = (blocks: WorkoutBlock[], blockIndexes: number[]): WorkoutStep[] => {
+  const rounds = Math.max(0, ...blockIndexes.map((blockIndex) => blocks[blockIndex].sets));
+  const steps: WorkoutStep[] = [];
+
+  for (let setIndex = 0; setIndex < rounds; setIndex++) {
+    const round = blockIndexes
+      .filter((blockIndex) => setIndex < blocks[blockIndex].sets)
+      .map((blockIndex) => ({ blockIndex, setIndex, restAfter: 0 }));
+    round[round.length - 1].restAfter = blocks[round[round.length - 1].blockIndex].restPeriod;
+    steps.push(...round);
+  }
+
+  return steps;
+};
+
+/**
+ * Every set of a workout in the order it is performed. Supersets pair
+ * consecutive blocks (1 + 2, 3 + 4, ...) and alternate within each pair;
+ * an odd block out runs as straight sets. The last step's rest is unused.
+ */
+export const buildWorkoutPlan = (config: WorkoutConfig): WorkoutStep[] => {
+  const blocks = getWorkoutBlocks(config);
+  const blockIndexes = blocks.map((_, index) => index);
+
+  // Interval formats are timed straight sets of their one block
+  const format = getWorkoutFormat(config);
+  if (isIntervalFormat(format)) {
+    const workSeconds = getWorkSeconds(config, format);
+    return straightSteps(blocks, blockIndexes).map((step) => ({ ...step, workSeconds }));
+  }
+
+  switch (blocks.length > 1 ? config.structure ?? DEFAULT_WORKOUT_STRUCTURE : 'straight') {
+    case 'straight':
+      return straightSteps(blocks, blockIndexes);
+    case 'circuit':
+      return roundSteps(blocks, blockIndexes);
+    case 'superset': {
+      const steps: WorkoutStep[] = [];
+      for (let i = 0; i < blocks.length; i += 2) {
+        const pair = blockIndexes.slice(i, i + 2);
+        steps.push(...(pair.length === 2 ? roundSteps(blocks, pair) : straightSteps(blocks, pair)));
+      }
+      return steps;
+    }
+  }
+};
+
+// Exercise a set was performed with - sets from before multi-exercise
+// workouts belong to the session's exercise
+export const getSetExercise = (session: WorkoutSession, set: SetData): ExerciseType => {
+  return set.exercise ?? session.exercise;
+};
+
+export const getSessionExercises = (session: WorkoutSession): ExerciseType[] => {
+  return session.exercises ?? [session.exercise];
+};